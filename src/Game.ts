@@ -1,22 +1,58 @@
 import { GameCanvas } from './GameCanvas';
 import { GameLoop } from './GameLoop';
 import { SceneManager } from './SceneManager';
+import { AssetStore } from './assets/AssetStore';
 import { CanvasOptions } from './interfaces/CanvasOptions';
+import { GameConfig } from './interfaces/GameConfig';
+import { Plugin } from './interfaces/Plugin';
+import { PluginContext } from './PluginContext';
 import { Keyboard } from './inputs/Keyboard';
 import { Mouse } from './inputs/Mouse';
 import { Touch } from './inputs/Touch';
 import { Scene } from './interfaces/Scene';
 
 /**
- * @class Game - The main game class.
+ * @class Game - The main game class, owning its canvas, loop, scene manager, inputs and asset store.
  * @public
  */
 export class Game {
+  private static _current?: Game;
+  private _gameCanvas: GameCanvas;
+  private _assetStore: AssetStore;
+  private _sceneManager: SceneManager;
+  private _gameLoop: GameLoop;
+  private _keyboard: Keyboard;
+  private _mouse: Mouse;
+  private _touch: Touch;
+  private _config: GameConfig;
+  private _plugins: Map<string, { plugin: Plugin; context: PluginContext }>;
+  private _originals: Map<unknown, unknown>;
+  private _previous?: Game;
+  private _isDestroyed: boolean;
+
   /**
    * @constructor
+   * A game created while no game is active adopts the default instances, with what was already added to them,
+   * e.g. the images of ServiceContainer.AssetStore; the other games create their own services.
+   * @param {GameConfig} [config] - The configuration of the game.
    * @public
+   * @example
+   * const game = new Game({
+   *   canvas: { size: new Point(320, 180) },
+   *   loop: { fixedTimeStep: 1 / 60 },
+   *   audio: { volume: 0.5 },
+   *   debug: { crashScreen: true },
+   *   printLogo: false,
+   * });
    */
-  constructor() {
+  constructor(config: GameConfig = {}) {
+    this._config = config;
+    this._plugins = new Map<
+      string,
+      { plugin: Plugin; context: PluginContext }
+    >();
+    this._originals = new Map<unknown, unknown>();
+    this._isDestroyed = false;
     const logo = `Powered by
     ██████╗       ██████╗  ██████╗ ██╗    ██╗  █╗
     ██╔══██╗      ██╔══██╗██╔═══██╗██║    ██║  ██╗
@@ -26,7 +62,228 @@ export class Game {
     ╚═╝  ╚═╝      ╚═╝  ╚═╝ ╚═════╝  ╚══╝╚══╝   ╚╝
 Developed with ♥️ by Yoan B. (Menerv)
 More info at https://github.com/TheMenerv/r-row`;
-    console.log(logo);
+    if (config.printLogo !== false) console.log(logo);
+
+    if (!Game._current) {
+      this._gameCanvas = GameCanvas.instance;
+      this._assetStore = AssetStore.instance;
+      this._sceneManager = SceneManager.instance;
+      this._gameLoop = GameLoop.instance;
+      this._keyboard = Keyboard.instance;
+      this._mouse = Mouse.instance;
+      this._touch = Touch.instance;
+    } else {
+      this._gameCanvas = new GameCanvas();
+      this._assetStore = new AssetStore();
+      this._sceneManager = new SceneManager(this._assetStore);
+      this._gameLoop = new GameLoop(this._sceneManager, this._gameCanvas);
+      this._keyboard = new Keyboard(this._gameCanvas, this._gameLoop);
+      this._mouse = new Mouse(this._gameCanvas, this._gameLoop);
+      this._touch = new Touch(this._gameCanvas, this._gameLoop);
+    }
+    this._gameLoop.onFrameStart(() => this.activate());
+    this._bindSceneManager();
+    this._configure(config);
+    this.activate();
+  }
+
+  /**
+   * @get current - The active game, whose services are returned by ServiceContainer and the instance getters.
+   * @returns {Game | undefined} The active game.
+   * @public
+   * @example
+   * Game.current;
+   */
+  public static get current(): Game | undefined {
+    return Game._current;
+  }
+
+  /**
+   * @get gameCanvas - The canvas of the game.
+   * @returns {GameCanvas} The canvas of the game.
+   * @public
+   * @example
+   * game.gameCanvas;
+   */
+  public get gameCanvas(): GameCanvas {
+    return this._gameCanvas;
+  }
+
+  /**
+   * @get assetStore - The asset store of the game.
+   * @returns {AssetStore} The asset store of the game.
+   * @public
+   * @example
+   * game.assetStore;
+   */
+  public get assetStore(): AssetStore {
+    return this._assetStore;
+  }
+
+  /**
+   * @get sceneManager - The scene manager of the game.
+   * @returns {SceneManager} The scene manager of the game.
+   * @public
+   * @example
+   * game.sceneManager;
+   */
+  public get sceneManager(): SceneManager {
+    return this._sceneManager;
+  }
+
+  /**
+   * @get gameLoop - The loop of the game.
+   * @returns {GameLoop} The loop of the game.
+   * @public
+   * @example
+   * game.gameLoop;
+   */
+  public get gameLoop(): GameLoop {
+    return this._gameLoop;
+  }
+
+  /**
+   * @get keyboard - The keyboard of the game.
+   * @returns {Keyboard} The keyboard of the game.
+   * @public
+   * @example
+   * game.keyboard;
+   */
+  public get keyboard(): Keyboard {
+    return this._keyboard;
+  }
+
+  /**
+   * @get mouse - The mouse of the game.
+   * @returns {Mouse} The mouse of the game.
+   * @public
+   * @example
+   * game.mouse;
+   */
+  public get mouse(): Mouse {
+    return this._mouse;
+  }
+
+  /**
+   * @get touch - The touch input of the game.
+   * @returns {Touch} The touch input of the game.
+   * @public
+   * @example
+   * game.touch;
+   */
+  public get touch(): Touch {
+    return this._touch;
+  }
+
+  /**
+   * @method activate - Makes the services of the game the default instances, done at the start of each of its frames.
+   * @returns {Game} The instance of the Game class.
+   * @public
+   * @example
+   * const preview = new Game();
+   * const game = new Game();
+   * preview.activate();
+   * ServiceContainer.SceneManager.register('preview', () => new PreviewScene());
+   */
+  public activate(): Game {
+    if (Game._current !== this) this._previous = Game._current;
+    Game._current = this;
+    GameCanvas.instance = this._gameCanvas;
+    AssetStore.instance = this._assetStore;
+    SceneManager.instance = this._sceneManager;
+    GameLoop.instance = this._gameLoop;
+    Keyboard.instance = this._keyboard;
+    Mouse.instance = this._mouse;
+    Touch.instance = this._touch;
+    return this;
+  }
+
+  /**
+   * @method deactivate - Stops making the services of the game the default instances until its next frame.
+   * The game active before it is activated again, otherwise new default instances are created on next access.
+   * @returns {Game} The instance of the Game class.
+   * @public
+   * @example
+   * game.deactivate();
+   */
+  public deactivate(): Game {
+    if (Game._current !== this) return this;
+    Game._current = undefined;
+    const previous = this._previous;
+    this._previous = undefined;
+    if (previous && !previous._isDestroyed) {
+      previous.activate();
+      return this;
+    }
+    GameCanvas.instance = undefined;
+    AssetStore.instance = undefined;
+    SceneManager.instance = undefined;
+    GameLoop.instance = undefined;
+    Keyboard.instance = undefined;
+    Mouse.instance = undefined;
+    Touch.instance = undefined;
+    return this;
+  }
+
+  /**
+   * @method setService - Replaces a service of the game, e.g. with a fake in tests.
+   * The replaced loop is stopped and the replaced inputs stop listening, a replaced fake is destroyed;
+   * the original service is kept to be put back by restoreService. The inputs of the game listen to a new canvas or loop.
+   * @param {{ prototype: T }} service - The class of the service to replace.
+   * @param {T} instance - The instance to use instead.
+   * @returns {Game} The instance of the Game class.
+   * @public
+   * @example
+   * game.setService(Keyboard, scriptedKeyboard);
+   */
+  public setService<T>(service: { prototype: T }, instance: T): Game {
+    const value = instance as unknown;
+    const token = service as unknown;
+    const replaced = this._getService(token);
+    if (replaced === value) return this;
+    if (!this._originals.has(token)) this._originals.set(token, replaced);
+
+    const wasRunning = token === GameLoop && this._gameLoop.isRunning;
+    if (replaced !== this._originals.get(token))
+      (replaced as { destroy?(): void }).destroy?.();
+    else if (token === GameLoop) this._gameLoop.stop();
+    else if (token === Keyboard || token === Mouse || token === Touch)
+      (replaced as Keyboard | Mouse | Touch).destroy();
+
+    if (token === GameCanvas) this._gameCanvas = value as GameCanvas;
+    else if (token === AssetStore) this._assetStore = value as AssetStore;
+    else if (token === SceneManager) this._sceneManager = value as SceneManager;
+    else if (token === GameLoop) this._gameLoop = value as GameLoop;
+    else if (token === Keyboard) this._keyboard = value as Keyboard;
+    else if (token === Mouse) this._mouse = value as Mouse;
+    else this._touch = value as Touch;
+    if (token === GameLoop) {
+      this._gameLoop.onFrameStart(() => this.activate());
+      if (wasRunning) this._gameLoop.start();
+    }
+    if (token === GameLoop || token === GameCanvas || token === SceneManager)
+      this._bindSceneManager();
+    if (token === GameLoop || token === GameCanvas) this._rebindInputs();
+    if (Game._current === this) this.activate();
+    return this;
+  }
+
+  /**
+   * @method restoreService - Puts back the original service of the game replaced by setService, the replacing one is destroyed.
+   * @param {{ prototype: T }} service - The class of the service to restore.
+   * @returns {Game} The instance of the Game class.
+   * @public
+   * @example
+   * game.restoreService(Keyboard);
+   */
+  public restoreService<T>(service: { prototype: T }): Game {
+    const token = service as unknown;
+    if (!this._originals.has(token)) return this;
+    let original = this._originals.get(token);
+    if (this._isInputEnabled(token)) original = this._createInput(token);
+    this.setService(service, original as T);
+    this._originals.delete(token);
+    return this;
   }
 
   /**
@@ -38,10 +295,9 @@ More info at https://github.com/TheMenerv/r-row`;
    * game.start();
    */
   public start(): Game {
-    GameLoop.instance;
-    Keyboard.instance;
-    Mouse.instance;
-    Touch.instance;
+    this.activate();
+    if (!this._gameCanvas.isInitialized) this.createCanvas(this._config.canvas);
+    this._gameLoop.start();
     return this;
   }
 
@@ -55,21 +311,258 @@ More info at https://github.com/TheMenerv/r-row`;
    * game.createCanvas({ width: 800, height: 600 });
    */
   public createCanvas(canvasOptions?: CanvasOptions): Game {
-    GameCanvas.instance.init(canvasOptions);
+    this._gameCanvas.init(canvasOptions);
     return this;
   }
 
   /**
    * @method addScenesAndSelect - Add scenes to the scene manager and select a scene.
-   * @param {Scene} scene - The scene to start.
+   * @param {Scene<TData> | string} scene - The scene, or the key of the registered scene, to start.
+   * @param {TData} [data] - The data to pass to the scene.
    * @returns {Game} The instance of the Game class.
    * @public
    * @example
    * const game = new Game();
    * game.startScene(new GameScene());
+   * @example
+   * const game = new Game();
+   * ServiceContainer.SceneManager.register('game', () => new GameScene());
+   * game.startScene('game', { difficulty: 1 });
    */
-  public startScene(scene: Scene): Game {
-    SceneManager.instance.setScene(scene);
+  public startScene<TData = any>(
+    scene: Scene<TData> | string,
+    data?: TData
+  ): Game {
+    this.activate();
+    this._sceneManager.setScene(scene, data);
     return this;
   }
+
+  /**
+   * @method use - Installs a plugin on the game.
+   * @param {Plugin} plugin - The plugin to install.
+   * @returns {Game} The instance of the Game class.
+   * @public
+   * @example
+   * game.use({
+   *   name: 'fps-meter',
+   *   install: (context) =>
+   *     context.subscribeToRender(
+   *       (ctx) => drawText(ctx, `${context.game.gameLoop.FPS}`, new Point(4, 12)),
+   *       { phase: LoopPhase.UI }
+   *     ),
+   * });
+   */
+  public use(plugin: Plugin): Game {
+    if (this._plugins.has(plugin.name))
+      throw new Error(`Plugin ${plugin.name} already installed`);
+    this.activate();
+    const context = new PluginContext(this);
+    this._plugins.set(plugin.name, { plugin, context });
+    try {
+      plugin.install(context);
+    } catch (error) {
+      this._plugins.delete(plugin.name);
+      context.dispose();
+      throw error;
+    }
+    return this;
+  }
+
+  /**
+   * @method uninstall - Uninstalls a plugin and releases what it added to the game.
+   * @param {Plugin | string} plugin - The plugin or its name.
+   * @returns {Game} The instance of the Game class.
+   * @public
+   * @example
+   * game.uninstall('fps-meter');
+   */
+  public uninstall(plugin: Plugin | string): Game {
+    const name = typeof plugin === 'string' ? plugin : plugin.name;
+    const installed = this._plugins.get(name);
+    if (!installed) throw new Error(`Plugin ${name} is not installed`);
+    this.activate();
+    this._plugins.delete(name);
+    try {
+      installed.plugin.uninstall?.(installed.context);
+    } finally {
+      installed.context.dispose();
+    }
+    return this;
+  }
+
+  /**
+   * @method hasPlugin - Checks if a plugin is installed.
+   * @param {string} name - The name of the plugin.
+   * @returns {boolean} True if the plugin is installed.
+   * @public
+   * @example
+   * game.hasPlugin('fps-meter');
+   */
+  public hasPlugin(name: string): boolean {
+    return this._plugins.has(name);
+  }
+
+  /**
+   * @method destroy - Stops the game and removes its canvas, listeners and input fields from the page.
+   * A plugin or a service that fails to be released does not stop the others, the errors are thrown afterwards.
+   * @returns {void}
+   * @public
+   * @example
+   * const game = new Game();
+   * game.start();
+   * game.destroy();
+   */
+  public destroy(): void {
+    const errors: unknown[] = [];
+    const release = (callback: () => void): void => {
+      try {
+        callback();
+      } catch (error) {
+        errors.push(error);
+      }
+    };
+    const names: string[] = [];
+    this._plugins.forEach((_, name) => names.unshift(name));
+    names.forEach((name) => release(() => this.uninstall(name)));
+    [
+      this._gameLoop,
+      this._sceneManager,
+      this._keyboard,
+      this._mouse,
+      this._touch,
+      this._assetStore,
+      this._gameCanvas,
+    ].forEach((service) => release(() => service.destroy()));
+    this._originals.forEach((original, token) => {
+      if (original !== this._getService(token))
+        release(() => (original as { destroy?(): void }).destroy?.());
+    });
+    this._originals.clear();
+    this._isDestroyed = true;
+    this.deactivate();
+
+    if (errors.length === 1) throw errors[0];
+    if (errors.length > 1) {
+      const messages = errors.map((error) =>
+        error instanceof Error ? error.message : String(error)
+      );
+      throw new Error(
+        `${errors.length} errors while destroying the game: ${messages.join('; ')}`
+      );
+    }
+  }
+
+  /**
+   * @method _bindSceneManager - Makes the scopes of the scenes use the loop and canvas of the game, and activate it after an asynchronous load.
+   * @returns {void}
+   * @private
+   */
+  private _bindSceneManager(): void {
+    this._sceneManager.setGameServices(this._gameLoop, this._gameCanvas, () =>
+      this.activate()
+    );
+  }
+
+  /**
+   * @method _rebindInputs - Replaces the inputs of the game by new ones listening to its canvas and loop, but not the fakes set in their place.
+   * @returns {void}
+   * @private
+   */
+  private _rebindInputs(): void {
+    if (this._isInputEnabled(Keyboard) && !this._originals.has(Keyboard)) {
+      this._keyboard.destroy();
+      this._keyboard = this._createInput(Keyboard) as Keyboard;
+    }
+    if (this._isInputEnabled(Mouse) && !this._originals.has(Mouse)) {
+      this._mouse.destroy();
+      this._mouse = this._createInput(Mouse) as Mouse;
+    }
+    if (this._isInputEnabled(Touch) && !this._originals.has(Touch)) {
+      this._touch.destroy();
+      this._touch = this._createInput(Touch) as Touch;
+    }
+  }
+
+  /**
+   * @method _isInputEnabled - Checks if a service is an input not disabled by the configuration.
+   * @param {unknown} token - The class of the service.
+   * @returns {boolean} True for an enabled input.
+   * @private
+   */
+  private _isInputEnabled(token: unknown): boolean {
+    const input = this._config.input ?? {};
+    if (token === Keyboard) return input.keyboard !== false;
+    if (token === Mouse) return input.mouse !== false;
+    if (token === Touch) return input.touch !== false;
+    return false;
+  }
+
+  /**
+   * @method _createInput - Creates an input listening to the canvas and loop of the game.
+   * @param {unknown} token - The class of the input.
+   * @returns {Keyboard | Mouse | Touch} The input.
+   * @private
+   */
+  private _createInput(token: unknown): Keyboard | Mouse | Touch {
+    if (token === Keyboard)
+      return new Keyboard(this._gameCanvas, this._gameLoop);
+    if (token === Mouse) return new Mouse(this._gameCanvas, this._gameLoop);
+    const touch = new Touch(this._gameCanvas, this._gameLoop);
+    const delay = this._config.input?.touchClickDelay;
+    if (delay !== undefined) touch.setClickDelay(delay);
+    return touch;
+  }
+
+  /**
+   * @method _getService - Returns the built-in service of the game for a class.
+   * @param {unknown} token - The class of the service.
+   * @returns {unknown} The service.
+   * @private
+   */
+  private _getService(token: unknown): unknown {
+    if (token === GameCanvas) return this._gameCanvas;
+    if (token === AssetStore) return this._assetStore;
+    if (token === SceneManager) return this._sceneManager;
+    if (token === GameLoop) return this._gameLoop;
+    if (token === Keyboard) return this._keyboard;
+    if (token === Mouse) return this._mouse;
+    if (token === Touch) return this._touch;
+    throw new Error('Only the built-in services of a game can be set.');
+  }
+
+  /**
+   * @method _configure - Applies the configuration to the services of the game.
+   * @param {GameConfig} config - The configuration of the game.
+   * @returns {void}
+   * @private
+   */
+  private _configure(config: GameConfig): void {
+    const loop = config.loop ?? {};
+    if (loop.scheduler) this._gameLoop.setScheduler(loop.scheduler);
+    if (loop.timeScale !== undefined)
+      this._gameLoop.setTimeScale(loop.timeScale);
+    if (loop.fixedTimeStep !== undefined)
+      this._gameLoop.enableFixedTimeStep(
+        loop.fixedTimeStep,
+        loop.maxFixedSteps
+      );
+    if (loop.freezeLimit !== undefined)
+      this._gameLoop.setFreezeLimit(loop.freezeLimit);
+
+    const input = config.input ?? {};
+    if (input.keyboard === false) this._keyboard.destroy();
+    if (input.mouse === false) this._mouse.destroy();
+    if (input.touch === false) this._touch.destroy();
+    if (input.touchClickDelay !== undefined)
+      this._touch.setClickDelay(input.touchClickDelay);
+
+    const audio = config.audio ?? {};
+    if (audio.volume !== undefined) this._assetStore.setVolume(audio.volume);
+    if (audio.muted !== undefined) this._assetStore.setMuted(audio.muted);
+
+    const debug = config.debug ?? {};
+    if (debug.crashScreen) this._gameLoop.enableCrashScreen();
+    if (debug.onError) this._gameLoop.onError(debug.onError);
+  }
 }
@@ -1,38 +1,123 @@
 import { Point } from './primitives/Point';
 import { CanvasOptions } from './interfaces/CanvasOptions';
+import { ScaleMode } from './enums/ScaleMode';
+import { ResizeFunction } from './types/ResizeFunction';
+import { InputField } from './ui/InputField';
+import { Camera } from './cameras/Camera';
+import { Viewport } from './cameras/Viewport';
+import { RenderLayer } from './layers/RenderLayer';
+import { LayerSpace } from './enums/LayerSpace';
+import { PostEffect } from './effects/PostEffect';
+import { RendererType } from './enums/RendererType';
+import { SpriteBatch } from './interfaces/SpriteBatch';
+import { CanvasSpriteBatch } from './renderers/CanvasSpriteBatch';
+import { WebGLSpriteBatch } from './renderers/WebGLSpriteBatch';
+import { ScreenshotOptions } from './interfaces/ScreenshotOptions';
+import { RecordingOptions } from './interfaces/RecordingOptions';
+import { Rectangle } from './primitives/Rectangle';
 
 const DEFAULT_CANVAS_SIZE = new Point(800, 600);
 
 /**
- * @class GameCanvas - Singleton class that manages the game canvas.
+ * @function createDefaultLayers - Creates the layers every canvas starts with.
+ * @returns {RenderLayer[]} The background, world, foreground, ui and debug layers.
+ */
+const createDefaultLayers = (): RenderLayer[] => [
+  new RenderLayer('background', { zIndex: -100 }),
+  new RenderLayer('world', { zIndex: 0 }),
+  new RenderLayer('foreground', { zIndex: 100 }),
+  new RenderLayer('ui', { zIndex: 200, space: LayerSpace.Screen }),
+  new RenderLayer('debug', { zIndex: 300, space: LayerSpace.Screen }),
+];
+
+/**
+ * @class GameCanvas - Class that manages the game canvas, with a default instance.
  * @public
  */
 export class GameCanvas {
-  private static _instance: GameCanvas;
-  private static _isInitialized: boolean = false;
+  private static _instance?: GameCanvas;
+  private static _byContext = new WeakMap<
+    CanvasRenderingContext2D,
+    GameCanvas
+  >();
+  private _isInitialized: boolean;
   private _canvas: HTMLCanvasElement;
   private _context: CanvasRenderingContext2D;
+  private _renderTarget: HTMLCanvasElement;
+  private _renderContext: CanvasRenderingContext2D;
+  private _pixelPerfect: boolean;
+  private _fullResolutionUI: boolean;
+  private _effects: PostEffect[];
+  private _spriteBatch: SpriteBatch;
+  private _recorder?: MediaRecorder;
+  private _recordedChunks: Blob[];
+  private _effectBuffer: HTMLCanvasElement;
+  private _effectContext: CanvasRenderingContext2D;
   private _baseSize: Point;
+  private _designSize: Point;
   private _scale: number;
+  private _scaleVector: Point;
+  private _offset: Point;
+  private _displaySize: Point;
   private _autoSize: boolean;
+  private _scaleMode: ScaleMode;
+  private _letterboxColor: string;
+  private _center: boolean;
+  private _resizeListeners: ResizeFunction[];
+  private _parentObserver?: ResizeObserver;
   private _imageSmoothingEnabled: boolean;
   private _imageSmoothingQuality: ImageSmoothingQuality;
   private _backgroundColor: string;
+  private _inputFields: Set<InputField>;
+  private _camera: Camera;
+  private _viewports: Viewport[];
+  private _layers: RenderLayer[];
 
   /**
    * @constructor
-   * @private
+   * @public
+   * @example
+   * const gameCanvas = new GameCanvas();
    */
-  private constructor() {
+  public constructor() {
+    this._isInitialized = false;
+    this._inputFields = new Set<InputField>();
+    this._camera = new Camera(DEFAULT_CANVAS_SIZE);
+    this._viewports = [];
+    this._layers = createDefaultLayers();
     this._baseSize = DEFAULT_CANVAS_SIZE;
+    this._designSize = DEFAULT_CANVAS_SIZE;
     this._scale = 1;
+    this._scaleVector = new Point(1, 1);
+    this._offset = new Point(0, 0);
+    this._displaySize = DEFAULT_CANVAS_SIZE;
     this._autoSize = true;
+    this._scaleMode = ScaleMode.Fit;
+    this._letterboxColor = '#000000';
+    this._center = true;
+    this._resizeListeners = [];
+    this._pixelPerfect = false;
+    this._fullResolutionUI = false;
+    this._effects = [];
+    this._spriteBatch = new CanvasSpriteBatch();
+    this._recordedChunks = [];
     this._imageSmoothingEnabled = false;
     this._imageSmoothingQuality = 'high';
     this._backgroundColor = '#000000';
 
     this._canvas = document.createElement('canvas');
     this._context = this._canvas.getContext('2d') as CanvasRenderingContext2D;
+    this._renderTarget = document.createElement('canvas');
+    this._renderContext = this._renderTarget.getContext(
+      '2d'
+    ) as CanvasRenderingContext2D;
+    this._effectBuffer = document.createElement('canvas');
+    this._effectContext = this._effectBuffer.getContext(
+      '2d'
+    ) as CanvasRenderingContext2D;
+    [this._context, this._renderContext, this._effectContext].forEach(
+      (context) => context && GameCanvas._byContext.set(context, this)
+    );
   }
 
   /**
@@ -48,6 +133,65 @@ export class GameCanvas {
     return GameCanvas._instance;
   }
 
+  /**
+   * @set instance - Replaces the instance of the GameCanvas class, e.g. with a fake in tests.
+   * @param {GameCanvas | undefined} instance - The new instance, none to create one on next access.
+   * @public
+   * @example
+   * GameCanvas.instance = fakeGameCanvas;
+   */
+  public static set instance(instance: GameCanvas | undefined) {
+    GameCanvas._instance = instance;
+  }
+
+  /**
+   * @method fromContext - Returns the canvas a context belongs to, e.g. to draw through its sprite batch.
+   * @param {CanvasRenderingContext2D} context - The context.
+   * @returns {GameCanvas | undefined} The canvas, none for a context created elsewhere.
+   * @public
+   * @example
+   * GameCanvas.fromContext(context)?.spriteBatch;
+   */
+  public static fromContext(
+    context: CanvasRenderingContext2D
+  ): GameCanvas | undefined {
+    return GameCanvas._byContext.get(context);
+  }
+
+  /**
+   * @method reset - Destroys the instance of the GameCanvas class, a new one is created on next access.
+   * @returns {void}
+   * @public
+   * @example
+   * GameCanvas.reset();
+   */
+  public static reset(): void {
+    GameCanvas._instance?.destroy();
+    GameCanvas._instance = undefined;
+  }
+
+  /**
+   * @method destroy - Removes the canvas and its input fields from the page, and its window and parent listeners.
+   * @returns {void}
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.destroy();
+   */
+  public destroy(): void {
+    window.removeEventListener('mousedown', this._focus);
+    window.removeEventListener('touchstart', this._focus);
+    window.removeEventListener('resize', this._onResize);
+    window.removeEventListener('orientationchange', this._onResize);
+    this._parentObserver?.disconnect();
+    this._parentObserver = undefined;
+    this._inputFields.forEach((inputField) => inputField.destroy());
+    this._spriteBatch.destroy();
+    if (this._recorder?.state === 'recording') this._recorder.stop();
+    this._recorder = undefined;
+    this._canvas.parentNode?.removeChild(this._canvas);
+    this._isInitialized = false;
+  }
+
   /**
    * @method init - Initialize the canvas.
    * @param {CanvasOptions} [options] - The options to set the canvas.
@@ -64,12 +208,18 @@ export class GameCanvas {
     const DEFAULT_IMAGE_SMOOTHING_ENABLED = false;
     const DEFAULT_IMAGE_SMOOTHING_QUALITY = 'high';
     const DEFAULT_BACKGROUND_COLOR = '#000000';
+    const DEFAULT_SCALE_MODE = ScaleMode.Fit;
+    const DEFAULT_LETTERBOX_COLOR = '#000000';
 
     this._scale = 1;
 
     this._baseSize = options
       ? options.size || DEFAULT_CANVAS_SIZE
       : DEFAULT_CANVAS_SIZE;
+    this._designSize = this._baseSize;
+    this._camera
+      .setViewportSize(this._baseSize)
+      .setPosition(new Point(this._baseSize.x / 2, this._baseSize.y / 2));
 
     if (options && options.autoSize !== undefined)
       this._autoSize = options.autoSize;
@@ -88,6 +238,14 @@ export class GameCanvas {
       ? options.backgroundColor || DEFAULT_BACKGROUND_COLOR
       : DEFAULT_BACKGROUND_COLOR;
 
+    this._scaleMode = options?.scaleMode ?? DEFAULT_SCALE_MODE;
+    this._letterboxColor = options?.letterboxColor ?? DEFAULT_LETTERBOX_COLOR;
+    this._center = options?.center ?? true;
+    this._pixelPerfect = options?.pixelPerfect ?? false;
+    this._fullResolutionUI = options?.fullResolutionUI ?? false;
+    if (options?.renderer === RendererType.WebGL2)
+      this.setSpriteBatch(this._createWebGLSpriteBatch());
+
     const parent = options
       ? options.parent || DEFAULT_CANVAS_PARENT
       : DEFAULT_CANVAS_PARENT;
@@ -96,21 +254,60 @@ export class GameCanvas {
 
     parent.appendChild(this._canvas);
     this._canvas.focus();
-    window.addEventListener('mousedown', () => {
-      this._canvas.focus();
-    });
-    window.addEventListener('touchstart', () => {
-      this._canvas.focus();
-    });
-    window.addEventListener('resize', () => this._resize());
-    window.addEventListener('orientationchange', () => this._resize());
+    window.addEventListener('mousedown', this._focus);
+    window.addEventListener('touchstart', this._focus);
+    window.addEventListener('resize', this._onResize);
+    window.addEventListener('orientationchange', this._onResize);
+    this._parentObserver?.disconnect();
+    this._parentObserver = undefined;
+    if (parent !== document.body) {
+      // A block canvas does not add the line gap of inline elements to a parent sized by its content.
+      this._canvas.style.display = 'block';
+      if (typeof ResizeObserver !== 'undefined') {
+        this._parentObserver = new ResizeObserver(this._onResize);
+        this._parentObserver.observe(parent);
+      }
+    }
 
-    GameCanvas._isInitialized = true;
+    this._isInitialized = true;
 
     this._resize(true);
     this._canvas.focus();
 
-    return GameCanvas._instance;
+    return this;
+  }
+
+  /**
+   * @get isInitialized - Whether the canvas is initialized and added to the page.
+   * @returns {boolean} True if the canvas is initialized.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.isInitialized;
+   */
+  public get isInitialized(): boolean {
+    return this._isInitialized;
+  }
+
+  /**
+   * @method addInputField - Keeps track of an input field placed over the canvas, destroyed with it.
+   * @param {InputField} inputField - The input field.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   */
+  public addInputField(inputField: InputField): GameCanvas {
+    this._inputFields.add(inputField);
+    return this;
+  }
+
+  /**
+   * @method removeInputField - Stops keeping track of an input field.
+   * @param {InputField} inputField - The input field.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   */
+  public removeInputField(inputField: InputField): GameCanvas {
+    this._inputFields.delete(inputField);
+    return this;
   }
 
   /**
@@ -125,16 +322,460 @@ export class GameCanvas {
   }
 
   /**
-   * @get context - Returns the canvas context.
+   * @get context - Returns the context the game is drawn in, the offscreen one when pixel perfect or post-processed.
    * @returns {CanvasRenderingContext2D} The canvas context.
    * @public
    * @example
    * ServiceContainer.GameCanvas.context;
    */
   public get context(): CanvasRenderingContext2D {
+    return this._hasRenderTarget ? this._renderContext : this._context;
+  }
+
+  /**
+   * @get displayContext - Returns the context of the visible canvas.
+   * @returns {CanvasRenderingContext2D} The context of the visible canvas.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.displayContext;
+   */
+  public get displayContext(): CanvasRenderingContext2D {
     return this._context;
   }
 
+  /**
+   * @get uiContext - Returns the context the UI phase is drawn in.
+   * @returns {CanvasRenderingContext2D} The visible context with full resolution UI, the game context otherwise.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.uiContext;
+   */
+  public get uiContext(): CanvasRenderingContext2D {
+    return this._pixelPerfect && this._fullResolutionUI
+      ? this._context
+      : this.context;
+  }
+
+  /**
+   * @get isPixelPerfect - Whether the game is rendered at the base size then upscaled.
+   * @returns {boolean} True if the game is rendered in the offscreen canvas.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.isPixelPerfect;
+   */
+  public get isPixelPerfect(): boolean {
+    return this._pixelPerfect;
+  }
+
+  /**
+   * @method setPixelPerfect - Renders the game at the base size in an offscreen canvas, then upscales it without smoothing.
+   * @param {boolean} enabled - Whether to render in the offscreen canvas.
+   * @param {boolean} [fullResolutionUI] - Whether to draw the UI phase on the visible canvas at full resolution.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.setPixelPerfect(true, true);
+   */
+  public setPixelPerfect(
+    enabled: boolean,
+    fullResolutionUI: boolean = this._fullResolutionUI
+  ): GameCanvas {
+    this._pixelPerfect = enabled;
+    this._fullResolutionUI = fullResolutionUI;
+    if (this._isInitialized) this._resize();
+    return this;
+  }
+
+  /**
+   * @method present - Copies the offscreen canvas to the visible canvas, with nearest-neighbor scaling when pixel perfect. Called by the GameLoop.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   */
+  public present(): GameCanvas {
+    if (!this._hasRenderTarget) return this;
+    const context = this._context;
+    context.save();
+    context.imageSmoothingEnabled = false;
+    if (!this._pixelPerfect) {
+      context.setTransform(1, 0, 0, 1, 0, 0);
+      context.drawImage(this._renderTarget, 0, 0);
+      context.restore();
+      return this;
+    }
+    context.drawImage(
+      this._renderTarget,
+      0,
+      0,
+      this._renderTarget.width,
+      this._renderTarget.height,
+      0,
+      0,
+      this._baseSize.x,
+      this._baseSize.y
+    );
+    context.restore();
+    return this;
+  }
+
+  /**
+   * @get spriteBatch - The batch the sprites are drawn through between its begin and end.
+   * @returns {SpriteBatch} The sprite batch.
+   * @public
+   * @example
+   * const batch = ServiceContainer.GameCanvas.spriteBatch;
+   * batch.begin(context);
+   * bullets.forEach((bullet) => bullet.draw(context));
+   * batch.end();
+   */
+  public get spriteBatch(): SpriteBatch {
+    return this._spriteBatch;
+  }
+
+  /**
+   * @method setSpriteBatch - Replaces the sprite batch, destroying the previous one.
+   * @param {SpriteBatch} spriteBatch - The new sprite batch.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.setSpriteBatch(new WebGLSpriteBatch(headlessContext));
+   */
+  public setSpriteBatch(spriteBatch: SpriteBatch): GameCanvas {
+    if (spriteBatch === this._spriteBatch) return this;
+    this._spriteBatch.destroy();
+    this._spriteBatch = spriteBatch;
+    return this;
+  }
+
+  /**
+   * @get effects - The post-processing effects, in the order they are applied.
+   * @returns {PostEffect[]} The effects.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.effects;
+   */
+  public get effects(): PostEffect[] {
+    return this._effects.slice();
+  }
+
+  /**
+   * @method addEffect - Adds a post-processing effect to the chain.
+   * @param {PostEffect} effect - The effect.
+   * @param {number} [index] - The position of the effect in the chain, the end by default.
+   * @returns {PostEffect} The effect.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.addEffect(new VignetteEffect());
+   * ServiceContainer.GameCanvas.addEffect(new GrayscaleEffect(), 0);
+   */
+  public addEffect<T extends PostEffect>(
+    effect: T,
+    index: number = this._effects.length
+  ): T {
+    if (this._effects.includes(effect))
+      throw new Error('Effect already added.');
+    this._effects.splice(index, 0, effect);
+    if (this._isInitialized) this._resizeRenderTarget();
+    return effect;
+  }
+
+  /**
+   * @method removeEffect - Removes a post-processing effect from the chain.
+   * @param {PostEffect} effect - The effect.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.removeEffect(vignette);
+   */
+  public removeEffect(effect: PostEffect): GameCanvas {
+    const index = this._effects.indexOf(effect);
+    if (index > -1) this._effects.splice(index, 1);
+    return this;
+  }
+
+  /**
+   * @method clearEffects - Removes all the post-processing effects.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.clearEffects();
+   */
+  public clearEffects(): GameCanvas {
+    this._effects = [];
+    return this;
+  }
+
+  /**
+   * @method updateEffects - Updates the animated post-processing effects. Called by the GameLoop.
+   * @param {number} deltaTime - The time since the last frame.
+   * @returns {void}
+   * @public
+   */
+  public updateEffects(deltaTime: number): void {
+    this._effects.forEach((effect) => effect.update(deltaTime));
+  }
+
+  /**
+   * @method applyEffects - Applies the active effects to the offscreen canvas, in order. Called by the GameLoop.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   */
+  public applyEffects(): GameCanvas {
+    const effects = this._effects.filter((effect) => effect.isActive);
+    if (effects.length === 0) return this;
+    const { width, height } = this._renderTarget;
+    if (this._effectBuffer.width !== width) this._effectBuffer.width = width;
+    if (this._effectBuffer.height !== height)
+      this._effectBuffer.height = height;
+
+    let source = this._renderTarget;
+    let target = this._effectContext;
+    effects.forEach((effect) => {
+      target.save();
+      target.setTransform(1, 0, 0, 1, 0, 0);
+      target.clearRect(0, 0, width, height);
+      try {
+        effect.apply(target, source);
+      } finally {
+        target.restore();
+      }
+      const previous = source;
+      source = target.canvas;
+      target =
+        previous === this._renderTarget
+          ? this._renderContext
+          : this._effectContext;
+    });
+    if (source !== this._renderTarget) {
+      const context = this._renderContext;
+      context.save();
+      context.setTransform(1, 0, 0, 1, 0, 0);
+      context.clearRect(0, 0, width, height);
+      context.drawImage(source, 0, 0);
+      context.restore();
+    }
+    return this;
+  }
+
+  /**
+   * @get camera - Returns the camera applied around the drawing of the scenes when there is no viewport.
+   * @returns {Camera} The camera.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.camera.follow(player);
+   */
+  public get camera(): Camera {
+    return this._camera;
+  }
+
+  /**
+   * @method setCamera - Replaces the camera applied around the drawing of the scenes.
+   * @param {Camera} camera - The new camera.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.setCamera(new Camera(new Point(320, 180)));
+   */
+  public setCamera(camera: Camera): GameCanvas {
+    this._camera = camera;
+    return this;
+  }
+
+  /**
+   * @get viewports - Returns the viewports the scenes are drawn in, in drawing order.
+   * @returns {Viewport[]} The viewports.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.viewports;
+   */
+  public get viewports(): Viewport[] {
+    return this._viewports;
+  }
+
+  /**
+   * @method addViewport - Adds a viewport, the scenes are then drawn in each viewport instead of through the camera.
+   * @param {Viewport} viewport - The viewport to add, drawn over the previous ones.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   * @example
+   * const gameCanvas = ServiceContainer.GameCanvas;
+   * gameCanvas.addViewport(new Viewport(new Rectangle(new Point(0, 0), new Point(400, 600))));
+   * gameCanvas.addViewport(new Viewport(new Rectangle(new Point(400, 0), new Point(400, 600))));
+   */
+  public addViewport(viewport: Viewport): GameCanvas {
+    this._viewports.push(viewport);
+    return this;
+  }
+
+  /**
+   * @method removeViewport - Removes a viewport.
+   * @param {Viewport} viewport - The viewport to remove.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.removeViewport(minimap);
+   */
+  public removeViewport(viewport: Viewport): GameCanvas {
+    const index = this._viewports.indexOf(viewport);
+    if (index > -1) this._viewports.splice(index, 1);
+    return this;
+  }
+
+  /**
+   * @method getViewportAt - Returns the topmost visible viewport containing a point of the canvas.
+   * @param {Point} point - The point, in canvas units.
+   * @returns {Viewport | undefined} The viewport, if any.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.getViewportAt(ServiceContainer.Mouse.position);
+   */
+  public getViewportAt(point: Point): Viewport | undefined {
+    for (let i = this._viewports.length - 1; i >= 0; i--)
+      if (this._viewports[i].containsPoint(point)) return this._viewports[i];
+    return undefined;
+  }
+
+  /**
+   * @method screenToWorld - Converts a point of the canvas to a point of the world, through the viewport containing it if any.
+   * @param {Point} point - The point, in canvas units.
+   * @returns {Point} The point of the world.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.screenToWorld(new Point(10, 10));
+   */
+  public screenToWorld(point: Point): Point {
+    if (this._viewports.length === 0) return this._camera.screenToWorld(point);
+    const viewport = this.getViewportAt(point);
+    return viewport ? viewport.screenToWorld(point) : point.clone();
+  }
+
+  /**
+   * @method updateCameras - Updates the camera and the cameras of the viewports. Called by the GameLoop.
+   * @param {number} deltaTime - The time since the last frame.
+   * @returns {void}
+   * @public
+   */
+  public updateCameras(deltaTime: number): void {
+    this._camera.update(deltaTime);
+    this._viewports.forEach((viewport) => viewport.camera.update(deltaTime));
+  }
+
+  /**
+   * @get layers - The render layers, in drawing order.
+   * @returns {RenderLayer[]} The layers sorted by z-index.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.layers;
+   */
+  public get layers(): RenderLayer[] {
+    return this._layers
+      .map((layer, index) => ({ layer, index }))
+      .sort((a, b) => a.layer.zIndex - b.layer.zIndex || a.index - b.index)
+      .map(({ layer }) => layer);
+  }
+
+  /**
+   * @method getLayer - Returns a render layer by name.
+   * @param {string} name - The name of the layer, 'background', 'world', 'foreground', 'ui' and 'debug' exist by default.
+   * @returns {RenderLayer} The layer.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.getLayer('world').add(player);
+   */
+  public getLayer(name: string): RenderLayer {
+    const layer = this._layers.find((layer) => layer.name === name);
+    if (!layer) throw new Error(`Layer ${name} does not exist`);
+    return layer;
+  }
+
+  /**
+   * @method hasLayer - Whether a render layer exists.
+   * @param {string} name - The name of the layer.
+   * @returns {boolean} True if the layer exists.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.hasLayer('clouds');
+   */
+  public hasLayer(name: string): boolean {
+    return this._layers.some((layer) => layer.name === name);
+  }
+
+  /**
+   * @method addLayer - Adds a render layer.
+   * @param {RenderLayer} layer - The layer, its name must be unique.
+   * @returns {RenderLayer} The layer.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.addLayer(
+   *   new RenderLayer('clouds', { zIndex: -50, parallax: new Point(0.5, 0.5) })
+   * );
+   */
+  public addLayer(layer: RenderLayer): RenderLayer {
+    if (this.hasLayer(layer.name))
+      throw new Error(`Layer ${layer.name} already exists`);
+    this._layers.push(layer);
+    return layer;
+  }
+
+  /**
+   * @method removeLayer - Removes a render layer.
+   * @param {string} name - The name of the layer.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.removeLayer('clouds');
+   */
+  public removeLayer(name: string): GameCanvas {
+    this._layers = this._layers.filter((layer) => layer.name !== name);
+    return this;
+  }
+
+  /**
+   * @method drawWorld - Draws the world through the camera, or once in each viewport, between the world layers. Called by the GameLoop.
+   * @param {(context: CanvasRenderingContext2D) => void} draw - The function drawing the world.
+   * @returns {void}
+   * @public
+   */
+  public drawWorld(draw: (context: CanvasRenderingContext2D) => void): void {
+    const context = this.context;
+    const layers = this.layers.filter(
+      (layer) => layer.space === LayerSpace.World
+    );
+    const drawLayers = (ctx: CanvasRenderingContext2D, camera: Camera) => {
+      layers
+        .filter((layer) => layer.zIndex < 0)
+        .forEach((layer) => layer.draw(ctx, camera, this._spriteBatch));
+      draw(ctx);
+      layers
+        .filter((layer) => layer.zIndex >= 0)
+        .forEach((layer) => layer.draw(ctx, camera, this._spriteBatch));
+    };
+    if (this._viewports.length > 0) {
+      this._viewports.forEach((viewport) =>
+        viewport.draw(context, (ctx) => drawLayers(ctx, viewport.camera))
+      );
+      return;
+    }
+    context.save();
+    try {
+      this._camera.applyTransform(context);
+      drawLayers(context, this._camera);
+    } finally {
+      context.restore();
+    }
+  }
+
+  /**
+   * @method drawScreenLayers - Draws the screen layers over the view. Called by the GameLoop.
+   * @param {CanvasRenderingContext2D} context - The context to draw in.
+   * @returns {void}
+   * @public
+   */
+  public drawScreenLayers(context: CanvasRenderingContext2D): void {
+    this.layers
+      .filter((layer) => layer.space === LayerSpace.Screen)
+      .forEach((layer) => layer.draw(context, undefined, this._spriteBatch));
+  }
+
   /**
    * @get baseSize - Returns the base size of the canvas.
    * @returns {Point} The base size of the canvas.
@@ -157,6 +798,123 @@ export class GameCanvas {
     return this._scale;
   }
 
+  /**
+   * @get scaleVector - Returns the scale of the canvas on each axis, different in Stretch mode.
+   * @returns {Point} The scale of the canvas on each axis.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.scaleVector;
+   */
+  public get scaleVector(): Point {
+    return this._scaleVector;
+  }
+
+  /**
+   * @get offset - Returns the offset of the scaled base size in the canvas element, in CSS pixels.
+   * @returns {Point} The offset, negative when cropped.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.offset;
+   */
+  public get offset(): Point {
+    return this._offset;
+  }
+
+  /**
+   * @get scaleMode - Returns how the canvas is scaled to its parent element or the window.
+   * @returns {ScaleMode} The scale mode.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.scaleMode;
+   */
+  public get scaleMode(): ScaleMode {
+    return this._scaleMode;
+  }
+
+  /**
+   * @method setScaleMode - Sets how the canvas is scaled to its parent element or the window.
+   * @param {ScaleMode} scaleMode - The scale mode.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.setScaleMode(ScaleMode.Integer);
+   */
+  public setScaleMode(scaleMode: ScaleMode): GameCanvas {
+    this._scaleMode = scaleMode;
+    if (this._isInitialized) this._resize();
+    return this;
+  }
+
+  /**
+   * @method setLetterboxColor - Sets the color of the borders around the scaled canvas.
+   * @param {string} color - The color of the borders.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.setLetterboxColor('#202020');
+   */
+  public setLetterboxColor(color: string): GameCanvas {
+    this._letterboxColor = color;
+    return this;
+  }
+
+  /**
+   * @method addResizeListener - Adds a function called when the size or the scale of the canvas changes.
+   * @param {ResizeFunction} listener - The function to call.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.addResizeListener((size) => hud.layout(size));
+   */
+  public addResizeListener(listener: ResizeFunction): GameCanvas {
+    this._resizeListeners.push(listener);
+    return this;
+  }
+
+  /**
+   * @method removeResizeListener - Removes a resize listener.
+   * @param {ResizeFunction} listener - The function to remove.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.removeResizeListener(layout);
+   */
+  public removeResizeListener(listener: ResizeFunction): GameCanvas {
+    const index = this._resizeListeners.indexOf(listener);
+    if (index > -1) this._resizeListeners.splice(index, 1);
+    return this;
+  }
+
+  /**
+   * @method clientToCanvas - Converts a point of the page, like a pointer position, to canvas units.
+   * @param {Point} point - The point, in client pixels.
+   * @returns {Point} The point, in canvas units.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.clientToCanvas(new Point(event.clientX, event.clientY));
+   */
+  public clientToCanvas(point: Point): Point {
+    return point
+      .subtract(this.position)
+      .subtract(this._offset)
+      .divide(this._scaleVector);
+  }
+
+  /**
+   * @method canvasToClient - Converts a point in canvas units to a point of the page.
+   * @param {Point} point - The point, in canvas units.
+   * @returns {Point} The point, in client pixels.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.canvasToClient(new Point(400, 300));
+   */
+  public canvasToClient(point: Point): Point {
+    return point
+      .multiply(this._scaleVector)
+      .add(this._offset)
+      .add(this.position);
+  }
+
   /**
    * @get position - Returns the position of the canvas.
    * @returns {Point} The position of the canvas.
@@ -177,7 +935,7 @@ export class GameCanvas {
    * ServiceContainer.GameCanvas.fullscreen();
    */
   public fullscreen(): GameCanvas {
-    if (!GameCanvas._isInitialized)
+    if (!this._isInitialized)
       throw new Error('GameCanvas not initialized. Call init().');
     this._canvas.requestFullscreen();
     return this;
@@ -191,7 +949,7 @@ export class GameCanvas {
    * ServiceContainer.GameCanvas.exitFullscreen();
    */
   public exitFullscreen(): GameCanvas {
-    if (!GameCanvas._isInitialized)
+    if (!this._isInitialized)
       throw new Error('GameCanvas not initialized. Call init().');
     document.exitFullscreen();
     return this;
@@ -205,7 +963,7 @@ export class GameCanvas {
    * ServiceContainer.GameCanvas.toggleFullscreen();
    */
   public toggleFullscreen(): GameCanvas {
-    if (!GameCanvas._isInitialized)
+    if (!this._isInitialized)
       throw new Error('GameCanvas not initialized. Call init().');
     if (document.fullscreenElement) {
       this.exitFullscreen();
@@ -215,6 +973,150 @@ export class GameCanvas {
     return this;
   }
 
+  /**
+   * @method screenshot - Captures the canvas as it was last presented.
+   * @param {ScreenshotOptions} [options] - The region, resolution and format of the capture.
+   * @returns {Promise<Blob>} The image, a PNG by default.
+   * @public
+   * @example
+   * const blob = await ServiceContainer.GameCanvas.screenshot({ baseResolution: true });
+   */
+  public screenshot(options: ScreenshotOptions = {}): Promise<Blob> {
+    const capture = this._capture(options);
+    return new Promise<Blob>((resolve, reject) =>
+      capture.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error('Screenshot failed.')),
+        options.type ?? 'image/png',
+        options.quality
+      )
+    );
+  }
+
+  /**
+   * @method screenshotToDataURL - Captures the canvas as it was last presented, as a data URL.
+   * @param {ScreenshotOptions} [options] - The region, resolution and format of the capture.
+   * @returns {string} The data URL of the image, a PNG by default.
+   * @public
+   * @example
+   * const minimap = ServiceContainer.GameCanvas.screenshotToDataURL({
+   *   area: new Rectangle(new Point(600, 0), new Point(200, 150)),
+   * });
+   */
+  public screenshotToDataURL(options: ScreenshotOptions = {}): string {
+    return this._capture(options).toDataURL(
+      options.type ?? 'image/png',
+      options.quality
+    );
+  }
+
+  /**
+   * @get isRecording - Whether the canvas is being recorded.
+   * @returns {boolean} True between startRecording and stopRecording.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.isRecording;
+   */
+  public get isRecording(): boolean {
+    return this._recorder !== undefined;
+  }
+
+  /**
+   * @method startRecording - Starts recording the canvas to a video.
+   * @param {RecordingOptions} [options] - The frame rate and format of the video.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.startRecording({ frameRate: 30 });
+   */
+  public startRecording(options: RecordingOptions = {}): GameCanvas {
+    if (!this._isInitialized)
+      throw new Error('GameCanvas not initialized. Call init().');
+    if (this._recorder) throw new Error('Recording already started.');
+    if (typeof MediaRecorder === 'undefined' || !this._canvas.captureStream)
+      throw new Error('Recording is not supported by this browser.');
+    const mimeType = options.mimeType ?? 'video/webm';
+    if (!MediaRecorder.isTypeSupported(mimeType))
+      throw new Error(`Recording to ${mimeType} is not supported.`);
+
+    const stream = this._canvas.captureStream(options.frameRate ?? 60);
+    this._recordedChunks = [];
+    this._recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: options.videoBitsPerSecond,
+    });
+    this._recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this._recordedChunks.push(event.data);
+    };
+    this._recorder.start();
+    return this;
+  }
+
+  /**
+   * @method stopRecording - Stops recording the canvas.
+   * @returns {Promise<Blob>} The video, a WebM by default.
+   * @public
+   * @example
+   * const video = await ServiceContainer.GameCanvas.stopRecording();
+   */
+  public stopRecording(): Promise<Blob> {
+    const recorder = this._recorder;
+    if (!recorder) return Promise.reject(new Error('Recording not started.'));
+    this._recorder = undefined;
+    return new Promise<Blob>((resolve) => {
+      recorder.onstop = () => {
+        recorder.stream.getTracks().forEach((track) => track.stop());
+        resolve(new Blob(this._recordedChunks, { type: recorder.mimeType }));
+        this._recordedChunks = [];
+      };
+      recorder.stop();
+    });
+  }
+
+  /**
+   * @method toggleRecording - Starts recording, or stops it and returns the video, for a hotkey.
+   * @param {RecordingOptions} [options] - The frame rate and format of the video when starting.
+   * @returns {Promise<Blob | undefined>} The video when stopping, undefined when starting.
+   * @public
+   * @example
+   * if (ServiceContainer.Keyboard.isJustDown('F9'))
+   *   ServiceContainer.GameCanvas.toggleRecording().then((video) => {
+   *     if (video) ServiceContainer.GameCanvas.downloadCapture(video, 'bug.webm');
+   *   });
+   */
+  public toggleRecording(
+    options?: RecordingOptions
+  ): Promise<Blob | undefined> {
+    if (this._recorder) return this.stopRecording();
+    try {
+      this.startRecording(options);
+      return Promise.resolve(undefined);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  /**
+   * @method downloadCapture - Saves a screenshot or a recording as a file.
+   * @param {Blob} capture - The screenshot or the recording.
+   * @param {string} fileName - The name of the file.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.screenshot().then((image) =>
+   *   ServiceContainer.GameCanvas.downloadCapture(image, 'screenshot.png')
+   * );
+   */
+  public downloadCapture(capture: Blob, fileName: string): GameCanvas {
+    const url = URL.createObjectURL(capture);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+    return this;
+  }
+
   /**
    * @method clearScreen - Clears the canvas.
    * @returns {GameCanvas} The instance of the GameCanvas class.
@@ -223,14 +1125,54 @@ export class GameCanvas {
    * ServiceContainer.GameCanvas.clearScreen();
    */
   public clearScreen(): GameCanvas {
-    if (!GameCanvas._isInitialized)
+    if (!this._isInitialized)
       throw new Error('GameCanvas not initialized. Call init().');
+    this._context.save();
+    this._context.setTransform(1, 0, 0, 1, 0, 0);
     this._context.clearRect(0, 0, this._canvas.width, this._canvas.height);
+    this._context.restore();
+    if (this._hasRenderTarget) {
+      const context = this._renderContext;
+      context.save();
+      context.setTransform(1, 0, 0, 1, 0, 0);
+      context.clearRect(
+        0,
+        0,
+        this._renderTarget.width,
+        this._renderTarget.height
+      );
+      context.restore();
+    }
     return this;
   }
 
   /**
-   * @method _resize - Resizes the canvas.
+   * @method drawLetterbox - Fills the borders around the scaled base size. Called by the GameLoop.
+   * @returns {GameCanvas} The instance of the GameCanvas class.
+   * @public
+   */
+  public drawLetterbox(): GameCanvas {
+    const display = this._displaySize;
+    const { x, y } = this._offset;
+    const size = this._baseSize.multiply(this._scaleVector);
+    if (x <= 0 && y <= 0 && x + size.x >= display.x && y + size.y >= display.y)
+      return this;
+    const hdpiRatio = Math.ceil(window.devicePixelRatio);
+    const context = this._context;
+    context.save();
+    context.setTransform(hdpiRatio, 0, 0, hdpiRatio, 0, 0);
+    context.fillStyle = this._letterboxColor;
+    context.fillRect(0, 0, display.x, y);
+    context.fillRect(0, y + size.y, display.x, display.y - y - size.y);
+    context.fillRect(0, y, x, size.y);
+    context.fillRect(x + size.x, y, display.x - x - size.x, size.y);
+    context.restore();
+    return this;
+  }
+
+  /**
+   * @method _resize - Resizes the canvas to its parent element, the window for the body, according to the scale mode.
+   * @param {boolean} [init=false] - Whether the canvas is being initialized.
    * @returns {GameCanvas} The instance of the GameCanvas class.
    * @private
    * @example
@@ -238,55 +1180,212 @@ export class GameCanvas {
    * gameCanvas._resize();
    */
   private _resize(init: boolean = false): GameCanvas {
-    if (!GameCanvas._isInitialized)
+    if (!this._isInitialized)
       throw new Error('GameCanvas not initialized. Call init().');
+    const previousSize = this._baseSize;
+    const previousScale = this._scaleVector;
     const hdpiRatio = Math.ceil(window.devicePixelRatio);
-    if (init) {
-      this._scale = 1;
-      this._canvas.width = this._baseSize.x * hdpiRatio;
-      this._canvas.height = this._baseSize.y * hdpiRatio;
-      this._canvas.style.width = `${this._baseSize.x}px`;
-      this._canvas.style.height = `${this._baseSize.y}px`;
-      this._context.scale(this._scale * hdpiRatio, this._scale * hdpiRatio);
-      this._context.imageSmoothingEnabled = this._imageSmoothingEnabled;
-      this._context.imageSmoothingQuality = this._imageSmoothingQuality;
-      this._context.fillStyle = this._backgroundColor;
+
+    if (this._autoSize) {
+      this._displaySize = this._getAvailableSize();
+      this._applyScaleMode(this._displaySize);
+    } else {
+      this._displaySize = this._designSize;
+      this._baseSize = this._designSize;
+      this._scaleVector = new Point(1, 1);
     }
-    if (!this._autoSize)
-      return this;
-    const windowSize = new Point(window.innerWidth, window.innerHeight);
-    const ratio = this._baseSize.x / this._baseSize.y;
-    this._scale = this._getScale(windowSize, ratio);
-    const size = this._baseSize.multiply(new Point(this._scale, this._scale));
-    this._canvas.width = size.x * hdpiRatio;
-    this._canvas.height = size.y * hdpiRatio;
-    this._canvas.style.width = `${size.x}px`;
-    this._canvas.style.height = `${size.y}px`;
-    this._context.scale(this._scale * hdpiRatio, this._scale * hdpiRatio);
+    this._scale = this._scaleVector.x;
+    const scaledSize = this._baseSize.multiply(this._scaleVector);
+    this._offset = this._center
+      ? new Point(
+          (this._displaySize.x - scaledSize.x) / 2,
+          (this._displaySize.y - scaledSize.y) / 2
+        )
+      : new Point(0, 0);
+
+    this._canvas.width = this._displaySize.x * hdpiRatio;
+    this._canvas.height = this._displaySize.y * hdpiRatio;
+    this._canvas.style.width = `${this._displaySize.x}px`;
+    this._canvas.style.height = `${this._displaySize.y}px`;
+    this._context.setTransform(
+      this._scaleVector.x * hdpiRatio,
+      0,
+      0,
+      this._scaleVector.y * hdpiRatio,
+      this._offset.x * hdpiRatio,
+      this._offset.y * hdpiRatio
+    );
     this._context.imageSmoothingEnabled = this._imageSmoothingEnabled;
     this._context.imageSmoothingQuality = this._imageSmoothingQuality;
     this._context.fillStyle = this._backgroundColor;
+    if (this._pixelPerfect || this._effects.length > 0)
+      this._resizeRenderTarget();
+
+    const isSizeChanged = !previousSize.equals(this._baseSize);
+    if (isSizeChanged) this._camera.setViewportSize(this._baseSize);
+    if (init || isSizeChanged || !previousScale.equals(this._scaleVector))
+      this._resizeListeners
+        .slice()
+        .forEach((listener) => listener(this._baseSize, this._scaleVector));
     return this;
   }
 
   /**
-   * @method _getScale - Returns the scale of the canvas.
-   * @param {Point} windowSize - The size of the window.
-   * @param {number} ratio - The ratio of the canvas.
-   * @returns {number} The scale of the canvas.
+   * @method _capture - Copies a region of the visible canvas to a new canvas.
+   * @param {ScreenshotOptions} options - The region and resolution of the capture.
+   * @returns {HTMLCanvasElement} The capture.
    * @private
-   * @example
-   * const gameCanvas = GameCanvas.instance;
-   * const windowSize = new Point(window.innerWidth, window.innerHeight);
-   * const ratio = gameCanvas._baseSize.x / gameCanvas._baseSize.y;
-   * const scale = gameCanvas._getScale(windowSize, ratio);
    */
-  private _getScale(windowSize: Point, ratio: number): number {
-    if (!GameCanvas._isInitialized)
+  private _capture(options: ScreenshotOptions): HTMLCanvasElement {
+    if (!this._isInitialized)
       throw new Error('GameCanvas not initialized. Call init().');
-    if (windowSize.x / windowSize.y > ratio) {
-      return windowSize.y / this._baseSize.y;
+    const area =
+      options.area ?? new Rectangle(new Point(0, 0), this._baseSize.clone());
+    const hdpiRatio = Math.ceil(window.devicePixelRatio);
+    const hdpiScale = new Point(hdpiRatio, hdpiRatio);
+    const source = area.position
+      .multiply(this._scaleVector)
+      .add(this._offset)
+      .multiply(hdpiScale);
+    const sourceSize = area.size
+      .multiply(this._scaleVector)
+      .multiply(hdpiScale);
+    const size = options.baseResolution ? area.size : sourceSize;
+
+    const capture = document.createElement('canvas');
+    capture.width = Math.max(Math.round(size.x), 1);
+    capture.height = Math.max(Math.round(size.y), 1);
+    const context = capture.getContext('2d');
+    if (!context) throw new Error('Screenshot failed.');
+    context.imageSmoothingEnabled = this._imageSmoothingEnabled;
+    context.drawImage(
+      this._canvas,
+      source.x,
+      source.y,
+      sourceSize.x,
+      sourceSize.y,
+      0,
+      0,
+      capture.width,
+      capture.height
+    );
+    return capture;
+  }
+
+  /**
+   * @method _createWebGLSpriteBatch - Creates a WebGL2 sprite batch, or a Canvas2D one when WebGL2 is unavailable.
+   * @returns {SpriteBatch} The sprite batch.
+   * @private
+   */
+  private _createWebGLSpriteBatch(): SpriteBatch {
+    try {
+      return new WebGLSpriteBatch();
+    } catch (error) {
+      console.warn('WebGL2 sprite batch unavailable, using Canvas2D.', error);
+      return new CanvasSpriteBatch();
     }
-    return windowSize.x / this._baseSize.x;
   }
+
+  /**
+   * @get _hasRenderTarget - Whether the game is drawn in the offscreen canvas this frame.
+   * @returns {boolean} True when pixel perfect or when an effect is active.
+   * @private
+   */
+  private get _hasRenderTarget(): boolean {
+    return (
+      this._pixelPerfect || this._effects.some((effect) => effect.isActive)
+    );
+  }
+
+  /**
+   * @method _resizeRenderTarget - Resizes the offscreen canvas to the base size when pixel perfect, to the visible canvas otherwise.
+   * @returns {void}
+   * @private
+   */
+  private _resizeRenderTarget(): void {
+    if (this._pixelPerfect) {
+      this._renderTarget.width = Math.round(this._baseSize.x);
+      this._renderTarget.height = Math.round(this._baseSize.y);
+    } else {
+      this._renderTarget.width = this._canvas.width;
+      this._renderTarget.height = this._canvas.height;
+      this._renderContext.setTransform(this._context.getTransform());
+    }
+    this._renderContext.imageSmoothingEnabled = this._imageSmoothingEnabled;
+    this._renderContext.imageSmoothingQuality = this._imageSmoothingQuality;
+    this._renderContext.fillStyle = this._backgroundColor;
+  }
+
+  /**
+   * @method _getAvailableSize - Returns the size the canvas is scaled to: its parent element, or the window for the body.
+   * A parent without a size, e.g. not laid out yet, falls back to the window.
+   * @returns {Point} The available size.
+   * @private
+   */
+  private _getAvailableSize(): Point {
+    const parent = this._canvas.parentElement;
+    if (!parent || parent === document.body)
+      return new Point(window.innerWidth, window.innerHeight);
+    return new Point(
+      parent.clientWidth || window.innerWidth,
+      parent.clientHeight || window.innerHeight
+    );
+  }
+
+  /**
+   * @method _applyScaleMode - Computes the base size and the scale of the canvas for an available size.
+   * @param {Point} availableSize - The size of the parent element or the window.
+   * @returns {void}
+   * @private
+   */
+  private _applyScaleMode(availableSize: Point): void {
+    const design = this._designSize;
+    const ratio = new Point(
+      availableSize.x / design.x,
+      availableSize.y / design.y
+    );
+    const fit = Math.min(ratio.x, ratio.y);
+    const fill = Math.max(ratio.x, ratio.y);
+    this._baseSize = design;
+    switch (this._scaleMode) {
+      case ScaleMode.Integer: {
+        const scale = Math.max(1, Math.floor(fit));
+        this._scaleVector = new Point(scale, scale);
+        break;
+      }
+      case ScaleMode.Stretch:
+        this._scaleVector = ratio;
+        break;
+      case ScaleMode.FillCrop:
+        this._scaleVector = new Point(fill, fill);
+        break;
+      case ScaleMode.Expand:
+        this._scaleVector = new Point(fit, fit);
+        this._baseSize = new Point(
+          Math.round(availableSize.x / fit),
+          Math.round(availableSize.y / fit)
+        );
+        break;
+      default:
+        this._scaleVector = new Point(fit, fit);
+    }
+  }
+
+  /**
+   * @method _focus - Gives the focus to the canvas.
+   * @returns {void}
+   * @private
+   */
+  private _focus = (): void => {
+    this._canvas.focus();
+  };
+
+  /**
+   * @method _onResize - Resizes the canvas when the window or its parent element is resized.
+   * @returns {void}
+   * @private
+   */
+  private _onResize = (): void => {
+    this._resize();
+  };
 }
@@ -2,32 +2,77 @@ import { SceneManager } from './SceneManager';
 import { GameCanvas } from './GameCanvas';
 import { UpdateFunction } from './types/UpdateFunction';
 import { DrawFunction } from './types/DrawFunction';
+import { UpdateSubscriptionOptions } from './interfaces/UpdateSubscriptionOptions';
+import { RenderSubscriptionOptions } from './interfaces/RenderSubscriptionOptions';
+import { LoopSubscription } from './interfaces/LoopSubscription';
+import { LoopPhase } from './enums/LoopPhase';
+import { FrameScheduler } from './interfaces/FrameScheduler';
+import { AnimationFrameScheduler } from './schedulers/AnimationFrameScheduler';
+import { ErrorFunction } from './types/ErrorFunction';
+import { CrashScreen } from './debug/CrashScreen';
 
 /**
- * @class GameLoop - Singleton class that handles the game loop.
+ * @class GameLoop - Class that handles the game loop, with a default instance.
  * @public
  */
 export class GameLoop {
-  private static _instance: GameLoop;
+  private static _instance?: GameLoop;
   private _deltaTime: number;
+  private _unscaledDeltaTime: number;
   private _lastTime: number;
-  private _updateSubscribers: UpdateFunction[];
-  private _preRenderSubscribers: DrawFunction[];
-  private _postRenderSubscribers: DrawFunction[];
+  private _updateSubscribers: LoopSubscription<UpdateFunction>[];
+  private _renderSubscribers: LoopSubscription<DrawFunction>[];
   private _freezeLimit: number;
+  private _fixedUpdateSubscribers: UpdateFunction[];
+  private _fixedTimeStep: number;
+  private _maxFixedSteps: number;
+  private _accumulator: number;
+  private _alpha: number;
+  private _timeScale: number;
+  private _isPaused: boolean;
+  private _stepDeltaTime: number;
+  private _scheduler: FrameScheduler;
+  private _isRunning: boolean;
+  private _isFrameRequested: boolean;
+  private _errorHandler?: ErrorFunction;
+  private _crashScreen?: CrashScreen;
+  private _loggedErrors: Set<string>;
+  private _frameStartHandler?: () => void;
+  private _sceneManager: SceneManager;
+  private _gameCanvas: GameCanvas;
 
   /**
    * @constructor
-   * @private
+   * @param {SceneManager} [sceneManager] - The scene manager updated and drawn by the loop (the default instance by default).
+   * @param {GameCanvas} [gameCanvas] - The canvas drawn on by the loop (the default instance by default).
+   * @public
+   * @example
+   * const gameLoop = new GameLoop(sceneManager, gameCanvas);
    */
-  private constructor() {
+  public constructor(
+    sceneManager: SceneManager = SceneManager.instance,
+    gameCanvas: GameCanvas = GameCanvas.instance
+  ) {
+    this._sceneManager = sceneManager;
+    this._gameCanvas = gameCanvas;
     this._deltaTime = 0;
+    this._unscaledDeltaTime = 0;
     this._lastTime = 0;
     this._updateSubscribers = [];
-    this._preRenderSubscribers = [];
-    this._postRenderSubscribers = [];
+    this._renderSubscribers = [];
     this._freezeLimit = -1;
-    requestAnimationFrame(this._loop.bind(this));
+    this._fixedUpdateSubscribers = [];
+    this._fixedTimeStep = -1;
+    this._maxFixedSteps = 5;
+    this._accumulator = 0;
+    this._alpha = 1;
+    this._timeScale = 1;
+    this._isPaused = false;
+    this._stepDeltaTime = -1;
+    this._scheduler = new AnimationFrameScheduler();
+    this._isRunning = false;
+    this._isFrameRequested = false;
+    this._loggedErrors = new Set();
   }
 
   /**
@@ -45,6 +90,40 @@ export class GameLoop {
     return GameLoop._instance;
   }
 
+  /**
+   * @set instance - Replaces the instance of the GameLoop class, e.g. with a fake in tests.
+   * @param {GameLoop | undefined} instance - The new instance, none to create one on next access.
+   * @public
+   * @example
+   * GameLoop.instance = fakeGameLoop;
+   */
+  public static set instance(instance: GameLoop | undefined) {
+    GameLoop._instance = instance;
+  }
+
+  /**
+   * @method reset - Destroys the instance of the GameLoop class, a new one is created on next access.
+   * @returns {void}
+   * @public
+   * @example
+   * GameLoop.reset();
+   */
+  public static reset(): void {
+    GameLoop._instance?.destroy();
+    GameLoop._instance = undefined;
+  }
+
+  /**
+   * @method destroy - Stops the loop.
+   * @returns {void}
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.destroy();
+   */
+  public destroy(): void {
+    this.stop();
+  }
+
   /**
    * @method get FPS - Returns the current FPS.
    * @returns {number} The current FPS.
@@ -53,7 +132,250 @@ export class GameLoop {
    * ServiceContainer.GameLoop.FPS;
    */
   public get FPS(): number {
-    return Math.round(1 / this._deltaTime);
+    return Math.round(1 / this._unscaledDeltaTime);
+  }
+
+  /**
+   * @get isRunning - Whether the game loop is running.
+   * @returns {boolean} True if the game loop has been started and not stopped.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.isRunning;
+   */
+  public get isRunning(): boolean {
+    return this._isRunning;
+  }
+
+  /**
+   * @get scheduler - Returns the frame scheduler.
+   * @returns {FrameScheduler} The frame scheduler.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.scheduler;
+   */
+  public get scheduler(): FrameScheduler {
+    return this._scheduler;
+  }
+
+  /**
+   * @method start - Starts the game loop.
+   * @param {FrameScheduler} [scheduler] - The frame scheduler to use (requestAnimationFrame by default).
+   * @returns {GameLoop} The instance of the GameLoop class.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.start();
+   * @example
+   * const scheduler = new ManualScheduler();
+   * ServiceContainer.GameLoop.start(scheduler);
+   * scheduler.tick(1 / 60, 10);
+   */
+  public start(scheduler?: FrameScheduler): GameLoop {
+    if (scheduler) this.setScheduler(scheduler);
+    if (this._isRunning) return this;
+    this._isRunning = true;
+    this._lastTime = this._scheduler.now();
+    this._requestFrame();
+    return this;
+  }
+
+  /**
+   * @method stop - Stops the game loop.
+   * @returns {GameLoop} The instance of the GameLoop class.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.stop();
+   */
+  public stop(): GameLoop {
+    this._isRunning = false;
+    this._isFrameRequested = false;
+    this._scheduler.cancel();
+    return this;
+  }
+
+  /**
+   * @method setScheduler - Sets the frame scheduler, the loop keeps running if it was.
+   * @param {FrameScheduler} scheduler - The frame scheduler to use.
+   * @returns {GameLoop} The instance of the GameLoop class.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.setScheduler(new TimeoutScheduler(30));
+   */
+  public setScheduler(scheduler: FrameScheduler): GameLoop {
+    if (scheduler === this._scheduler) return this;
+    const wasRunning = this._isRunning;
+    this.stop();
+    this._scheduler = scheduler;
+    if (wasRunning) this.start();
+    return this;
+  }
+
+  /**
+   * @get deltaTime - Returns the scaled time since the last frame.
+   * @returns {number} The scaled time since the last frame in second, 0 while paused.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.deltaTime;
+   */
+  public get deltaTime(): number {
+    return this._deltaTime;
+  }
+
+  /**
+   * @get unscaledDeltaTime - Returns the real time since the last frame.
+   * @returns {number} The real time since the last frame in second.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.unscaledDeltaTime;
+   */
+  public get unscaledDeltaTime(): number {
+    return this._unscaledDeltaTime;
+  }
+
+  /**
+   * @get timeScale - Returns the time scale.
+   * @returns {number} The time scale.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.timeScale;
+   */
+  public get timeScale(): number {
+    return this._timeScale;
+  }
+
+  /**
+   * @get isPaused - Whether the game loop is paused.
+   * @returns {boolean} True if the game loop is paused.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.isPaused;
+   */
+  public get isPaused(): boolean {
+    return this._isPaused;
+  }
+
+  /**
+   * @method setTimeScale - Sets the time scale applied to the delta time given to the scenes and scaled subscribers.
+   * @param {number} scale - The time scale (1 is normal speed, 0.5 is slow motion, 2 is fast forward).
+   * @returns {GameLoop} The instance of the GameLoop class.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.setTimeScale(0.5);
+   */
+  public setTimeScale(scale: number): GameLoop {
+    if (scale < 0) throw new Error('Time scale cannot be negative.');
+    this._timeScale = scale;
+    return this;
+  }
+
+  /**
+   * @method pause - Pauses the game loop. The scenes and scaled subscribers are no longer updated, but are still drawn.
+   * @returns {GameLoop} The instance of the GameLoop class.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.pause();
+   */
+  public pause(): GameLoop {
+    this._isPaused = true;
+    return this;
+  }
+
+  /**
+   * @method resume - Resumes the game loop.
+   * @returns {GameLoop} The instance of the GameLoop class.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.resume();
+   */
+  public resume(): GameLoop {
+    this._isPaused = false;
+    this._stepDeltaTime = -1;
+    return this;
+  }
+
+  /**
+   * @method step - Advances the paused game loop by a single frame on the next tick.
+   * @param {number} [deltaTime] - The delta time of the frame in second (the fixed time step if enabled, 1/60 otherwise).
+   * @returns {GameLoop} The instance of the GameLoop class.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.pause().step();
+   */
+  public step(deltaTime?: number): GameLoop {
+    if (!this._isPaused)
+      throw new Error('GameLoop must be paused to be stepped. Call pause().');
+    this._stepDeltaTime =
+      deltaTime ?? (this.isFixedTimeStep ? this._fixedTimeStep : 1 / 60);
+    return this;
+  }
+
+  /**
+   * @get isFixedTimeStep - Whether the fixed time step mode is enabled.
+   * @returns {boolean} True if the fixed time step mode is enabled.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.isFixedTimeStep;
+   */
+  public get isFixedTimeStep(): boolean {
+    return this._fixedTimeStep > 0;
+  }
+
+  /**
+   * @get fixedTimeStep - Returns the fixed time step.
+   * @returns {number} The fixed time step in second, -1 if disabled.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.fixedTimeStep;
+   */
+  public get fixedTimeStep(): number {
+    return this._fixedTimeStep;
+  }
+
+  /**
+   * @get alpha - Returns the interpolation factor between the last two fixed updates.
+   * @returns {number} The interpolation factor, between 0 and 1 (always 1 if the fixed time step is disabled).
+   * @public
+   * @example
+   * const x = previousX + (currentX - previousX) * ServiceContainer.GameLoop.alpha;
+   */
+  public get alpha(): number {
+    return this._alpha;
+  }
+
+  /**
+   * @method enableFixedTimeStep - Enables the fixed time step mode.
+   * @param {number} [step=1/60] - The fixed time step in second.
+   * @param {number} [maxSteps=5] - The maximum number of fixed updates per frame.
+   * @returns {GameLoop} The instance of the GameLoop class.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.enableFixedTimeStep();
+   * @example
+   * ServiceContainer.GameLoop.enableFixedTimeStep(1 / 50, 10);
+   */
+  public enableFixedTimeStep(
+    step: number = 1 / 60,
+    maxSteps: number = 5
+  ): GameLoop {
+    if (step <= 0) throw new Error('Fixed time step must be greater than 0.');
+    if (maxSteps < 1) throw new Error('Max fixed steps must be at least 1.');
+    this._fixedTimeStep = step;
+    this._maxFixedSteps = maxSteps;
+    this._accumulator = 0;
+    return this;
+  }
+
+  /**
+   * @method disableFixedTimeStep - Disables the fixed time step mode.
+   * @returns {GameLoop} The instance of the GameLoop class.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.disableFixedTimeStep();
+   */
+  public disableFixedTimeStep(): GameLoop {
+    this._fixedTimeStep = -1;
+    this._accumulator = 0;
+    this._alpha = 1;
+    return this;
   }
 
   /**
@@ -69,18 +391,109 @@ export class GameLoop {
     return this;
   }
 
+  /**
+   * @get isCrashed - Whether the crash screen is shown.
+   * @returns {boolean} True if the crash screen is shown.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.isCrashed;
+   */
+  public get isCrashed(): boolean {
+    return !!this._crashScreen && this._crashScreen.isVisible;
+  }
+
+  /**
+   * @method onError - Sets the function called when a subscriber or the scene throws (logged to the console once per distinct error by default).
+   * @param {ErrorFunction} [handler] - The function to call, or nothing to log errors again.
+   * @returns {GameLoop} The instance of the GameLoop class.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.onError((error, phase) => reportError(error));
+   */
+  public onError(handler?: ErrorFunction): GameLoop {
+    this._errorHandler = handler;
+    return this;
+  }
+
+  /**
+   * @method reportError - Reports an error thrown outside of a frame, e.g. while a scene is unloaded or loaded, like an error of a subscriber.
+   * @param {unknown} error - The thrown error.
+   * @param {LoopPhase} [phase=LoopPhase.Update] - The phase the error is reported in.
+   * @returns {GameLoop} The instance of the GameLoop class.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.reportError(error);
+   */
+  public reportError(
+    error: unknown,
+    phase: LoopPhase = LoopPhase.Update
+  ): GameLoop {
+    this._handleError(error, phase);
+    return this;
+  }
+
+  /**
+   * @method onFrameStart - Sets the function called at the start of each frame, before any phase.
+   * @param {() => void} [handler] - The function to call, or nothing to remove it.
+   * @returns {GameLoop} The instance of the GameLoop class.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.onFrameStart(() => stats.begin());
+   */
+  public onFrameStart(handler?: () => void): GameLoop {
+    this._frameStartHandler = handler;
+    return this;
+  }
+
+  /**
+   * @method enableCrashScreen - Shows a crash screen instead of the scene after an error, with a button to restart the scene.
+   * @param {boolean} [enabled=true] - Whether the crash screen is enabled.
+   * @returns {GameLoop} The instance of the GameLoop class.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.enableCrashScreen();
+   */
+  public enableCrashScreen(enabled: boolean = true): GameLoop {
+    if (!enabled) this._crashScreen = undefined;
+    else if (!this._crashScreen)
+      this._crashScreen = new CrashScreen(
+        () =>
+          this._guard(LoopPhase.Update, () =>
+            this._sceneManager.restartScene()
+          ),
+        this._gameCanvas
+      );
+    return this;
+  }
+
   /**
    * @method subscribeToUpdate - Subscribes a function to the update loop.
    * @param {UpdateFunction} subscriber - The function to subscribe.
+   * @param {UpdateSubscriptionOptions} [options] - The options of the subscription.
    * @returns {GameLoop} The instance of the GameLoop class.
    * @public
    * @example
    * ServiceContainer.GameLoop.subscribeToUpdate((deltaTime) => {
    *   console.log(`deltaTime: ${deltaTime}`);
    * });
+   * @example
+   * ServiceContainer.GameLoop.subscribeToUpdate(pauseMenu.update, { unscaled: true });
+   * @example
+   * ServiceContainer.GameLoop.subscribeToUpdate(camera.update, { phase: LoopPhase.LateUpdate });
    */
-  public subscribeToUpdate(subscriber: UpdateFunction): GameLoop {
-    this._updateSubscribers.push(subscriber);
+  public subscribeToUpdate(
+    subscriber: UpdateFunction,
+    options?: UpdateSubscriptionOptions
+  ): GameLoop {
+    const phase = options?.phase ?? LoopPhase.Update;
+    if (phase > LoopPhase.LateUpdate)
+      throw new Error('Update subscribers must run in an update phase.');
+    this._insertSubscription(this._updateSubscribers, {
+      subscriber,
+      phase,
+      priority: options?.priority ?? 0,
+      unscaled: options?.unscaled ?? false,
+    });
     return this;
   }
 
@@ -98,16 +511,90 @@ export class GameLoop {
    * gameLoop.unsubscribeFromUpdate(updateFunction);
    */
   public unsubscribeFromUpdate(subscriber: UpdateFunction): GameLoop {
-    const index = this._updateSubscribers.indexOf(subscriber);
+    this._removeSubscription(this._updateSubscribers, subscriber);
+    return this;
+  }
+
+  /**
+   * @method subscribeToFixedUpdate - Subscribes a function to the fixed update loop.
+   * @param {UpdateFunction} subscriber - The function to subscribe, called with the fixed time step.
+   * @returns {GameLoop} The instance of the GameLoop class.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.subscribeToFixedUpdate((deltaTime) => {
+   *   body.position = body.position.add(body.velocity.multiply(new Point(deltaTime, deltaTime)));
+   * });
+   */
+  public subscribeToFixedUpdate(subscriber: UpdateFunction): GameLoop {
+    this._fixedUpdateSubscribers.push(subscriber);
+    return this;
+  }
+
+  /**
+   * @method unsubscribeFromFixedUpdate - Unsubscribes a function from the fixed update loop.
+   * @param {UpdateFunction} subscriber - The function to unsubscribe.
+   * @returns {GameLoop} The instance of the GameLoop class.
+   * @public
+   * @example
+   * const fixedUpdateFunction = (deltaTime) => {
+   *   console.log(`deltaTime: ${deltaTime}`);
+   * };
+   * const gameLoop = ServiceContainer.GameLoop;
+   * gameLoop.subscribeToFixedUpdate(fixedUpdateFunction);
+   * gameLoop.unsubscribeFromFixedUpdate(fixedUpdateFunction);
+   */
+  public unsubscribeFromFixedUpdate(subscriber: UpdateFunction): GameLoop {
+    const index = this._fixedUpdateSubscribers.indexOf(subscriber);
     if (index > -1) {
-      this._updateSubscribers.splice(index, 1);
+      this._fixedUpdateSubscribers.splice(index, 1);
     }
     return this;
   }
 
+  /**
+   * @method subscribeToRender - Subscribes a function to the render loop.
+   * @param {DrawFunction} subscriber - The function to subscribe.
+   * @param {RenderSubscriptionOptions} [options] - The options of the subscription (LoopPhase.Render by default).
+   * @returns {GameLoop} The instance of the GameLoop class.
+   * @public
+   * @example
+   * ServiceContainer.GameLoop.subscribeToRender(hud.draw, { phase: LoopPhase.UI });
+   */
+  public subscribeToRender(
+    subscriber: DrawFunction,
+    options?: RenderSubscriptionOptions
+  ): GameLoop {
+    const phase = options?.phase ?? LoopPhase.Render;
+    if (phase < LoopPhase.PreRender)
+      throw new Error('Render subscribers must run in a render phase.');
+    this._insertSubscription(this._renderSubscribers, {
+      subscriber,
+      phase,
+      priority: options?.priority ?? 0,
+      unscaled: false,
+    });
+    return this;
+  }
+
+  /**
+   * @method unsubscribeFromRender - Unsubscribes a function from the render loop, whatever its phase.
+   * @param {DrawFunction} subscriber - The function to unsubscribe.
+   * @returns {GameLoop} The instance of the GameLoop class.
+   * @public
+   * @example
+   * const gameLoop = ServiceContainer.GameLoop;
+   * gameLoop.subscribeToRender(hud.draw, { phase: LoopPhase.UI });
+   * gameLoop.unsubscribeFromRender(hud.draw);
+   */
+  public unsubscribeFromRender(subscriber: DrawFunction): GameLoop {
+    this._removeSubscription(this._renderSubscribers, subscriber);
+    return this;
+  }
+
   /**
    * @method subscribeToPreRender - Subscribes a function to the pre-render loop.
    * @param {DrawFunction} subscriber - The function to subscribe.
+   * @param {number} [priority=0] - The order within the phase, lowest first.
    * @returns {GameLoop} The instance of the GameLoop class.
    * @public
    * @example
@@ -116,9 +603,14 @@ export class GameLoop {
    *   ctx.fillRect(0, 0, 100, 100);
    * });
    */
-  public subscribeToPreRender(subscriber: DrawFunction): GameLoop {
-    this._preRenderSubscribers.push(subscriber);
-    return this;
+  public subscribeToPreRender(
+    subscriber: DrawFunction,
+    priority: number = 0
+  ): GameLoop {
+    return this.subscribeToRender(subscriber, {
+      phase: LoopPhase.PreRender,
+      priority,
+    });
   }
 
   /**
@@ -136,16 +628,13 @@ export class GameLoop {
    * gameLoop.unsubscribeFromPreRender(preRenderFunction);
    */
   public unsubscribeFromPreRender(subscriber: DrawFunction): GameLoop {
-    const index = this._preRenderSubscribers.indexOf(subscriber);
-    if (index > -1) {
-      this._preRenderSubscribers.splice(index, 1);
-    }
-    return this;
+    return this.unsubscribeFromRender(subscriber);
   }
 
   /**
    * @method subscribeToPostRender - Subscribes a function to the post-render loop.
    * @param {DrawFunction} subscriber - The function to subscribe.
+   * @param {number} [priority=0] - The order within the phase, lowest first.
    * @returns {GameLoop} The instance of the GameLoop class.
    * @public
    * @example
@@ -154,9 +643,14 @@ export class GameLoop {
    *   ctx.fillRect(0, 0, 100, 100);
    * });
    */
-  public subscribeToPostRender(subscriber: DrawFunction): GameLoop {
-    this._postRenderSubscribers.push(subscriber);
-    return this;
+  public subscribeToPostRender(
+    subscriber: DrawFunction,
+    priority: number = 0
+  ): GameLoop {
+    return this.subscribeToRender(subscriber, {
+      phase: LoopPhase.PostRender,
+      priority,
+    });
   }
 
   /**
@@ -174,11 +668,7 @@ export class GameLoop {
    * gameLoop.unsubscribeFromPostRender(postRenderFunction);
    */
   public unsubscribeFromPostRender(subscriber: DrawFunction): GameLoop {
-    const index = this._postRenderSubscribers.indexOf(subscriber);
-    if (index > -1) {
-      this._postRenderSubscribers.splice(index, 1);
-    }
-    return this;
+    return this.unsubscribeFromRender(subscriber);
   }
 
   /**
@@ -188,29 +678,241 @@ export class GameLoop {
    * @private
    */
   private _loop(time: number): void {
-    this._deltaTime = (time - this._lastTime) / 1000;
+    this._isFrameRequested = false;
+    try {
+      this._frameStartHandler?.();
+      this._frame(time);
+    } finally {
+      this._requestFrame();
+    }
+  }
+
+  /**
+   * @method _frame - Runs the phases of one frame, or only the crash screen after an error.
+   * @param {number} time - The current time.
+   * @returns {void}
+   * @private
+   */
+  private _frame(time: number): void {
+    this._unscaledDeltaTime = (time - this._lastTime) / 1000;
     this._lastTime = time;
 
-    if (this._deltaTime > this._freezeLimit && this._freezeLimit > 0) {
-      requestAnimationFrame(this._loop.bind(this));
+    if (this._unscaledDeltaTime > this._freezeLimit && this._freezeLimit > 0)
+      return;
+
+    const sceneManager = this._sceneManager;
+    const gameCanvas = this._gameCanvas;
+    const crashScreen = this._crashScreen;
+    if (crashScreen && crashScreen.isVisible) {
+      this._runUpdatePhase(LoopPhase.Input, false);
+      crashScreen.update(this._unscaledDeltaTime);
+      if (!gameCanvas.isInitialized) return;
+      gameCanvas.clearScreen();
+      crashScreen.draw(gameCanvas.context);
+      gameCanvas.present().drawLetterbox();
       return;
     }
 
-    const { currentScene } = SceneManager.instance;
-    const gameCanvas = GameCanvas.instance;
-    this._updateSubscribers.forEach((subscriber) =>
-      subscriber(this._deltaTime)
-    );
-    currentScene?.update(this._deltaTime);
+    const isRunning = !this._isPaused || this._stepDeltaTime >= 0;
+    if (!this._isPaused)
+      this._deltaTime = this._unscaledDeltaTime * this._timeScale;
+    else this._deltaTime = Math.max(this._stepDeltaTime, 0);
+    this._stepDeltaTime = -1;
+
+    this._runUpdatePhase(LoopPhase.Input, isRunning);
+    this._runUpdatePhase(LoopPhase.EarlyUpdate, isRunning);
+    if (isRunning && this.isFixedTimeStep) this._fixedUpdate();
+    this._runUpdatePhase(LoopPhase.Update, isRunning);
+    if (isRunning)
+      this._guard(LoopPhase.Update, () => sceneManager.update(this._deltaTime));
+    this._runUpdatePhase(LoopPhase.LateUpdate, isRunning);
+    if (isRunning)
+      this._guard(LoopPhase.LateUpdate, () => {
+        gameCanvas.updateCameras(this._deltaTime);
+        gameCanvas.updateEffects(this._deltaTime);
+      });
+
+    // Without a canvas on the page, e.g. driven by a ManualScheduler in Node, only the updates run.
+    if (!gameCanvas.isInitialized) return;
+    const context = gameCanvas.context;
     gameCanvas.clearScreen();
-    this._preRenderSubscribers.forEach((subscriber) =>
-      subscriber(gameCanvas.context)
+    this._runRenderPhase(LoopPhase.PreRender, context);
+    this._runRenderPhase(LoopPhase.Render, context);
+    this._guard(LoopPhase.Render, () =>
+      gameCanvas.drawWorld((ctx) => sceneManager.draw(ctx, this._alpha))
     );
-    currentScene?.draw(gameCanvas.context);
-    this._postRenderSubscribers.forEach((subscriber) =>
-      subscriber(gameCanvas.context)
+    this._runRenderPhase(LoopPhase.PostRender, context);
+    this._guard(LoopPhase.PostRender, () => gameCanvas.applyEffects());
+    const uiContext = gameCanvas.uiContext;
+    if (uiContext !== context) gameCanvas.present();
+    this._runRenderPhase(LoopPhase.UI, uiContext);
+    this._guard(LoopPhase.UI, () => gameCanvas.drawScreenLayers(uiContext));
+    if (uiContext === context) gameCanvas.present();
+    gameCanvas.drawLetterbox();
+  }
+
+  /**
+   * @method _guard - Calls a function, reporting what it throws instead of stopping the loop.
+   * @param {LoopPhase} phase - The phase the function runs in.
+   * @param {() => void} callback - The function to call.
+   * @returns {void}
+   * @private
+   */
+  private _guard(phase: LoopPhase, callback: () => void): void {
+    try {
+      callback();
+    } catch (error) {
+      this._handleError(error, phase);
+    }
+  }
+
+  /**
+   * @method _handleError - Reports an error to the error handler and shows the crash screen if enabled.
+   * Without an error handler, an error thrown again on every frame is only logged the first time.
+   * @param {unknown} error - The thrown error.
+   * @param {LoopPhase} phase - The phase the error was thrown in.
+   * @returns {void}
+   * @private
+   */
+  private _handleError(error: unknown, phase: LoopPhase): void {
+    if (this._errorHandler) {
+      try {
+        this._errorHandler(error, phase);
+      } catch (handlerError) {
+        console.error(handlerError);
+      }
+    } else {
+      const key = `${phase}:${
+        error instanceof Error ? (error.stack ?? error.message) : String(error)
+      }`;
+      if (!this._loggedErrors.has(key)) {
+        this._loggedErrors.add(key);
+        console.error(error);
+      }
+    }
+    this._crashScreen?.show(error, phase);
+  }
+
+  /**
+   * @method _runUpdatePhase - Calls the update subscribers of a phase, but not those unsubscribed meanwhile.
+   * @param {LoopPhase} phase - The phase to run.
+   * @param {boolean} isRunning - Whether the scaled subscribers must be called.
+   * @returns {void}
+   * @private
+   */
+  private _runUpdatePhase(phase: LoopPhase, isRunning: boolean): void {
+    const subscriptions = this._updateSubscribers;
+    subscriptions.slice().forEach((subscription) => {
+      if (subscription.phase !== phase) return;
+      if (subscriptions.indexOf(subscription) === -1) return;
+      if (subscription.unscaled)
+        this._guard(phase, () =>
+          subscription.subscriber(this._unscaledDeltaTime)
+        );
+      else if (isRunning)
+        this._guard(phase, () => subscription.subscriber(this._deltaTime));
+    });
+  }
+
+  /**
+   * @method _runRenderPhase - Calls the render subscribers of a phase, but not those unsubscribed meanwhile.
+   * @param {LoopPhase} phase - The phase to run.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @returns {void}
+   * @private
+   */
+  private _runRenderPhase(
+    phase: LoopPhase,
+    context: CanvasRenderingContext2D
+  ): void {
+    const subscriptions = this._renderSubscribers;
+    subscriptions.slice().forEach((subscription) => {
+      if (subscription.phase !== phase) return;
+      if (subscriptions.indexOf(subscription) === -1) return;
+      this._guard(phase, () => subscription.subscriber(context, this._alpha));
+    });
+  }
+
+  /**
+   * @method _insertSubscription - Inserts a subscription, keeping the list sorted by phase then priority.
+   * @param {LoopSubscription<T>[]} subscriptions - The sorted list of subscriptions.
+   * @param {LoopSubscription<T>} subscription - The subscription to insert.
+   * @returns {void}
+   * @private
+   */
+  private _insertSubscription<T>(
+    subscriptions: LoopSubscription<T>[],
+    subscription: LoopSubscription<T>
+  ): void {
+    let index = subscriptions.length;
+    while (index > 0) {
+      const previous = subscriptions[index - 1];
+      if (
+        previous.phase < subscription.phase ||
+        (previous.phase === subscription.phase &&
+          previous.priority <= subscription.priority)
+      )
+        break;
+      index--;
+    }
+    subscriptions.splice(index, 0, subscription);
+  }
+
+  /**
+   * @method _removeSubscription - Removes the subscription of a function.
+   * @param {LoopSubscription<T>[]} subscriptions - The list of subscriptions.
+   * @param {T} subscriber - The function to unsubscribe.
+   * @returns {void}
+   * @private
+   */
+  private _removeSubscription<T>(
+    subscriptions: LoopSubscription<T>[],
+    subscriber: T
+  ): void {
+    const index = subscriptions.findIndex(
+      (subscription) => subscription.subscriber === subscriber
     );
+    if (index > -1) subscriptions.splice(index, 1);
+  }
+
+  /**
+   * @method _requestFrame - Requests the next frame to the scheduler if the loop is running and no frame is already requested.
+   * @returns {void}
+   * @private
+   */
+  private _requestFrame(): void {
+    if (!this._isRunning || this._isFrameRequested) return;
+    this._isFrameRequested = true;
+    this._scheduler.request(this._loop.bind(this));
+  }
 
-    requestAnimationFrame(this._loop.bind(this));
+  /**
+   * @method _fixedUpdate - Runs as many fixed updates as the accumulated time allows.
+   * @returns {void}
+   * @private
+   */
+  private _fixedUpdate(): void {
+    const sceneManager = this._sceneManager;
+    this._accumulator += this._deltaTime;
+    let steps = 0;
+    while (
+      this._accumulator >= this._fixedTimeStep &&
+      steps < this._maxFixedSteps
+    ) {
+      const subscribers = this._fixedUpdateSubscribers;
+      subscribers.slice().forEach((subscriber) => {
+        if (subscribers.indexOf(subscriber) === -1) return;
+        this._guard(LoopPhase.Update, () => subscriber(this._fixedTimeStep));
+      });
+      this._guard(LoopPhase.Update, () =>
+        sceneManager.fixedUpdate(this._fixedTimeStep)
+      );
+      this._accumulator -= this._fixedTimeStep;
+      steps++;
+    }
+    // Drop the time we could not catch up with to avoid a spiral of death.
+    if (this._accumulator >= this._fixedTimeStep)
+      this._accumulator %= this._fixedTimeStep;
+    this._alpha = this._accumulator / this._fixedTimeStep;
   }
 }
@@ -0,0 +1,116 @@
+import { Game } from './Game';
+import { GameCanvas } from './GameCanvas';
+import { GameLoop } from './GameLoop';
+import { SceneScope } from './SceneScope';
+import { ServiceContainer } from './ServiceContainer';
+import { SceneListener } from './interfaces/SceneListener';
+import { ServiceOptions } from './interfaces/ServiceOptions';
+import { ServiceFactory } from './types/ServiceFactory';
+import { ServiceToken } from './types/ServiceToken';
+
+/**
+ * @class PluginContext - Gives a plugin access to its game and releases what it added when it is uninstalled.
+ * @extends SceneScope
+ * @public
+ */
+export class PluginContext extends SceneScope {
+  private _game: Game;
+
+  /**
+   * @constructor
+   * @param {Game} game - The game the plugin is installed on.
+   * @public
+   * @example
+   * const context = new PluginContext(game);
+   */
+  public constructor(game: Game) {
+    super();
+    this._game = game;
+  }
+
+  /**
+   * @get game - The game the plugin is installed on, giving access to its services.
+   * @returns {Game} The game.
+   * @public
+   * @example
+   * context.game.gameLoop.FPS;
+   */
+  public get game(): Game {
+    return this._game;
+  }
+
+  /**
+   * @method resolve - Returns a service of the ServiceContainer, those registered for the game first.
+   * @param {ServiceToken<T>} token - The key of the service.
+   * @returns {T} The service.
+   * @public
+   * @example
+   * const saveSystem = context.resolve(SaveSystem);
+   */
+  public resolve<T>(token: ServiceToken<T>): T {
+    return ServiceContainer.resolve(token, this._game);
+  }
+
+  /**
+   * @method registerService - Registers a service for the game until the plugin is uninstalled.
+   * @param {ServiceToken<T>} token - The key of the service.
+   * @param {ServiceFactory<T>} factory - The function that creates the service.
+   * @param {ServiceOptions} [options] - The options of the service.
+   * @returns {PluginContext} The instance of the PluginContext class.
+   * @public
+   * @example
+   * context.registerService(TweenRunner, () => new TweenRunner());
+   */
+  public registerService<T>(
+    token: ServiceToken<T>,
+    factory: ServiceFactory<T>,
+    options?: ServiceOptions
+  ): PluginContext {
+    const game = this._game;
+    ServiceContainer.register(token, factory, { ...options, game });
+    this.add(() => ServiceContainer.unregister(token, game));
+    return this;
+  }
+
+  /**
+   * @method addSceneListener - Listens to the scenes of the game until the plugin is uninstalled.
+   * @param {SceneListener} listener - The listener to add.
+   * @returns {PluginContext} The instance of the PluginContext class.
+   * @public
+   * @example
+   * context.addSceneListener({ onLoad: (scene) => analytics.track(scene) });
+   */
+  public addSceneListener(listener: SceneListener): PluginContext {
+    const sceneManager = this._game.sceneManager;
+    sceneManager.addSceneListener(listener);
+    this.add(() => sceneManager.removeSceneListener(listener));
+    return this;
+  }
+
+  /**
+   * @method _getGameLoop - Returns the loop of the game, the one the plugin subscribes to.
+   * @returns {GameLoop} The loop.
+   * @protected
+   */
+  protected _getGameLoop(): GameLoop {
+    return this._game.gameLoop;
+  }
+
+  /**
+   * @method _getGameCanvas - Returns the canvas of the game.
+   * @returns {GameCanvas} The canvas.
+   * @protected
+   */
+  protected _getGameCanvas(): GameCanvas {
+    return this._game.gameCanvas;
+  }
+
+  /**
+   * @method _activateGame - Makes the game the active one, before a timer or an event listener is called.
+   * @returns {void}
+   * @protected
+   */
+  protected _activateGame(): void {
+    this._game.activate();
+  }
+}
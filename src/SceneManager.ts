@@ -1,18 +1,55 @@
 import { Scene } from './interfaces/Scene';
+import { Updatable } from './interfaces/Updatable';
+import { Drawable } from './interfaces/Drawable';
+import { PushSceneOptions } from './interfaces/PushSceneOptions';
+import { SceneStackEntry } from './interfaces/SceneStackEntry';
+import { LoadingScene } from './interfaces/LoadingScene';
+import { SceneListener } from './interfaces/SceneListener';
+import { Transition } from './transitions/Transition';
+import { SceneFactory } from './types/SceneFactory';
+import { SceneScope } from './SceneScope';
+import { AssetStore } from './assets/AssetStore';
+import { GameCanvas } from './GameCanvas';
+import { GameLoop } from './GameLoop';
 
 /**
- * @class SceneManager - Singleton class that manages scenes.
+ * @class SceneManager - Class that manages scenes, with a default instance.
+ * @implements {Updatable}
+ * @implements {Drawable}
  * @public
  */
-export class SceneManager {
-  private static _instance: SceneManager;
-  private _currentScene?: Scene;
+export class SceneManager implements Updatable, Drawable {
+  private static _instance?: SceneManager;
+  private _stack: SceneStackEntry[];
+  private _outgoingStack: SceneStackEntry[];
+  private _transition?: Transition;
+  private _transitionTime: number;
+  private _fromCanvas?: HTMLCanvasElement;
+  private _toCanvas?: HTMLCanvasElement;
+  private _loadingScene?: LoadingScene;
+  private _pendingScene?: Scene;
+  private _factories: Map<string, SceneFactory>;
+  private _assetStore: AssetStore;
+  private _listeners: SceneListener[];
+  private _gameLoop?: GameLoop;
+  private _gameCanvas?: GameCanvas;
+  private _activate?: () => void;
 
   /**
    * @constructor
-   * @private
+   * @param {AssetStore} [assetStore] - The store loading the assets of the scenes (the default instance by default).
+   * @public
+   * @example
+   * const sceneManager = new SceneManager(assetStore);
    */
-  private constructor() {}
+  public constructor(assetStore: AssetStore = AssetStore.instance) {
+    this._assetStore = assetStore;
+    this._listeners = [];
+    this._stack = [];
+    this._outgoingStack = [];
+    this._transitionTime = 0;
+    this._factories = new Map<string, SceneFactory>();
+  }
 
   /**
    * @method get instance - Returns the instance of the SceneManager class.
@@ -28,31 +65,697 @@ export class SceneManager {
   }
 
   /**
-   * @method get currentScene - Returns the current scene.
+   * @set instance - Replaces the instance of the SceneManager class, e.g. with a fake in tests.
+   * @param {SceneManager | undefined} instance - The new instance, none to create one on next access.
+   * @public
+   * @example
+   * SceneManager.instance = fakeSceneManager;
+   */
+  public static set instance(instance: SceneManager | undefined) {
+    SceneManager._instance = instance;
+  }
+
+  /**
+   * @method reset - Destroys the instance of the SceneManager class, a new one is created on next access.
+   * @returns {void}
+   * @public
+   * @example
+   * SceneManager.reset();
+   */
+  public static reset(): void {
+    SceneManager._instance?.destroy();
+    SceneManager._instance = undefined;
+  }
+
+  /**
+   * @method destroy - Unloads all the scenes and releases their scopes.
+   * @returns {void}
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.destroy();
+   */
+  public destroy(): void {
+    this._pendingScene = undefined;
+    this._endTransition();
+    this._unloadStack(this._stack);
+    this._stack = [];
+  }
+
+  /**
+   * @method get currentScene - Returns the current scene, on top of the scene stack.
    * @returns {Scene | undefined} The current scene.
    * @public
    * @example
    * ServiceContainer.SceneManager.currentScene;
    */
   public get currentScene(): Scene | undefined {
-    return this._currentScene;
+    return this._stack[this._stack.length - 1]?.scene;
   }
 
   /**
-   * @method setScene - Sets the current scene.
-   * @param {Scene} scene - The scene to set.
-   * @param {any} [data] - The data to pass to the scene.
+   * @method get currentSceneKey - Returns the key of the current scene if it was created from the registry.
+   * @returns {string | undefined} The key of the current scene.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.currentSceneKey;
+   */
+  public get currentSceneKey(): string | undefined {
+    return this._stack[this._stack.length - 1]?.key;
+  }
+
+  /**
+   * @method get scope - Returns the scope of the current scene, released when it is unloaded.
+   * @returns {SceneScope} The scope of the current scene.
+   * @public
+   * @example
+   * load() {
+   *   ServiceContainer.SceneManager.scope.subscribeToUpdate(this.onTick);
+   * }
+   */
+  public get scope(): SceneScope {
+    const entry = this._stack[this._stack.length - 1];
+    if (!entry) throw new Error('There is no current scene.');
+    return entry.scope;
+  }
+
+  /**
+   * @method getScope - Returns the scope of a loaded scene.
+   * @param {Scene} scene - The loaded scene.
+   * @returns {SceneScope} The scope of the scene.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.getScope(this);
+   */
+  public getScope(scene: Scene): SceneScope {
+    const entry = [...this._outgoingStack, ...this._stack].find(
+      (stackEntry) => stackEntry.scene === scene
+    );
+    if (!entry) throw new Error('Scene is not loaded.');
+    return entry.scope;
+  }
+
+  /**
+   * @method get scenes - Returns the scene stack, from bottom to top.
+   * @returns {Scene[]} The loaded scenes.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.scenes;
+   */
+  public get scenes(): Scene[] {
+    return this._stack.map((entry) => entry.scene);
+  }
+
+  /**
+   * @method get isTransitioning - Returns whether a transition is running.
+   * @returns {boolean} True if a transition is running.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.isTransitioning;
+   */
+  public get isTransitioning(): boolean {
+    return this._transition !== undefined;
+  }
+
+  /**
+   * @method get loadingScene - Returns the scene shown while the assets of a scene are loading.
+   * @returns {LoadingScene | undefined} The loading scene.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.loadingScene;
+   */
+  public get loadingScene(): LoadingScene | undefined {
+    return this._loadingScene;
+  }
+
+  /**
+   * @method get isLoading - Returns whether the assets of a scene are loading.
+   * @returns {boolean} True if a scene is loading.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.isLoading;
+   */
+  public get isLoading(): boolean {
+    return this._pendingScene !== undefined;
+  }
+
+  /**
+   * @method register - Registers a scene factory by key.
+   * @param {string} key - The key of the scene.
+   * @param {SceneFactory<TData>} factory - The function that creates the scene.
+   * @returns {SceneManager}
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.register('level', () => new LevelScene());
+   * ServiceContainer.SceneManager.setScene('level', { level: 1 });
+   */
+  public register<TData = any>(
+    key: string,
+    factory: SceneFactory<TData>
+  ): SceneManager {
+    if (this._factories.has(key))
+      throw new Error(`Scene with key ${key} already registered`);
+    this._factories.set(key, factory);
+    return this;
+  }
+
+  /**
+   * @method unregister - Unregisters a scene factory.
+   * @param {string} key - The key of the scene.
+   * @returns {SceneManager}
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.unregister('level');
+   */
+  public unregister(key: string): SceneManager {
+    this._factories.delete(key);
+    return this;
+  }
+
+  /**
+   * @method isRegistered - Checks if a scene factory is registered.
+   * @param {string} key - The key of the scene.
+   * @returns {boolean} True if a scene is registered with this key.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.isRegistered('level');
+   */
+  public isRegistered(key: string): boolean {
+    return this._factories.has(key);
+  }
+
+  /**
+   * @method addSceneListener - Adds a listener notified when scenes are loaded, unloaded, paused and resumed.
+   * @param {SceneListener} listener - The listener to add.
+   * @returns {SceneManager}
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.addSceneListener({
+   *   onLoad: (scene) => analytics.track('scene', scene.constructor.name),
+   * });
+   */
+  public addSceneListener(listener: SceneListener): SceneManager {
+    this._listeners.push(listener);
+    return this;
+  }
+
+  /**
+   * @method removeSceneListener - Removes a scene listener.
+   * @param {SceneListener} listener - The listener to remove.
+   * @returns {SceneManager}
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.removeSceneListener(listener);
+   */
+  public removeSceneListener(listener: SceneListener): SceneManager {
+    const index = this._listeners.indexOf(listener);
+    if (index > -1) this._listeners.splice(index, 1);
+    return this;
+  }
+
+  /**
+   * @method setLoadingScene - Sets the scene shown while the assets of a scene are loading. Its own assets must already be loaded.
+   * @param {LoadingScene} [scene] - The loading scene, none to remove it.
+   * @returns {SceneManager}
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.setLoadingScene(new LoadingBarScene());
+   */
+  public setLoadingScene(scene?: LoadingScene): SceneManager {
+    this._loadingScene = scene;
+    return this;
+  }
+
+  /**
+   * @method setGameServices - Sets the loop and canvas the scopes of the scenes use, and the function activating their game when a scene is loaded asynchronously.
+   * @param {GameLoop} gameLoop - The loop of the game.
+   * @param {GameCanvas} gameCanvas - The canvas of the game.
+   * @param {() => void} [activate] - Makes the game the active one.
+   * @returns {SceneManager}
+   * @public
+   * @example
+   * sceneManager.setGameServices(gameLoop, gameCanvas, () => game.activate());
+   */
+  public setGameServices(
+    gameLoop: GameLoop,
+    gameCanvas: GameCanvas,
+    activate?: () => void
+  ): SceneManager {
+    this._gameLoop = gameLoop;
+    this._gameCanvas = gameCanvas;
+    this._activate = activate;
+    return this;
+  }
+
+  /**
+   * @method loadScene - Loads the assets of a scene, showing the loading scene meanwhile, then sets the scene.
+   * @param {Scene<TData> | string} scene - The scene, or the key of the registered scene, to load and set.
+   * @param {TData} [data] - The data to pass to the scene.
+   * @param {Transition} [transition] - The transition to play when the scene is ready.
+   * @returns {Promise<void>} A promise that resolves when the scene is set, or when another scene has been set meanwhile, and rejects when the load fails.
+   * @public
+   * @example
+   * await ServiceContainer.SceneManager.loadScene(new LevelScene(), { level: 2 });
+   * @example
+   * await ServiceContainer.SceneManager.loadScene('level', { level: 2 });
+   */
+  public loadScene<TData = any>(
+    scene: Scene<TData> | string,
+    data?: TData,
+    transition?: Transition
+  ): Promise<void> {
+    return this._loadScene(this._createEntry(scene, data), transition);
+  }
+
+  /**
+   * @method setScene - Sets the current scene, unloading every scene of the stack.
+   * If the scene declares assets or a preload method, it is loaded first with loadScene, a failed load is reported to the error handler of the loop.
+   * @param {Scene<TData> | string} scene - The scene, or the key of the registered scene, to set.
+   * @param {TData} [data] - The data to pass to the scene.
+   * @param {Transition} [transition] - The transition to play, the old scenes are unloaded when it completes.
    * @returns {SceneManager}
    * @public
    * @example
    * ServiceContainer.setScene(new GameScene());
    * @example
    * ServiceContainer.setScene(new GameScene(), { difficulty: 1 });
+   * @example
+   * ServiceContainer.setScene('game', { difficulty: 1 }, new FadeTransition(1));
+   */
+  public setScene<TData = any>(
+    scene: Scene<TData> | string,
+    data?: TData,
+    transition?: Transition
+  ): SceneManager {
+    const entry = this._createEntry(scene, data);
+    if (entry.scene.assets || entry.scene.preload) {
+      this._loadScene(entry, transition).catch((error) =>
+        this._reportError(error)
+      );
+      return this;
+    }
+    this._switchScene(entry, transition);
+    return this;
+  }
+
+  /**
+   * @method restartScene - Unloads the current scene and loads it again with the same data.
+   * A scene created from the registry is replaced by a new instance.
+   * @returns {SceneManager}
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.restartScene();
    */
-  public setScene(scene: Scene, data?: any): SceneManager {
-    if (this._currentScene) this._currentScene.unload();
-    this._currentScene = scene;
-    this._currentScene.load(data);
+  public restartScene(): SceneManager {
+    const entry = this._stack[this._stack.length - 1];
+    if (!entry) throw new Error('There is no scene to restart.');
+    this._unloadEntry(entry);
+    const restarted = this._createEntry(
+      entry.key ?? entry.scene,
+      entry.data,
+      entry.isOverlay
+    );
+    this._stack[this._stack.length - 1] = restarted;
+    this._loadEntry(restarted);
     return this;
   }
+
+  /**
+   * @method _loadScene - Loads the assets of the scene of an entry, then sets it.
+   * If the load fails while the loading scene is shown, the scene shown before it is set again.
+   * @param {SceneStackEntry} entry - The entry of the scene to load.
+   * @param {Transition} [transition] - The transition to play when the scene is ready.
+   * @returns {Promise<void>} A promise that resolves when the scene is set, or rejects when the load fails.
+   * @private
+   */
+  private async _loadScene(
+    entry: SceneStackEntry,
+    transition?: Transition
+  ): Promise<void> {
+    const loadingScene = this._loadingScene;
+    let previous: SceneStackEntry | undefined;
+    if (loadingScene && this.currentScene !== loadingScene) {
+      previous = this._stack[this._stack.length - 1];
+      this._switchScene(this._createEntry(loadingScene));
+    }
+    let isReady: boolean;
+    try {
+      isReady = await this._loadAssets(entry.scene, loadingScene);
+    } catch (error) {
+      // Unless another scene is set or loading meanwhile, the loading scene is not left shown forever.
+      if (
+        loadingScene &&
+        this.currentScene === loadingScene &&
+        !this.isLoading
+      ) {
+        if (previous)
+          this._switchScene(
+            this._createEntry(previous.key ?? previous.scene, previous.data)
+          );
+        else {
+          this._unloadStack(this._stack);
+          this._stack = [];
+        }
+      }
+      throw error;
+    }
+    if (isReady) this._switchScene(entry, transition);
+  }
+
+  /**
+   * @method _loadAssets - Loads the assets of a scene and runs its preload method.
+   * @param {Scene} scene - The scene to load.
+   * @param {LoadingScene} [loadingScene] - The loading scene notified of the progress.
+   * @returns {Promise<boolean>} A promise that resolves with true if the scene is still the one to show, false if another scene has been set meanwhile.
+   * @private
+   */
+  private async _loadAssets(
+    scene: Scene,
+    loadingScene?: LoadingScene
+  ): Promise<boolean> {
+    this._pendingScene = scene;
+    try {
+      if (scene.assets) {
+        await this._assetStore.loadManifest(
+          scene.assets,
+          (progress, assetName) => {
+            if (this._pendingScene === scene)
+              loadingScene?.onProgress(progress, assetName);
+          }
+        );
+        this._activate?.();
+      }
+      if (scene.preload) {
+        await scene.preload();
+        this._activate?.();
+      }
+    } catch (error) {
+      if (this._pendingScene === scene) this._pendingScene = undefined;
+      throw error;
+    }
+    return this._pendingScene === scene;
+  }
+
+  /**
+   * @method _switchScene - Replaces the scene stack by the scene of an entry.
+   * @param {SceneStackEntry} entry - The entry of the scene to set.
+   * @param {Transition} [transition] - The transition to play.
+   * @returns {void}
+   * @private
+   */
+  private _switchScene(entry: SceneStackEntry, transition?: Transition): void {
+    this._pendingScene = undefined;
+    this._endTransition();
+    if (transition && transition.duration > 0 && this._stack.length > 0) {
+      this._outgoingStack = this._stack;
+      this._transition = transition;
+      this._transitionTime = 0;
+    } else {
+      this._unloadStack(this._stack);
+    }
+    this._stack = [entry];
+    this._loadEntry(entry);
+  }
+
+  /**
+   * @method _createEntry - Creates a stack entry, instantiating the scene if a key is given.
+   * @param {Scene | string} scene - The scene or the key of the registered scene.
+   * @param {any} [data] - The data to pass to the scene.
+   * @param {boolean} [isOverlay=false] - Whether the scenes below are still drawn.
+   * @returns {SceneStackEntry} The stack entry.
+   * @private
+   */
+  private _createEntry(
+    scene: Scene | string,
+    data?: any,
+    isOverlay: boolean = false
+  ): SceneStackEntry {
+    if (typeof scene !== 'string')
+      return { scene, isOverlay, data, scope: this._createScope() };
+    const factory = this._factories.get(scene);
+    if (!factory) throw new Error(`Scene with key ${scene} is not registered`);
+    return {
+      scene: factory(),
+      isOverlay,
+      key: scene,
+      data,
+      scope: this._createScope(),
+    };
+  }
+
+  /**
+   * @method _createScope - Creates the scope of a scene, bound to the loop and canvas of the game.
+   * @returns {SceneScope} The scope.
+   * @private
+   */
+  private _createScope(): SceneScope {
+    return new SceneScope(this._gameLoop, this._gameCanvas, this._activate);
+  }
+
+  /**
+   * @method pushScene - Pushes a scene over the current scene, which stays loaded and is paused.
+   * If the scene declares assets or a preload method, it is pushed once they are loaded, without showing the loading scene; a failed load is reported to the error handler of the loop.
+   * @param {Scene<TData> | string} scene - The scene, or the key of the registered scene, to push.
+   * @param {TData} [data] - The data to pass to the scene.
+   * @param {PushSceneOptions} [options] - The options of the pushed scene.
+   * @returns {SceneManager}
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.pushScene(new InventoryScene());
+   * @example
+   * ServiceContainer.SceneManager.pushScene(new PauseScene(), undefined, { isOverlay: true });
+   */
+  public pushScene<TData = any>(
+    scene: Scene<TData> | string,
+    data?: TData,
+    options?: PushSceneOptions
+  ): SceneManager {
+    const entry = this._createEntry(scene, data, options?.isOverlay);
+    if (entry.scene.assets || entry.scene.preload) {
+      this._loadAssets(entry.scene)
+        .then((isReady) => {
+          if (isReady) this._pushEntry(entry);
+        })
+        .catch((error) => this._reportError(error));
+      return this;
+    }
+    this._pushEntry(entry);
+    return this;
+  }
+
+  /**
+   * @method _pushEntry - Pauses the current scene and pushes the scene of an entry over it.
+   * @param {SceneStackEntry} entry - The entry of the scene to push.
+   * @returns {void}
+   * @private
+   */
+  private _pushEntry(entry: SceneStackEntry): void {
+    this._pendingScene = undefined;
+    const paused = this.currentScene;
+    if (paused) {
+      paused.pause?.();
+      this._listeners.slice().forEach((listener) => listener.onPause?.(paused));
+    }
+    this._stack.push(entry);
+    this._loadEntry(entry);
+  }
+
+  /**
+   * @method popScene - Unloads the current scene and resumes the scene below.
+   * @param {any} [result] - The data to pass to the resumed scene.
+   * @returns {SceneManager}
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.popScene();
+   * @example
+   * ServiceContainer.SceneManager.popScene({ selectedItem: 'sword' });
+   */
+  public popScene(result?: any): SceneManager {
+    const entry = this._stack.pop();
+    if (!entry) throw new Error('There is no scene to pop.');
+    this._unloadEntry(entry);
+    const resumed = this.currentScene;
+    if (resumed) {
+      resumed.resume?.(result);
+      this._listeners
+        .slice()
+        .forEach((listener) => listener.onResume?.(resumed, result));
+    }
+    return this;
+  }
+
+  /**
+   * @method update - Updates the current scene. Called by the GameLoop.
+   * @param {number} deltaTime - The time since the last frame.
+   * @returns {void}
+   * @public
+   */
+  public update(deltaTime: number): void {
+    if (this._transition) {
+      this._transitionTime += deltaTime;
+      if (this._transitionTime >= this._transition.duration)
+        this._endTransition();
+    }
+    this.currentScene?.update(deltaTime);
+  }
+
+  /**
+   * @method fixedUpdate - Runs a fixed update of the current scene. Called by the GameLoop.
+   * @param {number} deltaTime - The fixed time step.
+   * @returns {void}
+   * @public
+   */
+  public fixedUpdate(deltaTime: number): void {
+    this.currentScene?.fixedUpdate?.(deltaTime);
+  }
+
+  /**
+   * @method draw - Draws the current scene and the scenes visible below overlays. Called by the GameLoop.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {number} [alpha] - The interpolation factor between the last two fixed updates.
+   * @returns {void}
+   * @public
+   */
+  public draw(context: CanvasRenderingContext2D, alpha?: number): void {
+    if (!this._transition) {
+      this._drawStack(this._stack, context, alpha);
+      return;
+    }
+
+    this._fromCanvas = this._renderStack(
+      this._outgoingStack,
+      context,
+      this._fromCanvas,
+      alpha
+    );
+    this._toCanvas = this._renderStack(
+      this._stack,
+      context,
+      this._toCanvas,
+      alpha
+    );
+    const progress = this._transition.ease(
+      this._transitionTime / this._transition.duration
+    );
+    context.save();
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    this._transition.draw(context, this._fromCanvas, this._toCanvas, progress);
+    context.restore();
+  }
+
+  /**
+   * @method _drawStack - Draws the top scene of a stack and the scenes visible below overlays.
+   * @param {SceneStackEntry[]} stack - The stack to draw.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {number} [alpha] - The interpolation factor between the last two fixed updates.
+   * @returns {void}
+   * @private
+   */
+  private _drawStack(
+    stack: SceneStackEntry[],
+    context: CanvasRenderingContext2D,
+    alpha?: number
+  ): void {
+    let bottom = stack.length - 1;
+    while (bottom > 0 && stack[bottom].isOverlay) bottom--;
+    for (let i = Math.max(bottom, 0); i < stack.length; i++)
+      stack[i].scene.draw(context, alpha);
+  }
+
+  /**
+   * @method _renderStack - Renders a stack to an offscreen canvas with the same size and transform as the context.
+   * @param {SceneStackEntry[]} stack - The stack to render.
+   * @param {CanvasRenderingContext2D} context - The context to copy the size and transform from.
+   * @param {HTMLCanvasElement} [canvas] - The offscreen canvas to reuse.
+   * @param {number} [alpha] - The interpolation factor between the last two fixed updates.
+   * @returns {HTMLCanvasElement} The offscreen canvas.
+   * @private
+   */
+  private _renderStack(
+    stack: SceneStackEntry[],
+    context: CanvasRenderingContext2D,
+    canvas: HTMLCanvasElement = document.createElement('canvas'),
+    alpha?: number
+  ): HTMLCanvasElement {
+    if (canvas.width !== context.canvas.width)
+      canvas.width = context.canvas.width;
+    if (canvas.height !== context.canvas.height)
+      canvas.height = context.canvas.height;
+    const offscreenContext = canvas.getContext('2d');
+    if (!offscreenContext) throw new Error('Cannot create a 2D context.');
+    offscreenContext.setTransform(1, 0, 0, 1, 0, 0);
+    offscreenContext.clearRect(0, 0, canvas.width, canvas.height);
+    offscreenContext.setTransform(context.getTransform());
+    offscreenContext.imageSmoothingEnabled = context.imageSmoothingEnabled;
+    offscreenContext.imageSmoothingQuality = context.imageSmoothingQuality;
+    this._drawStack(stack, offscreenContext, alpha);
+    return canvas;
+  }
+
+  /**
+   * @method _endTransition - Ends the running transition and unloads the outgoing scenes.
+   * @returns {void}
+   * @private
+   */
+  private _endTransition(): void {
+    if (!this._transition) return;
+    this._transition = undefined;
+    this._unloadStack(this._outgoingStack);
+    this._outgoingStack = [];
+  }
+
+  /**
+   * @method _unloadStack - Unloads the scenes of a stack, from top to bottom.
+   * @param {SceneStackEntry[]} stack - The stack to unload.
+   * @returns {void}
+   * @private
+   */
+  private _unloadStack(stack: SceneStackEntry[]): void {
+    for (let i = stack.length - 1; i >= 0; i--) this._unloadEntry(stack[i]);
+  }
+
+  /**
+   * @method _loadEntry - Loads the scene of an entry and notifies the listeners.
+   * @param {SceneStackEntry} entry - The entry of the scene to load.
+   * @returns {void}
+   * @private
+   */
+  private _loadEntry(entry: SceneStackEntry): void {
+    entry.scene.load(entry.data);
+    this._listeners
+      .slice()
+      .forEach((listener) => listener.onLoad?.(entry.scene, entry.data));
+  }
+
+  /**
+   * @method _unloadEntry - Unloads the scene of an entry, disposes its scope and notifies the listeners.
+   * What the scene or its scope throws is reported to the loop, so that the other scenes are still unloaded.
+   * @param {SceneStackEntry} entry - The entry of the scene to unload.
+   * @returns {void}
+   * @private
+   */
+  private _unloadEntry(entry: SceneStackEntry): void {
+    try {
+      entry.scene.unload();
+    } catch (error) {
+      this._reportError(error);
+    }
+    try {
+      entry.scope.dispose();
+    } catch (error) {
+      this._reportError(error);
+    }
+    this._listeners
+      .slice()
+      .forEach((listener) => listener.onUnload?.(entry.scene));
+  }
+
+  /**
+   * @method _reportError - Reports an error to the error handler of the loop of the game.
+   * @param {unknown} error - The thrown error.
+   * @returns {void}
+   * @private
+   */
+  private _reportError(error: unknown): void {
+    (this._gameLoop ?? GameLoop.instance).reportError(error);
+  }
 }
@@ -0,0 +1,389 @@
+import { GameCanvas } from './GameCanvas';
+import { GameLoop } from './GameLoop';
+import { Sound } from './assets/Sound';
+import { PostEffect } from './effects/PostEffect';
+import { Disposable } from './interfaces/Disposable';
+import { Drawable } from './interfaces/Drawable';
+import { UpdateSubscriptionOptions } from './interfaces/UpdateSubscriptionOptions';
+import { RenderSubscriptionOptions } from './interfaces/RenderSubscriptionOptions';
+import { DrawFunction } from './types/DrawFunction';
+import { ResizeFunction } from './types/ResizeFunction';
+import { UpdateFunction } from './types/UpdateFunction';
+import { InputField } from './ui/InputField';
+
+/**
+ * @class SceneScope - Holds the resources of a scene and releases them when the scene is unloaded.
+ * @implements {Disposable}
+ * @public
+ */
+export class SceneScope implements Disposable {
+  private _disposers: (() => void)[];
+  private _isDisposed: boolean;
+  private _gameLoop?: GameLoop;
+  private _gameCanvas?: GameCanvas;
+  private _activate?: () => void;
+
+  /**
+   * @constructor
+   * @param {GameLoop} [gameLoop] - The loop subscribed to (the default instance by default).
+   * @param {GameCanvas} [gameCanvas] - The canvas the layers, effects and resize listeners belong to (the default instance by default).
+   * @param {() => void} [activate] - Makes the game of the scope the active one before a timer or an event listener is called.
+   * @public
+   * @example
+   * const scope = new SceneScope();
+   * const gameScope = new SceneScope(game.gameLoop, game.gameCanvas, () => game.activate());
+   */
+  public constructor(
+    gameLoop?: GameLoop,
+    gameCanvas?: GameCanvas,
+    activate?: () => void
+  ) {
+    this._disposers = [];
+    this._isDisposed = false;
+    this._gameLoop = gameLoop;
+    this._gameCanvas = gameCanvas;
+    this._activate = activate;
+  }
+
+  /**
+   * @get isDisposed - Whether the scope has been disposed.
+   * @returns {boolean} True if the scope has been disposed.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.scope.isDisposed;
+   */
+  public get isDisposed(): boolean {
+    return this._isDisposed;
+  }
+
+  /**
+   * @method add - Adds a disposable object or a cleanup function to the scope.
+   * @param {Disposable | (() => void)} disposable - The object to dispose or the function to call when the scope is disposed.
+   * @returns {SceneScope} The instance of the SceneScope class.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.scope.add(() => socket.close());
+   */
+  public add(disposable: Disposable | (() => void)): SceneScope {
+    this._assertNotDisposed();
+    this._disposers.push(
+      typeof disposable === 'function' ? disposable : () => disposable.dispose()
+    );
+    return this;
+  }
+
+  /**
+   * @method subscribeToUpdate - Subscribes a function to the update loop until the scope is disposed.
+   * @param {UpdateFunction} subscriber - The function to subscribe.
+   * @param {UpdateSubscriptionOptions} [options] - The options of the subscription.
+   * @returns {SceneScope} The instance of the SceneScope class.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.scope.subscribeToUpdate((deltaTime) => {
+   *   console.log(`deltaTime: ${deltaTime}`);
+   * });
+   */
+  public subscribeToUpdate(
+    subscriber: UpdateFunction,
+    options?: UpdateSubscriptionOptions
+  ): SceneScope {
+    this._assertNotDisposed();
+    const gameLoop = this._getGameLoop();
+    gameLoop.subscribeToUpdate(subscriber, options);
+    return this.add(() => gameLoop.unsubscribeFromUpdate(subscriber));
+  }
+
+  /**
+   * @method subscribeToFixedUpdate - Subscribes a function to the fixed update loop until the scope is disposed.
+   * @param {UpdateFunction} subscriber - The function to subscribe.
+   * @returns {SceneScope} The instance of the SceneScope class.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.scope.subscribeToFixedUpdate((deltaTime) => {
+   *   world.step(deltaTime);
+   * });
+   */
+  public subscribeToFixedUpdate(subscriber: UpdateFunction): SceneScope {
+    this._assertNotDisposed();
+    const gameLoop = this._getGameLoop();
+    gameLoop.subscribeToFixedUpdate(subscriber);
+    return this.add(() => gameLoop.unsubscribeFromFixedUpdate(subscriber));
+  }
+
+  /**
+   * @method subscribeToRender - Subscribes a function to the render loop until the scope is disposed.
+   * @param {DrawFunction} subscriber - The function to subscribe.
+   * @param {RenderSubscriptionOptions} [options] - The options of the subscription.
+   * @returns {SceneScope} The instance of the SceneScope class.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.scope.subscribeToRender(hud.draw, { phase: LoopPhase.UI });
+   */
+  public subscribeToRender(
+    subscriber: DrawFunction,
+    options?: RenderSubscriptionOptions
+  ): SceneScope {
+    this._assertNotDisposed();
+    const gameLoop = this._getGameLoop();
+    gameLoop.subscribeToRender(subscriber, options);
+    return this.add(() => gameLoop.unsubscribeFromRender(subscriber));
+  }
+
+  /**
+   * @method subscribeToPreRender - Subscribes a function to the pre-render loop until the scope is disposed.
+   * @param {DrawFunction} subscriber - The function to subscribe.
+   * @param {number} [priority=0] - The order within the phase, lowest first.
+   * @returns {SceneScope} The instance of the SceneScope class.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.scope.subscribeToPreRender((ctx) => {
+   *   background.draw(ctx);
+   * });
+   */
+  public subscribeToPreRender(
+    subscriber: DrawFunction,
+    priority?: number
+  ): SceneScope {
+    this._assertNotDisposed();
+    const gameLoop = this._getGameLoop();
+    gameLoop.subscribeToPreRender(subscriber, priority);
+    return this.add(() => gameLoop.unsubscribeFromPreRender(subscriber));
+  }
+
+  /**
+   * @method subscribeToPostRender - Subscribes a function to the post-render loop until the scope is disposed.
+   * @param {DrawFunction} subscriber - The function to subscribe.
+   * @param {number} [priority=0] - The order within the phase, lowest first.
+   * @returns {SceneScope} The instance of the SceneScope class.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.scope.subscribeToPostRender((ctx) => {
+   *   hud.draw(ctx);
+   * });
+   */
+  public subscribeToPostRender(
+    subscriber: DrawFunction,
+    priority?: number
+  ): SceneScope {
+    this._assertNotDisposed();
+    const gameLoop = this._getGameLoop();
+    gameLoop.subscribeToPostRender(subscriber, priority);
+    return this.add(() => gameLoop.unsubscribeFromPostRender(subscriber));
+  }
+
+  /**
+   * @method addEventListener - Adds a DOM event listener until the scope is disposed.
+   * @param {EventTarget} target - The target to listen to.
+   * @param {string} type - The type of the event.
+   * @param {EventListenerOrEventListenerObject} listener - The listener.
+   * @param {boolean | AddEventListenerOptions} [options] - The options of the listener.
+   * @returns {SceneScope} The instance of the SceneScope class.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.scope.addEventListener(window, 'blur', () => {
+   *   ServiceContainer.GameLoop.pause();
+   * });
+   */
+  public addEventListener(
+    target: EventTarget,
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions
+  ): SceneScope {
+    this._assertNotDisposed();
+    const handler = (event: Event): void => {
+      this._activateGame();
+      if (typeof listener === 'function') listener.call(target, event);
+      else listener.handleEvent(event);
+    };
+    target.addEventListener(type, handler, options);
+    return this.add(() => target.removeEventListener(type, handler, options));
+  }
+
+  /**
+   * @method addResizeListener - Listens to the resizes of the canvas until the scope is disposed.
+   * @param {ResizeFunction} listener - The function called with the new base size and scale.
+   * @returns {SceneScope} The instance of the SceneScope class.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.scope.addResizeListener((size) => hud.layout(size));
+   */
+  public addResizeListener(listener: ResizeFunction): SceneScope {
+    this._assertNotDisposed();
+    const gameCanvas = this._getGameCanvas();
+    gameCanvas.addResizeListener(listener);
+    return this.add(() => gameCanvas.removeResizeListener(listener));
+  }
+
+  /**
+   * @method addToLayer - Adds a drawable to a render layer until the scope is disposed.
+   * @param {string} layerName - The name of the layer.
+   * @param {Drawable} drawable - The drawable.
+   * @param {number} [z=0] - The order of the drawable in the layer.
+   * @param {() => number} [getY] - Returns the y position used by the y-sort.
+   * @returns {SceneScope} The instance of the SceneScope class.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.scope.addToLayer('world', player, 1);
+   */
+  public addToLayer(
+    layerName: string,
+    drawable: Drawable,
+    z: number = 0,
+    getY?: () => number
+  ): SceneScope {
+    this._assertNotDisposed();
+    const layer = this._getGameCanvas().getLayer(layerName);
+    layer.add(drawable, z, getY);
+    return this.add(() => layer.remove(drawable));
+  }
+
+  /**
+   * @method addEffect - Adds a post-processing effect to the canvas until the scope is disposed.
+   * @param {PostEffect} effect - The effect.
+   * @returns {PostEffect} The effect.
+   * @public
+   * @example
+   * const fade = ServiceContainer.SceneManager.scope.addEffect(new FadeEffect());
+   */
+  public addEffect<T extends PostEffect>(effect: T): T {
+    this._assertNotDisposed();
+    const gameCanvas = this._getGameCanvas();
+    gameCanvas.addEffect(effect);
+    this.add(() => gameCanvas.removeEffect(effect));
+    return effect;
+  }
+
+  /**
+   * @method addInputField - Destroys an input field when the scope is disposed.
+   * @param {InputField} inputField - The input field.
+   * @returns {InputField} The input field.
+   * @public
+   * @example
+   * const nameField = ServiceContainer.SceneManager.scope.addInputField(
+   *   new InputField(new Rectangle(new Point(400, 300), new Point(200, 30)))
+   * );
+   */
+  public addInputField(inputField: InputField): InputField {
+    this.add(() => inputField.destroy());
+    return inputField;
+  }
+
+  /**
+   * @method addSound - Stops a sound when the scope is disposed.
+   * @param {Sound} sound - The sound.
+   * @returns {Sound} The sound.
+   * @public
+   * @example
+   * const music = ServiceContainer.SceneManager.scope.addSound(new Sound('music', true));
+   * music.play();
+   */
+  public addSound(sound: Sound): Sound {
+    this.add(() => sound.stop());
+    return sound;
+  }
+
+  /**
+   * @method setTimeout - Calls a function after a delay, unless the scope is disposed before.
+   * @param {() => void} callback - The function to call.
+   * @param {number} delay - The delay in millisecond.
+   * @returns {SceneScope} The instance of the SceneScope class.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.scope.setTimeout(() => spawnEnemy(), 1000);
+   */
+  public setTimeout(callback: () => void, delay: number): SceneScope {
+    this._assertNotDisposed();
+    const handle = setTimeout(() => {
+      this._activateGame();
+      callback();
+    }, delay);
+    return this.add(() => clearTimeout(handle));
+  }
+
+  /**
+   * @method setInterval - Calls a function repeatedly until the scope is disposed.
+   * @param {() => void} callback - The function to call.
+   * @param {number} delay - The delay between two calls in millisecond.
+   * @returns {SceneScope} The instance of the SceneScope class.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.scope.setInterval(() => spawnEnemy(), 5000);
+   */
+  public setInterval(callback: () => void, delay: number): SceneScope {
+    this._assertNotDisposed();
+    const handle = setInterval(() => {
+      this._activateGame();
+      callback();
+    }, delay);
+    return this.add(() => clearInterval(handle));
+  }
+
+  /**
+   * @method dispose - Releases all the resources of the scope, in reverse order. A resource that fails to be released does not stop the others, the errors are thrown afterwards.
+   * @returns {void}
+   * @public
+   * @example
+   * const scope = new SceneScope();
+   * scope.dispose();
+   */
+  public dispose(): void {
+    if (this._isDisposed) return;
+    this._isDisposed = true;
+    const disposers = this._disposers;
+    this._disposers = [];
+    const errors: unknown[] = [];
+    for (let i = disposers.length - 1; i >= 0; i--) {
+      try {
+        disposers[i]();
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+    if (errors.length === 1) throw errors[0];
+    if (errors.length > 1) {
+      const messages = errors.map((error) =>
+        error instanceof Error ? error.message : String(error)
+      );
+      throw new Error(
+        `${errors.length} resources of the SceneScope failed to be released: ${messages.join('; ')}`
+      );
+    }
+  }
+
+  /**
+   * @method _getGameLoop - Returns the loop the scope subscribes to.
+   * @returns {GameLoop} The loop.
+   * @protected
+   */
+  protected _getGameLoop(): GameLoop {
+    return this._gameLoop ?? GameLoop.instance;
+  }
+
+  /**
+   * @method _getGameCanvas - Returns the canvas the scope adds to.
+   * @returns {GameCanvas} The canvas.
+   * @protected
+   */
+  protected _getGameCanvas(): GameCanvas {
+    return this._gameCanvas ?? GameCanvas.instance;
+  }
+
+  /**
+   * @method _activateGame - Makes the game of the scope the active one, before a timer or an event listener is called.
+   * @returns {void}
+   * @protected
+   */
+  protected _activateGame(): void {
+    this._activate?.();
+  }
+
+  /**
+   * @method _assertNotDisposed - Throws if the scope has been disposed, before anything is subscribed.
+   * @returns {void}
+   * @private
+   */
+  private _assertNotDisposed(): void {
+    if (this._isDisposed) throw new Error('SceneScope already disposed.');
+  }
+}
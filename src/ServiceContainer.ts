@@ -1,3 +1,4 @@
+import { Game } from './Game';
 import { GameCanvas } from './GameCanvas';
 import { GameLoop } from './GameLoop';
 import { SceneManager } from './SceneManager';
@@ -5,12 +6,52 @@ import { AssetStore } from './assets/AssetStore';
 import { Keyboard } from './inputs/Keyboard';
 import { Mouse } from './inputs/Mouse';
 import { Touch } from './inputs/Touch';
+import { ServiceOptions } from './interfaces/ServiceOptions';
+import { ServiceRegistration } from './interfaces/ServiceRegistration';
+import { ServiceFactory } from './types/ServiceFactory';
+import { ServiceToken } from './types/ServiceToken';
+
+/**
+ * @function builtIn - Creates the registration of a built-in singleton service.
+ * @param {() => T} getInstance - Returns the instance of the service.
+ * @returns {ServiceRegistration<T>} The registration of the service.
+ * @private
+ */
+function builtIn<T>(getInstance: () => T): ServiceRegistration<T> {
+  return { factory: getInstance, singleton: false, isCreated: false };
+}
 
 /**
  * @class ServiceContainer - A container for all the services.
  * @public
  */
 export class ServiceContainer {
+  private static _registrations = new Map<ServiceToken, ServiceRegistration>([
+    [AssetStore, builtIn(() => AssetStore.instance)],
+    [GameCanvas, builtIn(() => GameCanvas.instance)],
+    [GameLoop, builtIn(() => GameLoop.instance)],
+    [Keyboard, builtIn(() => Keyboard.instance)],
+    [Mouse, builtIn(() => Mouse.instance)],
+    [SceneManager, builtIn(() => SceneManager.instance)],
+    [Touch, builtIn(() => Touch.instance)],
+  ]);
+  private static _builtIns: { instance: unknown; reset(): void }[] = [
+    SceneManager,
+    Keyboard,
+    Mouse,
+    Touch,
+    GameLoop,
+    AssetStore,
+    GameCanvas,
+  ];
+  private static _gameRegistrations = new Map<
+    Game,
+    Map<ServiceToken, ServiceRegistration>
+  >();
+  private static _overrides = new Map<ServiceToken, unknown>();
+  private static _replacedDefaults = new Map<ServiceToken, unknown>();
+  private static _resolving: ServiceToken[] = [];
+
   /**
    * @get AssetStore - The AssetStore service instance.
    * @returns {AssetStore} The instance of the AssetStore class.
@@ -18,7 +59,9 @@ export class ServiceContainer {
    * @example
    * ServiceContainer.AssetStore;
    */
-  public static AssetStore: AssetStore = AssetStore.instance;
+  public static get AssetStore(): AssetStore {
+    return AssetStore.instance;
+  }
 
   /**
    * @get GameCanvas - The GameCanvas service instance.
@@ -27,7 +70,9 @@ export class ServiceContainer {
    * @example
    * ServiceContainer.GameCanvas;
    */
-  public static GameCanvas: GameCanvas = GameCanvas.instance;
+  public static get GameCanvas(): GameCanvas {
+    return GameCanvas.instance;
+  }
 
   /**
    * @get GameLoop - The GameLoop service instance.
@@ -36,7 +81,9 @@ export class ServiceContainer {
    * @example
    * ServiceContainer.GameLoop;
    */
-  public static GameLoop: GameLoop = GameLoop.instance;
+  public static get GameLoop(): GameLoop {
+    return GameLoop.instance;
+  }
 
   /**
    * @get Keyboard - The Keyboard service instance.
@@ -45,7 +92,9 @@ export class ServiceContainer {
    * @example
    * ServiceContainer.Keyboard;
    */
-  public static Keyboard: Keyboard = Keyboard.instance;
+  public static get Keyboard(): Keyboard {
+    return Keyboard.instance;
+  }
 
   /**
    * @get Mouse - The Mouse service instance.
@@ -54,7 +103,9 @@ export class ServiceContainer {
    * @example
    * ServiceContainer.Mouse;
    */
-  public static Mouse: Mouse = Mouse.instance;
+  public static get Mouse(): Mouse {
+    return Mouse.instance;
+  }
 
   /**
    * @get SceneManager - The SceneManager service instance.
@@ -63,7 +114,9 @@ export class ServiceContainer {
    * @example
    * ServiceContainer.SceneManager;
    */
-  public static SceneManager: SceneManager = SceneManager.instance;
+  public static get SceneManager(): SceneManager {
+    return SceneManager.instance;
+  }
 
   /**
    * @get Touch - The Touch service instance.
@@ -72,5 +125,289 @@ export class ServiceContainer {
    * @example
    * ServiceContainer.Touch;
    */
-  public static Touch: Touch = Touch.instance;
+  public static get Touch(): Touch {
+    return Touch.instance;
+  }
+
+  /**
+   * @method register - Registers a service, built by a factory that can resolve the services it depends on.
+   * @param {ServiceToken<T>} token - The key of the service: a name, a symbol or a class.
+   * @param {ServiceFactory<T>} factory - The function that creates the service.
+   * @param {ServiceOptions} [options] - Whether the service is lazy and a singleton (both by default), and the game it belongs to.
+   * @returns {typeof ServiceContainer} The ServiceContainer class.
+   * @public
+   * @example
+   * ServiceContainer.register(SaveSystem, () => new SaveSystem());
+   * ServiceContainer.register(
+   *   AudioManager,
+   *   (resolve) => new AudioManager(resolve(SaveSystem), resolve(AssetStore)),
+   *   { lazy: false }
+   * );
+   * ServiceContainer.register(TweenRunner, () => new TweenRunner(), { game });
+   */
+  public static register<T>(
+    token: ServiceToken<T>,
+    factory: ServiceFactory<T>,
+    options?: ServiceOptions
+  ): typeof ServiceContainer {
+    const game = options?.game;
+    let registrations = this._registrations;
+    if (game) {
+      registrations = this._gameRegistrations.get(game) ?? new Map();
+      this._gameRegistrations.set(game, registrations);
+    }
+    if (registrations.has(token))
+      throw new Error(`Service ${this._getName(token)} already registered`);
+    const singleton = options?.singleton ?? true;
+    registrations.set(token, { factory, singleton, isCreated: false });
+    if (singleton && options?.lazy === false) this.resolve(token, game);
+    return this;
+  }
+
+  /**
+   * @method unregister - Unregisters a service.
+   * @param {ServiceToken} token - The key of the service.
+   * @param {Game} [game] - The game the service was registered for, if any.
+   * @returns {typeof ServiceContainer} The ServiceContainer class.
+   * @public
+   * @example
+   * ServiceContainer.unregister(SaveSystem);
+   * ServiceContainer.unregister(TweenRunner, game);
+   */
+  public static unregister(
+    token: ServiceToken,
+    game?: Game
+  ): typeof ServiceContainer {
+    if (!game) {
+      this._registrations.delete(token);
+      return this;
+    }
+    const registrations = this._gameRegistrations.get(game);
+    registrations?.delete(token);
+    if (registrations?.size === 0) this._gameRegistrations.delete(game);
+    return this;
+  }
+
+  /**
+   * @method isRegistered - Checks if a service is registered, for a game or for every game.
+   * @param {ServiceToken} token - The key of the service.
+   * @param {Game} [game] - The game whose services are checked too (the active game by default).
+   * @returns {boolean} True if the service is registered.
+   * @public
+   * @example
+   * ServiceContainer.isRegistered(SaveSystem);
+   */
+  public static isRegistered(
+    token: ServiceToken,
+    game: Game | undefined = Game.current
+  ): boolean {
+    return !!this._getRegistration(token, game);
+  }
+
+  /**
+   * @method resolve - Returns a registered service, creating it and its dependencies if needed.
+   * The services registered for the game are resolved before those of every game.
+   * @param {ServiceToken<T>} token - The key of the service.
+   * @param {Game} [game] - The game to resolve the service for (the active game by default).
+   * @returns {T} The service.
+   * @public
+   * @example
+   * const saveSystem = ServiceContainer.resolve(SaveSystem);
+   * const analytics = ServiceContainer.resolve<Analytics>('analytics');
+   */
+  public static resolve<T>(
+    token: ServiceToken<T>,
+    game: Game | undefined = Game.current
+  ): T {
+    if (this._overrides.has(token)) return this._overrides.get(token) as T;
+    const registration = this._getRegistration(token, game) as
+      ServiceRegistration<T> | undefined;
+    if (!registration)
+      throw new Error(`Service ${this._getName(token)} is not registered`);
+    if (registration.isCreated) return registration.instance as T;
+
+    if (this._resolving.indexOf(token) > -1) {
+      const cycle = this._resolving
+        .slice(this._resolving.indexOf(token))
+        .concat(token)
+        .map((service) => this._getName(service));
+      throw new Error(
+        `Circular dependency between services: ${cycle.join(' -> ')}`
+      );
+    }
+
+    this._resolving.push(token);
+    let instance: T;
+    try {
+      instance = registration.factory((dependency) =>
+        this.resolve(dependency, game)
+      );
+    } finally {
+      this._resolving.pop();
+    }
+    if (registration.singleton) {
+      registration.instance = instance;
+      registration.isCreated = true;
+    }
+    return instance;
+  }
+
+  /**
+   * @method override - Replaces a service with another instance, e.g. a fake in tests (in the active game, if any).
+   * Without a game, the replaced default loop is stopped and the replaced default inputs stop listening, like in a game.
+   * @param {ServiceToken<T>} token - The key of the service.
+   * @param {T} instance - The instance to use instead.
+   * @returns {typeof ServiceContainer} The ServiceContainer class.
+   * @public
+   * @example
+   * ServiceContainer.override(Keyboard, scriptedKeyboard);
+   * ServiceContainer.override(SaveSystem, new InMemorySaveSystem());
+   */
+  public static override<T>(
+    token: ServiceToken<T>,
+    instance: T
+  ): typeof ServiceContainer {
+    const builtIn = this._getBuiltIn(token);
+    if (builtIn && Game.current)
+      Game.current.setService(token as { prototype: T }, instance);
+    else if (builtIn) this._overrideDefault(token, builtIn, instance);
+    else this._overrides.set(token, instance);
+    return this;
+  }
+
+  /**
+   * @method restore - Removes the override of a service without destroying it. The active game puts back its own built-in service,
+   * otherwise the replaced default is put back, or recreated on next access for the inputs.
+   * @param {ServiceToken} token - The key of the service.
+   * @returns {typeof ServiceContainer} The ServiceContainer class.
+   * @public
+   * @example
+   * ServiceContainer.restore(Keyboard);
+   */
+  public static restore(token: ServiceToken): typeof ServiceContainer {
+    const builtIn = this._getBuiltIn(token);
+    if (builtIn && Game.current)
+      Game.current.restoreService(token as { prototype: unknown });
+    else if (builtIn) this._restoreDefault(token, builtIn);
+    else this._overrides.delete(token);
+    return this;
+  }
+
+  /**
+   * @method reset - Destroys the default services, those of the active game if any, and removes the overrides; the registrations are kept.
+   * @returns {typeof ServiceContainer} The ServiceContainer class.
+   * @public
+   * @example
+   * afterEach(() => ServiceContainer.reset());
+   */
+  public static reset(): typeof ServiceContainer {
+    this._overrides.clear();
+    this._replacedDefaults.forEach((replaced) =>
+      (replaced as { destroy?(): void }).destroy?.()
+    );
+    this._replacedDefaults.clear();
+    this._resolving = [];
+    const clear = (registration: ServiceRegistration): void => {
+      registration.isCreated = false;
+      registration.instance = undefined;
+    };
+    this._registrations.forEach(clear);
+    this._gameRegistrations.forEach((registrations) =>
+      registrations.forEach(clear)
+    );
+    this._builtIns.forEach((builtIn) => builtIn.reset());
+    Game.current?.deactivate();
+    return this;
+  }
+
+  /**
+   * @method _overrideDefault - Replaces the default instance of a built-in service, keeping the replaced default to put it back.
+   * @param {ServiceToken} token - The key of the service.
+   * @param {{ instance: unknown }} builtIn - The class of the service.
+   * @param {unknown} instance - The instance to use instead.
+   * @returns {void}
+   * @private
+   */
+  private static _overrideDefault(
+    token: ServiceToken,
+    builtIn: { instance: unknown },
+    instance: unknown
+  ): void {
+    const replaced = builtIn.instance;
+    if (replaced === instance) return;
+    if (!this._replacedDefaults.has(token)) {
+      this._replacedDefaults.set(token, replaced);
+      if (token === GameLoop && (replaced as GameLoop).isRunning) {
+        (replaced as GameLoop).stop();
+        (instance as GameLoop).start();
+      } else if (token === Keyboard || token === Mouse || token === Touch)
+        (replaced as Keyboard | Mouse | Touch).destroy();
+    }
+    builtIn.instance = instance;
+  }
+
+  /**
+   * @method _restoreDefault - Puts back the default instance of a built-in service replaced by override.
+   * @param {ServiceToken} token - The key of the service.
+   * @param {{ instance: unknown }} builtIn - The class of the service.
+   * @returns {void}
+   * @private
+   */
+  private static _restoreDefault(
+    token: ServiceToken,
+    builtIn: { instance: unknown }
+  ): void {
+    if (!this._replacedDefaults.has(token)) return;
+    const original = this._replacedDefaults.get(token);
+    this._replacedDefaults.delete(token);
+    const current = builtIn.instance;
+    if (token === GameLoop && (current as GameLoop).isRunning) {
+      (current as GameLoop).stop();
+      (original as GameLoop).start();
+    }
+    // The replaced inputs stopped listening, new ones are created on next access.
+    const isInput = token === Keyboard || token === Mouse || token === Touch;
+    builtIn.instance = isInput ? undefined : original;
+  }
+
+  /**
+   * @method _getRegistration - Returns the registration of a service, that of the game first.
+   * @param {ServiceToken} token - The key of the service.
+   * @param {Game} [game] - The game whose services are looked up first.
+   * @returns {ServiceRegistration | undefined} The registration, if the service is registered.
+   * @private
+   */
+  private static _getRegistration(
+    token: ServiceToken,
+    game?: Game
+  ): ServiceRegistration | undefined {
+    const registration = game && this._gameRegistrations.get(game)?.get(token);
+    return registration ?? this._registrations.get(token);
+  }
+
+  /**
+   * @method _getBuiltIn - Returns the class of a built-in service.
+   * @param {ServiceToken} token - The key of the service.
+   * @returns {{ instance: unknown; reset(): void } | undefined} The class, if the service is built-in.
+   * @private
+   */
+  private static _getBuiltIn(
+    token: ServiceToken
+  ): { instance: unknown; reset(): void } | undefined {
+    return this._builtIns.filter(
+      (builtIn) => (builtIn as unknown) === token
+    )[0];
+  }
+
+  /**
+   * @method _getName - Returns the readable name of a service token.
+   * @param {ServiceToken} token - The key of the service.
+   * @returns {string} The name of the service.
+   * @private
+   */
+  private static _getName(token: ServiceToken): string {
+    if (typeof token === 'string') return token;
+    if (typeof token === 'symbol') return token.toString();
+    return (token as Function).name || 'anonymous';
+  }
 }
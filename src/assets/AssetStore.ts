@@ -1,27 +1,41 @@
 import { Touch } from '../inputs/Touch';
+import { AssetManifest } from '../interfaces/AssetManifest';
+import { ProgressFunction } from '../types/ProgressFunction';
 
 /**
- * @class AssetStore - A singleton class that stores all the assets.
+ * @class AssetStore - A class that stores all the assets, with a default instance.
  * @public
  */
 export class AssetStore {
-  private static _instance: AssetStore;
+  private static _instance?: AssetStore;
   private _sounds: Map<string, HTMLAudioElement>;
   private _images: Map<string, HTMLImageElement>;
+  private _fonts: Set<string>;
   private _fontsToLoad: { name: string; url: string }[];
   private _soundsToLoad: { name: string; url: string }[];
   private _imagesToLoad: { name: string; url: string }[];
+  private _pending: Map<string, Promise<void>>;
+  private _failed: Set<string>;
+  private _volume: number;
+  private _isMuted: boolean;
 
   /**
    * @constructor
-   * @private
+   * @public
+   * @example
+   * const assetStore = new AssetStore();
    */
-  private constructor() {
+  public constructor() {
     this._sounds = new Map<string, HTMLAudioElement>();
     this._images = new Map<string, HTMLImageElement>();
+    this._fonts = new Set<string>();
     this._fontsToLoad = [];
     this._soundsToLoad = [];
     this._imagesToLoad = [];
+    this._pending = new Map<string, Promise<void>>();
+    this._failed = new Set<string>();
+    this._volume = 1;
+    this._isMuted = false;
   }
 
   /**
@@ -36,6 +50,40 @@ export class AssetStore {
     return this._instance;
   }
 
+  /**
+   * @set instance - Replaces the instance of the AssetStore class, e.g. with a fake in tests.
+   * @param {AssetStore | undefined} instance - The new instance, none to create one on next access.
+   * @public
+   * @example
+   * AssetStore.instance = fakeAssetStore;
+   */
+  public static set instance(instance: AssetStore | undefined) {
+    AssetStore._instance = instance;
+  }
+
+  /**
+   * @method reset - Destroys the instance of the AssetStore class, a new one is created on next access.
+   * @returns {void}
+   * @public
+   * @example
+   * AssetStore.reset();
+   */
+  public static reset(): void {
+    AssetStore._instance?.destroy();
+    AssetStore._instance = undefined;
+  }
+
+  /**
+   * @method destroy - Stops the loaded sounds.
+   * @returns {void}
+   * @public
+   * @example
+   * ServiceContainer.AssetStore.destroy();
+   */
+  public destroy(): void {
+    this._sounds.forEach((sound) => sound.pause());
+  }
+
   /**
    * @get sounds - The map of all the sounds.
    * @returns {Map<string, HTMLAudioElement>} The map of all the sounds.
@@ -58,6 +106,58 @@ export class AssetStore {
     return this._images;
   }
 
+  /**
+   * @get volume - The volume applied to all the sounds.
+   * @returns {number} The volume, between 0 and 1.
+   * @public
+   * @example
+   * ServiceContainer.AssetStore.volume;
+   */
+  public get volume(): number {
+    return this._volume;
+  }
+
+  /**
+   * @get isMuted - Whether all the sounds are muted.
+   * @returns {boolean} True if all the sounds are muted.
+   * @public
+   * @example
+   * ServiceContainer.AssetStore.isMuted;
+   */
+  public get isMuted(): boolean {
+    return this._isMuted;
+  }
+
+  /**
+   * @method setVolume - Sets the volume of all the sounds, loaded or to load.
+   * @param {number} volume - The volume, between 0 and 1.
+   * @returns {AssetStore} - The instance of the AssetStore class.
+   * @public
+   * @example
+   * ServiceContainer.AssetStore.setVolume(0.5);
+   */
+  public setVolume(volume: number): AssetStore {
+    if (volume < 0 || volume > 1)
+      throw new Error('Volume must be between 0 and 1.');
+    this._volume = volume;
+    this._sounds.forEach((sound) => (sound.volume = volume));
+    return this;
+  }
+
+  /**
+   * @method setMuted - Mutes or unmutes all the sounds, loaded or to load.
+   * @param {boolean} muted - Whether the sounds are muted.
+   * @returns {AssetStore} - The instance of the AssetStore class.
+   * @public
+   * @example
+   * ServiceContainer.AssetStore.setMuted(true);
+   */
+  public setMuted(muted: boolean): AssetStore {
+    this._isMuted = muted;
+    this._sounds.forEach((sound) => (sound.muted = muted));
+    return this;
+  }
+
   /**
    * @method addFont - Adds a font to the AssetStore.
    * @param {string} name - The name of the font.
@@ -139,38 +239,171 @@ export class AssetStore {
    * ServiceContainer.AssetStore.loadAllAssets();
    */
   public loadAllAssets(): Promise<void[]> {
-    const imagesPromise = this._imagesToLoad.map((imageToLoad) => {
-      return new Promise<void>((resolve, reject) => {
-        this._loadImage(imageToLoad.name, imageToLoad.url);
-        const image = this._images.get(imageToLoad.name) as HTMLImageElement;
-        image.onload = () => resolve();
-        image.onerror = (err) => reject(err);
-      });
-    });
+    const imagesPromise = this._imagesToLoad.map((imageToLoad) =>
+      this._loadOnce('image', imageToLoad.name, this._images, () =>
+        this._loadImageAsync(imageToLoad.name, imageToLoad.url)
+      )
+    );
 
-    const soundsPromise = this._soundsToLoad.map((soundToLoad) => {
-      return new Promise<void>((resolve, reject) => {
-        this._loadSound(soundToLoad.name, soundToLoad.url);
-        const sound = this._sounds.get(soundToLoad.name) as HTMLAudioElement;
-        sound.oncanplaythrough = () => {
-          if (Touch.instance.isTouchScreen)
-            this._unlockAudioForIOS(soundToLoad.name);
-          resolve();
-        };
-        sound.onerror = (err) => reject(err);
-      });
-    });
+    const soundsPromise = this._soundsToLoad.map((soundToLoad) =>
+      this._loadOnce('sound', soundToLoad.name, this._sounds, () =>
+        this._loadSoundAsync(soundToLoad.name, soundToLoad.url)
+      )
+    );
 
     const fontsPromise = this._fontsToLoad.map((fontToLoad) => {
-      return new Promise<void>((resolve, reject) => {
-        this._loadFont(fontToLoad.name, fontToLoad.url);
-        resolve();
-      });
+      this._loadFont(fontToLoad.name, fontToLoad.url);
+      return Promise.resolve();
     });
 
     return Promise.all([...imagesPromise, ...soundsPromise, ...fontsPromise]);
   }
 
+  /**
+   * @method loadManifest - Loads the assets of a manifest, skipping the ones already loaded, waiting for the ones still loading and retrying the ones that failed.
+   * @param {AssetManifest} manifest - The assets to load.
+   * @param {ProgressFunction} [onProgress] - The function called each time an asset is loaded.
+   * @returns {Promise<void>} A promise that resolves when all the assets of the manifest are loaded.
+   * @public
+   * @example
+   * await ServiceContainer.AssetStore.loadManifest(
+   *   { images: [{ name: 'hero', url: heroUrl }] },
+   *   (progress, assetName) => console.log(progress, assetName)
+   * );
+   */
+  public loadManifest(
+    manifest: AssetManifest,
+    onProgress?: ProgressFunction
+  ): Promise<void> {
+    const images = (manifest.images ?? []).filter(
+      (image) => !this._isLoaded('image', image.name, this._images)
+    );
+    const sounds = (manifest.sounds ?? []).filter(
+      (sound) => !this._isLoaded('sound', sound.name, this._sounds)
+    );
+    const fonts = (manifest.fonts ?? []).filter(
+      (font) => !this._fonts.has(font.name)
+    );
+    const total = images.length + sounds.length + fonts.length;
+    let loaded = 0;
+    const onLoaded = (name: string) => {
+      loaded++;
+      onProgress?.(loaded / total, name);
+    };
+
+    const promises = [
+      ...images.map((image) =>
+        this._loadOnce('image', image.name, this._images, () =>
+          this._loadImageAsync(image.name, image.url)
+        ).then(() => onLoaded(image.name))
+      ),
+      ...sounds.map((sound) =>
+        this._loadOnce('sound', sound.name, this._sounds, () =>
+          this._loadSoundAsync(sound.name, sound.url)
+        ).then(() => onLoaded(sound.name))
+      ),
+      ...fonts.map((font) => {
+        this._loadFont(font.name, font.url);
+        onLoaded(font.name);
+        return Promise.resolve();
+      }),
+    ];
+
+    return Promise.all(promises).then(() => {
+      if (total === 0) onProgress?.(1, '');
+    });
+  }
+
+  /**
+   * @method _isLoaded - Checks if an asset has finished loading successfully.
+   * @param {string} type - The type of the asset.
+   * @param {string} name - The name of the asset.
+   * @param {Map<string, unknown>} assets - The loaded and loading assets of this type.
+   * @returns {boolean} True if the asset is loaded.
+   * @private
+   */
+  private _isLoaded(
+    type: string,
+    name: string,
+    assets: Map<string, unknown>
+  ): boolean {
+    const key = `${type}:${name}`;
+    return (
+      assets.has(name) && !this._pending.has(key) && !this._failed.has(key)
+    );
+  }
+
+  /**
+   * @method _loadOnce - Loads an asset, or returns its pending load. An asset that failed is loaded again.
+   * @param {string} type - The type of the asset.
+   * @param {string} name - The name of the asset.
+   * @param {Map<string, unknown>} assets - The loaded and loading assets of this type.
+   * @param {() => Promise<void>} load - Starts the load of the asset.
+   * @returns {Promise<void>} A promise that resolves when the asset is loaded.
+   * @private
+   */
+  private _loadOnce(
+    type: string,
+    name: string,
+    assets: Map<string, unknown>,
+    load: () => Promise<void>
+  ): Promise<void> {
+    const key = `${type}:${name}`;
+    const pending = this._pending.get(key);
+    if (pending) return pending;
+    if (this._failed.has(key)) {
+      this._failed.delete(key);
+      assets.delete(name);
+    }
+    const promise = load().then(
+      () => {
+        this._pending.delete(key);
+      },
+      (error) => {
+        this._pending.delete(key);
+        this._failed.add(key);
+        throw error;
+      }
+    );
+    this._pending.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * @method _loadImageAsync - Loads an image and waits for it.
+   * @param {string} name - The name of the image.
+   * @param {string} url - The url of the image.
+   * @returns {Promise<void>} A promise that resolves when the image is loaded.
+   * @private
+   */
+  private _loadImageAsync(name: string, url: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this._loadImage(name, url);
+      const image = this._images.get(name) as HTMLImageElement;
+      image.onload = () => resolve();
+      image.onerror = (err) => reject(err);
+    });
+  }
+
+  /**
+   * @method _loadSoundAsync - Loads a sound and waits for it.
+   * @param {string} name - The name of the sound.
+   * @param {string} url - The url of the sound.
+   * @returns {Promise<void>} A promise that resolves when the sound can play through.
+   * @private
+   */
+  private _loadSoundAsync(name: string, url: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this._loadSound(name, url);
+      const sound = this._sounds.get(name) as HTMLAudioElement;
+      sound.oncanplaythrough = () => {
+        if (Touch.instance.isTouchScreen) this._unlockAudioForIOS(name);
+        resolve();
+      };
+      sound.onerror = (err) => reject(err);
+    });
+  }
+
   /**
    * @method _loadFont - Loads a font.
    * @param {string} name - The name of the font.
@@ -184,6 +417,7 @@ export class AssetStore {
     // const font = new FontFace(name, `url(${url})`);
     // await font.load();
     // document.fonts.add(font);
+    this._fonts.add(name);
     const style = document.createElement('style');
     style.innerHTML = `@font-face { font-family: "${name}"; src: url("${url}") format("truetype"); }`;
     document.head.appendChild(style);
@@ -202,6 +436,8 @@ export class AssetStore {
     if (this._sounds.has(name))
       throw new Error(`Sound with name ${name} already exists`);
     const audio = new Audio(url);
+    audio.volume = this._volume;
+    audio.muted = this._isMuted;
     this._sounds.set(name, audio);
   }
 
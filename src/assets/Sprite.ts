@@ -1,19 +1,28 @@
 import { Point } from '../primitives/Point';
 import { AssetStore } from './AssetStore';
 import { Drawable } from '../interfaces/Drawable';
+import { HitTestable } from '../interfaces/HitTestable';
+import { GameCanvas } from '../GameCanvas';
+import { TintCache } from './TintCache';
 
 /**
  * @class Sprite - Represents a drawable image.
  * @implements {Drawable}
+ * @implements {HitTestable}
  * @public
  */
-export class Sprite implements Drawable {
+export class Sprite implements Drawable, HitTestable {
   protected _image: HTMLImageElement;
   protected _position: Point;
   protected _size: Point;
   protected _scale: Point;
   protected _isVerticalFlipped: boolean;
   protected _isHorizontalFlipped: boolean;
+  protected _rotation: number;
+  protected _origin: Point;
+  protected _alpha: number;
+  protected _blendMode: GlobalCompositeOperation;
+  protected _tint?: string;
 
   /**
    * @constructor
@@ -32,6 +41,10 @@ export class Sprite implements Drawable {
     this._scale = new Point(1, 1);
     this._isVerticalFlipped = false;
     this._isHorizontalFlipped = false;
+    this._rotation = 0;
+    this._origin = new Point(0.5, 0.5);
+    this._alpha = 1;
+    this._blendMode = 'source-over';
   }
 
   /**
@@ -154,6 +167,140 @@ export class Sprite implements Drawable {
     this._isHorizontalFlipped = value;
   }
 
+  /**
+   * @get rotation - The rotation of the sprite around its origin, in radian.
+   * @returns {number} - The rotation of the sprite around its origin.
+   * @public
+   * @example
+   * const sprite = new Sprite('myImage');
+   * console.log(sprite.rotation);
+   */
+  public get rotation(): number {
+    return this._rotation;
+  }
+
+  /**
+   * @set rotation - The rotation of the sprite around its origin, in radian.
+   * @param {number} value - The rotation of the sprite around its origin.
+   * @public
+   * @example
+   * const sprite = new Sprite('myImage');
+   * sprite.rotation = Math.PI / 4;
+   */
+  public set rotation(value: number) {
+    this._rotation = value;
+  }
+
+  /**
+   * @get origin - The point of the sprite placed at its position, from (0, 0) for the top left corner to (1, 1) for the bottom right corner.
+   * @returns {Point} - The point of the sprite placed at its position.
+   * @public
+   * @example
+   * const sprite = new Sprite('myImage');
+   * console.log(sprite.origin);
+   */
+  public get origin(): Point {
+    return this._origin;
+  }
+
+  /**
+   * @set origin - The point of the sprite placed at its position, from (0, 0) for the top left corner to (1, 1) for the bottom right corner.
+   * @param {Point} value - The point of the sprite placed at its position.
+   * @public
+   * @example
+   * const sprite = new Sprite('myImage');
+   * sprite.origin = new Point(0.5, 1);
+   */
+  public set origin(value: Point) {
+    this._origin = value;
+  }
+
+  /**
+   * @get alpha - The opacity of the sprite, between 0 and 1.
+   * @returns {number} - The opacity of the sprite.
+   * @public
+   * @example
+   * const sprite = new Sprite('myImage');
+   * console.log(sprite.alpha);
+   */
+  public get alpha(): number {
+    return this._alpha;
+  }
+
+  /**
+   * @set alpha - The opacity of the sprite, between 0 and 1.
+   * @param {number} value - The opacity of the sprite.
+   * @public
+   * @example
+   * const sprite = new Sprite('myImage');
+   * sprite.alpha = 0.5;
+   */
+  public set alpha(value: number) {
+    if (value < 0 || value > 1)
+      throw new Error('Sprite alpha must be between 0 and 1.');
+    this._alpha = value;
+  }
+
+  /**
+   * @get blendMode - The way the sprite is blended with what is under it.
+   * @returns {GlobalCompositeOperation} - The way the sprite is blended with what is under it.
+   * @public
+   * @example
+   * const sprite = new Sprite('myImage');
+   * console.log(sprite.blendMode);
+   */
+  public get blendMode(): GlobalCompositeOperation {
+    return this._blendMode;
+  }
+
+  /**
+   * @set blendMode - The way the sprite is blended with what is under it.
+   * @param {GlobalCompositeOperation} value - The way the sprite is blended with what is under it.
+   * @public
+   * @example
+   * const sprite = new Sprite('myImage');
+   * sprite.blendMode = 'lighter';
+   */
+  public set blendMode(value: GlobalCompositeOperation) {
+    this._blendMode = value;
+  }
+
+  /**
+   * @get isBatchable - Whether the sprite is drawn through the sprite batch of a batched layer, only with the default blend mode.
+   * @returns {boolean} True if the sprite is batchable.
+   * @public
+   * @example
+   * const sprite = new Sprite('myImage');
+   * console.log(sprite.isBatchable);
+   */
+  public get isBatchable(): boolean {
+    return this._blendMode === 'source-over';
+  }
+
+  /**
+   * @get tint - The color the sprite is multiplied by, none when undefined.
+   * @returns {string | undefined} - The color the sprite is multiplied by.
+   * @public
+   * @example
+   * const sprite = new Sprite('myImage');
+   * console.log(sprite.tint);
+   */
+  public get tint(): string | undefined {
+    return this._tint;
+  }
+
+  /**
+   * @set tint - The color the sprite is multiplied by, none when undefined.
+   * @param {string | undefined} value - The color the sprite is multiplied by.
+   * @public
+   * @example
+   * const sprite = new Sprite('myImage');
+   * sprite.tint = '#ff8080';
+   */
+  public set tint(value: string | undefined) {
+    this._tint = value;
+  }
+
   /**
    * @method draw - Draws the sprite.
    * @param {CanvasRenderingContext2D} context - The context to draw to.
@@ -163,24 +310,137 @@ export class Sprite implements Drawable {
    * sprite.draw(context);
    */
   public draw(context: CanvasRenderingContext2D): void {
-    context.save();
+    this._drawImage(
+      context,
+      0,
+      0,
+      this._image.width,
+      this._image.height,
+      this._size
+    );
+  }
 
-    context.translate(this._position.x, this._position.y);
-    context.scale(this._scale.x, this._scale.y);
-    context.translate(-this._size.x / 2, -this._size.y / 2);
+  /**
+   * @method isContainsPoint - Checks if the sprite, rotated and scaled around its origin, covers a point.
+   * @param {Point} point - The point, in the coordinates the sprite is drawn in.
+   * @returns {boolean} True if the sprite contains the point.
+   * @public
+   * @example
+   * const sprite = new Sprite('myImage');
+   * sprite.isContainsPoint(ServiceContainer.Mouse.position);
+   */
+  public isContainsPoint(point: Point): boolean {
+    const size = this._getDrawnSize();
+    if (this._scale.x === 0 || this._scale.y === 0) return false;
+    const dx = point.x - this._position.x;
+    const dy = point.y - this._position.y;
+    const cos = Math.cos(-this._rotation);
+    const sin = Math.sin(-this._rotation);
+    const x = (dx * cos - dy * sin) / this._scale.x + size.x * this._origin.x;
+    const y = (dx * sin + dy * cos) / this._scale.y + size.y * this._origin.y;
+    return x >= 0 && x <= size.x && y >= 0 && y <= size.y;
+  }
 
+  /**
+   * @method _getDrawnSize - Returns the size of the region the sprite draws, before the scale.
+   * @returns {Point} The size of the sprite.
+   * @protected
+   */
+  protected _getDrawnSize(): Point {
+    return this._size;
+  }
+
+  /**
+   * @method _getTransform - Returns the transform of the context moved, rotated and scaled to the top left corner of the sprite.
+   * @param {CanvasRenderingContext2D} context - The context to draw to.
+   * @param {Point} size - The size of the drawn region.
+   * @returns {DOMMatrix} The transform of the sprite.
+   * @protected
+   */
+  protected _getTransform(
+    context: CanvasRenderingContext2D,
+    size: Point
+  ): DOMMatrix {
+    const transform = context.getTransform();
+    transform.translateSelf(this._position.x, this._position.y);
+    if (this._rotation !== 0)
+      transform.rotateSelf((this._rotation * 180) / Math.PI);
+    transform.scaleSelf(this._scale.x, this._scale.y);
+    transform.translateSelf(-size.x * this._origin.x, -size.y * this._origin.y);
+
+    // The scale is already applied, a flip only mirrors the sprite.
     if (this._isVerticalFlipped) {
-      context.translate(this._size.x, 0);
-      context.scale(-this._scale.x, this._scale.y);
+      transform.translateSelf(size.x, 0);
+      transform.scaleSelf(-1, 1);
     }
 
     if (this._isHorizontalFlipped) {
-      context.translate(0, this._size.y);
-      context.scale(this._scale.x, -this._scale.y);
+      transform.translateSelf(0, size.y);
+      transform.scaleSelf(1, -1);
     }
 
-    context.drawImage(this._image, 0, 0, this._size.x, this._size.y);
+    return transform;
+  }
+
+  /**
+   * @method _drawImage - Draws a region of the image with the tint, opacity and blend mode of the sprite, through the sprite batch of the canvas when it has begun on the context.
+   * @param {CanvasRenderingContext2D} context - The context to draw to.
+   * @param {number} sourceX - The x of the region in the image.
+   * @param {number} sourceY - The y of the region in the image.
+   * @param {number} sourceWidth - The width of the region in the image.
+   * @param {number} sourceHeight - The height of the region in the image.
+   * @param {Point} size - The size of the drawn region.
+   * @returns {void}
+   * @protected
+   */
+  protected _drawImage(
+    context: CanvasRenderingContext2D,
+    sourceX: number,
+    sourceY: number,
+    sourceWidth: number,
+    sourceHeight: number,
+    size: Point
+  ): void {
+    if (this._alpha === 0) return;
+    const image = this._tint
+      ? TintCache.get(this._image, this._tint)
+      : this._image;
+    const transform = this._getTransform(context, size);
+    const alpha = context.globalAlpha * this._alpha;
+    const spriteBatch = GameCanvas.fromContext(context)?.spriteBatch;
+    const batch = spriteBatch?.isBatching(context) ? spriteBatch : undefined;
+    if (batch && this.isBatchable) {
+      batch.drawImage(
+        image,
+        sourceX,
+        sourceY,
+        sourceWidth,
+        sourceHeight,
+        size.x,
+        size.y,
+        transform,
+        alpha
+      );
+      return;
+    }
 
+    // Drawn over the sprites batched before it, not under them.
+    batch?.flush();
+    context.save();
+    context.setTransform(transform);
+    context.globalAlpha = alpha;
+    context.globalCompositeOperation = this._blendMode;
+    context.drawImage(
+      image,
+      sourceX,
+      sourceY,
+      sourceWidth,
+      sourceHeight,
+      0,
+      0,
+      size.x,
+      size.y
+    );
     context.restore();
   }
 }
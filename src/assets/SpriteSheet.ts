@@ -174,40 +174,28 @@ export class SpriteSheet extends Sprite {
   public draw(context: CanvasRenderingContext2D): void {
     if (!this._currentAnimation) return;
 
-    context.save();
-
     const frame =
       this._currentAnimation.frames[this._currentAnimation.currentFrame];
     const column = this._image.width / this._frameSize.x;
     const sourceX = (frame % column) * this._frameSize.x;
     const sourceY = Math.floor(frame / column) * this._frameSize.y;
 
-    context.translate(this._position.x, this._position.y);
-    context.scale(this._scale.x, this._scale.y);
-    context.translate(-this._frameSize.x / 2, -this._frameSize.y / 2);
-
-    if (this._isVerticalFlipped) {
-      context.translate(this._frameSize.x, 0);
-      context.scale(-this._scale.x, this._scale.y);
-    }
-
-    if (this._isHorizontalFlipped) {
-      context.translate(0, this._frameSize.y);
-      context.scale(this._scale.x, -this._scale.y);
-    }
-
-    context.drawImage(
-      this._image,
+    this._drawImage(
+      context,
       sourceX,
       sourceY,
       this._frameSize.x,
       this._frameSize.y,
-      0,
-      0,
-      this._frameSize.x,
-      this._frameSize.y
+      this._frameSize
     );
+  }
 
-    context.restore();
+  /**
+   * @method _getDrawnSize - Returns the size of a frame, the region the sprite sheet draws.
+   * @returns {Point} The size of a frame.
+   * @protected
+   */
+  protected _getDrawnSize(): Point {
+    return this._frameSize;
   }
 }
@@ -1,5 +1,6 @@
 import { Point } from '../primitives/Point';
 import { AssetStore } from './AssetStore';
+import { TintCache } from './TintCache';
 
 /**
  * @class TileSet - A class for drawing tiles from a tileset image.
@@ -12,6 +13,11 @@ export class TileSet {
   private _scale: Point;
   private _frameSize: Point;
   private _cachedTiles: Map<string, HTMLCanvasElement>;
+  private _rotation: number;
+  private _origin: Point;
+  private _alpha: number;
+  private _blendMode: GlobalCompositeOperation;
+  private _tint?: string;
 
   /**
    * @constructor - Creates a new tile set.
@@ -38,14 +44,140 @@ export class TileSet {
     this._frameSize = frameSize;
 
     this._cachedTiles = new Map<string, HTMLCanvasElement>();
+    this._rotation = 0;
+    this._origin = new Point(0, 0);
+    this._alpha = 1;
+    this._blendMode = 'source-over';
+  }
+
+  /**
+   * @get rotation - The rotation of the tiles around their origin, in radian.
+   * @returns {number} - The rotation of the tiles.
+   * @public
+   * @example
+   * const tileSet = new TileSet('myImage', new Point(32, 32));
+   * console.log(tileSet.rotation);
+   */
+  public get rotation(): number {
+    return this._rotation;
+  }
+
+  /**
+   * @set rotation - The rotation of the tiles around their origin, in radian.
+   * @param {number} value - The rotation of the tiles.
+   * @public
+   * @example
+   * const tileSet = new TileSet('myImage', new Point(32, 32));
+   * tileSet.rotation = Math.PI / 2;
+   */
+  public set rotation(value: number) {
+    this._rotation = value;
+  }
+
+  /**
+   * @get origin - The point of the tiles placed at their position, from (0, 0) for the top left corner to (1, 1) for the bottom right corner.
+   * @returns {Point} - The point of the tiles placed at their position.
+   * @public
+   * @example
+   * const tileSet = new TileSet('myImage', new Point(32, 32));
+   * console.log(tileSet.origin);
+   */
+  public get origin(): Point {
+    return this._origin;
+  }
+
+  /**
+   * @set origin - The point of the tiles placed at their position, from (0, 0) for the top left corner to (1, 1) for the bottom right corner.
+   * @param {Point} value - The point of the tiles placed at their position.
+   * @public
+   * @example
+   * const tileSet = new TileSet('myImage', new Point(32, 32));
+   * tileSet.origin = new Point(0.5, 0.5);
+   */
+  public set origin(value: Point) {
+    this._origin = value;
+  }
+
+  /**
+   * @get alpha - The opacity of the tiles, between 0 and 1.
+   * @returns {number} - The opacity of the tiles.
+   * @public
+   * @example
+   * const tileSet = new TileSet('myImage', new Point(32, 32));
+   * console.log(tileSet.alpha);
+   */
+  public get alpha(): number {
+    return this._alpha;
+  }
+
+  /**
+   * @set alpha - The opacity of the tiles, between 0 and 1.
+   * @param {number} value - The opacity of the tiles.
+   * @public
+   * @example
+   * const tileSet = new TileSet('myImage', new Point(32, 32));
+   * tileSet.alpha = 0.5;
+   */
+  public set alpha(value: number) {
+    if (value < 0 || value > 1)
+      throw new Error('Tile set alpha must be between 0 and 1.');
+    this._alpha = value;
+  }
+
+  /**
+   * @get blendMode - The way the tiles are blended with what is under them.
+   * @returns {GlobalCompositeOperation} - The blend mode of the tiles.
+   * @public
+   * @example
+   * const tileSet = new TileSet('myImage', new Point(32, 32));
+   * console.log(tileSet.blendMode);
+   */
+  public get blendMode(): GlobalCompositeOperation {
+    return this._blendMode;
+  }
+
+  /**
+   * @set blendMode - The way the tiles are blended with what is under them.
+   * @param {GlobalCompositeOperation} value - The blend mode of the tiles.
+   * @public
+   * @example
+   * const tileSet = new TileSet('myImage', new Point(32, 32));
+   * tileSet.blendMode = 'multiply';
+   */
+  public set blendMode(value: GlobalCompositeOperation) {
+    this._blendMode = value;
+  }
+
+  /**
+   * @get tint - The color the tiles are multiplied by, none when undefined.
+   * @returns {string | undefined} - The tint of the tiles.
+   * @public
+   * @example
+   * const tileSet = new TileSet('myImage', new Point(32, 32));
+   * console.log(tileSet.tint);
+   */
+  public get tint(): string | undefined {
+    return this._tint;
+  }
+
+  /**
+   * @set tint - The color the tiles are multiplied by, none when undefined.
+   * @param {string | undefined} value - The tint of the tiles.
+   * @public
+   * @example
+   * const tileSet = new TileSet('myImage', new Point(32, 32));
+   * tileSet.tint = '#8080ff';
+   */
+  public set tint(value: string | undefined) {
+    this._tint = value;
   }
 
   /**
    * @method drawTile - Draws a tile from the tile set.
    * @param {CanvasRenderingContext2D} context - The context to draw to.
    * @param {number} TileId - The id of the tile to draw.
-   * @param {Point} position - The position to draw the tile at.
-   * @param {boolean} [useCache=true] - Whether or not to use the cache.
+   * @param {Point} position - The position of the origin of the tile, its top left corner by default.
+   * @param {boolean} [useCache=true] - Whether or not to use the cache, a tile is only cached once the image is loaded.
    * @returns {void}
    * @public
    * @example
@@ -58,52 +190,92 @@ export class TileSet {
     position: Point,
     useCache?: boolean
   ): void {
-    const cacheKey = `${this._image.src}-${TileId}`;
-    const cachedTile = this._cachedTiles.get(cacheKey);
-    if (useCache && cachedTile) {
-      context.drawImage(cachedTile, position.x, position.y);
-      return;
-    }
+    if (this._alpha === 0) return;
+    const image = this._tint
+      ? TintCache.get(this._image, this._tint)
+      : this._image;
+    const size = this._frameSize.multiply(this._scale);
+    // An image not loaded yet is drawn without its tint, its tile is cached once loaded.
+    const isCached =
+      useCache && this._image.complete && this._image.naturalWidth > 0;
+    const cacheKey = `${this._image.src}-${TileId}-${this._tint ?? ''}`;
+    let tile: CanvasImageSource | undefined = isCached
+      ? this._cachedTiles.get(cacheKey)
+      : undefined;
+    let sx = 0;
+    let sy = 0;
+    let sourceSize = size;
 
-    const sx =
-      (TileId % (this._size.x / this._frameSize.x)) * this._frameSize.x;
-    const sy =
-      Math.floor(TileId / (this._size.x / this._frameSize.x)) *
-      this._frameSize.y;
+    if (!tile) {
+      sx = (TileId % (this._size.x / this._frameSize.x)) * this._frameSize.x;
+      sy =
+        Math.floor(TileId / (this._size.x / this._frameSize.x)) *
+        this._frameSize.y;
+      sourceSize = this._frameSize;
+      tile = image;
+    }
 
-    if (useCache) {
+    if (isCached && tile === image) {
       const offscreenCanvas = document.createElement('canvas');
-      offscreenCanvas.width = this._frameSize.x * this._scale.x;
-      offscreenCanvas.height = this._frameSize.y * this._scale.y;
+      offscreenCanvas.width = size.x;
+      offscreenCanvas.height = size.y;
       const offscreenCtx = offscreenCanvas.getContext('2d');
 
       offscreenCtx?.drawImage(
-        this._image,
+        image,
         sx,
         sy,
         this._frameSize.x,
         this._frameSize.y,
         0,
         0,
-        this._frameSize.x * this._scale.x,
-        this._frameSize.y * this._scale.y
+        size.x,
+        size.y
       );
 
       this._cachedTiles.set(cacheKey, offscreenCanvas);
-      context.drawImage(offscreenCanvas, position.x, position.y);
+      tile = offscreenCanvas;
+      sx = 0;
+      sy = 0;
+      sourceSize = size;
+    }
+
+    const originOffset = size.multiply(this._origin);
+    const isTransformed =
+      this._rotation !== 0 ||
+      this._alpha !== 1 ||
+      this._blendMode !== 'source-over';
+    if (!isTransformed) {
+      context.drawImage(
+        tile,
+        sx,
+        sy,
+        sourceSize.x,
+        sourceSize.y,
+        position.x - originOffset.x,
+        position.y - originOffset.y,
+        size.x,
+        size.y
+      );
       return;
     }
 
+    context.save();
+    context.globalAlpha *= this._alpha;
+    context.globalCompositeOperation = this._blendMode;
+    context.translate(position.x, position.y);
+    context.rotate(this._rotation);
     context.drawImage(
-      this._image,
+      tile,
       sx,
       sy,
-      this._frameSize.x,
-      this._frameSize.y,
-      position.x,
-      position.y,
-      this._frameSize.x * this._scale.x,
-      this._frameSize.y * this._scale.y
+      sourceSize.x,
+      sourceSize.y,
+      -originOffset.x,
+      -originOffset.y,
+      size.x,
+      size.y
     );
+    context.restore();
   }
 }
@@ -0,0 +1,72 @@
+const MAX_VARIANTS_PER_IMAGE = 16;
+
+/**
+ * @class TintCache - Creates the tinted variants of the images once and shares them between sprites.
+ * @public
+ */
+export class TintCache {
+  private static _variants = new WeakMap<
+    HTMLImageElement,
+    Map<string, HTMLCanvasElement>
+  >();
+
+  /**
+   * @method get - Returns an image multiplied by a color, keeping its transparency.
+   * An image not loaded yet is returned untinted and nothing is cached, the least recently used variant of an image is released past 16 colors.
+   * @param {HTMLImageElement} image - The image.
+   * @param {string} color - The color of the tint.
+   * @returns {HTMLImageElement | HTMLCanvasElement} The tinted image, the same size as the image.
+   * @public
+   * @static
+   * @example
+   * const redPlayer = TintCache.get(ServiceContainer.AssetStore.getImage('player'), '#ff0000');
+   */
+  public static get(
+    image: HTMLImageElement,
+    color: string
+  ): HTMLImageElement | HTMLCanvasElement {
+    if (!image.complete || image.naturalWidth === 0) return image;
+    let variants = TintCache._variants.get(image);
+    if (!variants) {
+      variants = new Map<string, HTMLCanvasElement>();
+      TintCache._variants.set(image, variants);
+    }
+    const cached = variants.get(color);
+    if (cached) {
+      variants.delete(color);
+      variants.set(color, cached);
+      return cached;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.drawImage(image, 0, 0);
+      context.globalCompositeOperation = 'multiply';
+      context.fillStyle = color;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.globalCompositeOperation = 'destination-in';
+      context.drawImage(image, 0, 0);
+    }
+    if (variants.size >= MAX_VARIANTS_PER_IMAGE)
+      variants.delete(variants.keys().next().value);
+    variants.set(color, canvas);
+    return canvas;
+  }
+
+  /**
+   * @method clear - Releases the tinted variants of an image, or of all the images.
+   * @param {HTMLImageElement} [image] - The image, all the images by default.
+   * @returns {void}
+   * @public
+   * @static
+   * @example
+   * TintCache.clear();
+   */
+  public static clear(image?: HTMLImageElement): void {
+    if (image) TintCache._variants.delete(image);
+    else TintCache._variants = new WeakMap();
+  }
+}
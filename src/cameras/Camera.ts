@@ -0,0 +1,392 @@
+import { Updatable } from '../interfaces/Updatable';
+import { CameraFollowOptions } from '../interfaces/CameraFollowOptions';
+import { Point } from '../primitives/Point';
+import { Rectangle } from '../primitives/Rectangle';
+
+/**
+ * @class Camera - The view on the world of a scene, applied as a transform around Scene.draw.
+ * @implements {Updatable}
+ * @public
+ */
+export class Camera implements Updatable {
+  private _position: Point;
+  private _zoom: number;
+  private _rotation: number;
+  private _viewportSize: Point;
+  private _bounds?: Rectangle;
+  private _target?: { position: Point } | Point;
+  private _followOptions: CameraFollowOptions;
+  private _shakeIntensity: number;
+  private _shakeDuration: number;
+  private _shakeTime: number;
+  private _shakeOffset: Point;
+
+  /**
+   * @constructor
+   * @param {Point} [viewportSize] - The size of the view on the canvas (800x600 by default).
+   * @public
+   * @example
+   * const camera = new Camera(new Point(800, 600));
+   */
+  public constructor(viewportSize: Point = new Point(800, 600)) {
+    this._viewportSize = viewportSize;
+    this._position = new Point(viewportSize.x / 2, viewportSize.y / 2);
+    this._zoom = 1;
+    this._rotation = 0;
+    this._followOptions = {};
+    this._shakeIntensity = 0;
+    this._shakeDuration = 0;
+    this._shakeTime = 0;
+    this._shakeOffset = new Point(0, 0);
+  }
+
+  /**
+   * @get position - The point of the world at the center of the view.
+   * @returns {Point} The position of the camera.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.camera.position;
+   */
+  public get position(): Point {
+    return this._position;
+  }
+
+  /**
+   * @get zoom - The zoom of the camera, above 1 to zoom in.
+   * @returns {number} The zoom of the camera.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.camera.zoom;
+   */
+  public get zoom(): number {
+    return this._zoom;
+  }
+
+  /**
+   * @get rotation - The rotation of the camera in radians.
+   * @returns {number} The rotation of the camera.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.camera.rotation;
+   */
+  public get rotation(): number {
+    return this._rotation;
+  }
+
+  /**
+   * @get viewportSize - The size of the view on the canvas.
+   * @returns {Point} The size of the view.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.camera.viewportSize;
+   */
+  public get viewportSize(): Point {
+    return this._viewportSize;
+  }
+
+  /**
+   * @get bounds - The area of the world the view is kept in.
+   * @returns {Rectangle | undefined} The bounds of the camera.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.camera.bounds;
+   */
+  public get bounds(): Rectangle | undefined {
+    return this._bounds;
+  }
+
+  /**
+   * @get visibleArea - The area of the world in the view, without rotation.
+   * @returns {Rectangle} The visible area.
+   * @public
+   * @example
+   * const area = ServiceContainer.GameCanvas.camera.visibleArea;
+   * if (enemy.position.isInRectangle(area)) enemy.draw(ctx);
+   */
+  public get visibleArea(): Rectangle {
+    const size = new Point(
+      this._viewportSize.x / this._zoom,
+      this._viewportSize.y / this._zoom
+    );
+    return new Rectangle(
+      new Point(this._position.x - size.x / 2, this._position.y - size.y / 2),
+      size
+    );
+  }
+
+  /**
+   * @get isShaking - Whether the camera is shaking.
+   * @returns {boolean} True if the camera is shaking.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.camera.isShaking;
+   */
+  public get isShaking(): boolean {
+    return this._shakeTime < this._shakeDuration;
+  }
+
+  /**
+   * @method setPosition - Moves the center of the view to a point of the world.
+   * @param {Point} position - The new position of the camera.
+   * @returns {Camera} The instance of the Camera class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.camera.setPosition(new Point(400, 300));
+   */
+  public setPosition(position: Point): Camera {
+    this._position = position.clone();
+    this._clamp();
+    return this;
+  }
+
+  /**
+   * @method setZoom - Sets the zoom of the camera.
+   * @param {number} zoom - The zoom, above 1 to zoom in.
+   * @returns {Camera} The instance of the Camera class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.camera.setZoom(2);
+   */
+  public setZoom(zoom: number): Camera {
+    if (zoom <= 0) throw new Error('Zoom must be greater than 0.');
+    this._zoom = zoom;
+    this._clamp();
+    return this;
+  }
+
+  /**
+   * @method setRotation - Sets the rotation of the camera.
+   * @param {number} rotation - The rotation in radians.
+   * @returns {Camera} The instance of the Camera class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.camera.setRotation(Math.PI / 8);
+   */
+  public setRotation(rotation: number): Camera {
+    this._rotation = rotation;
+    return this;
+  }
+
+  /**
+   * @method setViewportSize - Sets the size of the view on the canvas.
+   * @param {Point} size - The size of the view.
+   * @returns {Camera} The instance of the Camera class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.camera.setViewportSize(new Point(400, 300));
+   */
+  public setViewportSize(size: Point): Camera {
+    this._viewportSize = size.clone();
+    this._clamp();
+    return this;
+  }
+
+  /**
+   * @method setBounds - Keeps the view inside an area of the world.
+   * @param {Rectangle} [bounds] - The area, or nothing to remove the bounds.
+   * @returns {Camera} The instance of the Camera class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.camera.setBounds(
+   *   new Rectangle(new Point(0, 0), new Point(3200, 600))
+   * );
+   */
+  public setBounds(bounds?: Rectangle): Camera {
+    this._bounds = bounds;
+    this._clamp();
+    return this;
+  }
+
+  /**
+   * @method follow - Moves the camera towards a target on each update.
+   * @param {{ position: Point } | Point} target - The object or the point to follow.
+   * @param {CameraFollowOptions} [options] - The lerp, deadzone and offset of the follow.
+   * @returns {Camera} The instance of the Camera class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.camera.follow(player, {
+   *   lerp: 0.1,
+   *   deadzone: new Point(64, 32),
+   * });
+   */
+  public follow(
+    target: { position: Point } | Point,
+    options?: CameraFollowOptions
+  ): Camera {
+    const lerp = options?.lerp ?? 1;
+    if (lerp <= 0 || lerp > 1)
+      throw new Error('Lerp must be greater than 0 and at most 1.');
+    this._target = target;
+    this._followOptions = options ?? {};
+    return this;
+  }
+
+  /**
+   * @method stopFollowing - Stops following the target.
+   * @returns {Camera} The instance of the Camera class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.camera.stopFollowing();
+   */
+  public stopFollowing(): Camera {
+    this._target = undefined;
+    return this;
+  }
+
+  /**
+   * @method shake - Shakes the camera, the shake fading out over its duration.
+   * @param {number} intensity - The maximum offset in world units.
+   * @param {number} duration - The duration in seconds.
+   * @returns {Camera} The instance of the Camera class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.camera.shake(8, 0.3);
+   */
+  public shake(intensity: number, duration: number): Camera {
+    this._shakeIntensity = intensity;
+    this._shakeDuration = duration;
+    this._shakeTime = 0;
+    return this;
+  }
+
+  /**
+   * @method update - Follows the target and updates the shake. Called by the GameLoop.
+   * @param {number} deltaTime - The time since the last frame.
+   * @returns {void}
+   * @public
+   */
+  public update(deltaTime: number): void {
+    if (this._target) this._followTarget(deltaTime);
+    this._clamp();
+
+    if (!this.isShaking) {
+      this._shakeOffset = new Point(0, 0);
+      return;
+    }
+    this._shakeTime += deltaTime;
+    const intensity =
+      this._shakeIntensity *
+      Math.max(0, 1 - this._shakeTime / this._shakeDuration);
+    this._shakeOffset = new Point(
+      (Math.random() * 2 - 1) * intensity,
+      (Math.random() * 2 - 1) * intensity
+    );
+  }
+
+  /**
+   * @method applyTransform - Transforms a context so that world coordinates are drawn in the view.
+   * @param {CanvasRenderingContext2D} context - The context to transform.
+   * @returns {void}
+   * @public
+   * @example
+   * context.save();
+   * camera.applyTransform(context);
+   * scene.draw(context);
+   * context.restore();
+   */
+  public applyTransform(context: CanvasRenderingContext2D): void {
+    context.translate(this._viewportSize.x / 2, this._viewportSize.y / 2);
+    context.rotate(-this._rotation);
+    context.scale(this._zoom, this._zoom);
+    context.translate(
+      -(this._position.x + this._shakeOffset.x),
+      -(this._position.y + this._shakeOffset.y)
+    );
+  }
+
+  /**
+   * @method worldToScreen - Converts a point of the world to a point of the view.
+   * @param {Point} point - The point of the world.
+   * @returns {Point} The point in the view.
+   * @public
+   * @example
+   * const screenPosition = camera.worldToScreen(player.position);
+   */
+  public worldToScreen(point: Point): Point {
+    const x = (point.x - this._position.x - this._shakeOffset.x) * this._zoom;
+    const y = (point.y - this._position.y - this._shakeOffset.y) * this._zoom;
+    const cos = Math.cos(-this._rotation);
+    const sin = Math.sin(-this._rotation);
+    return new Point(
+      x * cos - y * sin + this._viewportSize.x / 2,
+      x * sin + y * cos + this._viewportSize.y / 2
+    );
+  }
+
+  /**
+   * @method screenToWorld - Converts a point of the view to a point of the world.
+   * @param {Point} point - The point in the view.
+   * @returns {Point} The point of the world.
+   * @public
+   * @example
+   * const worldPosition = camera.screenToWorld(ServiceContainer.Mouse.position);
+   */
+  public screenToWorld(point: Point): Point {
+    const x = point.x - this._viewportSize.x / 2;
+    const y = point.y - this._viewportSize.y / 2;
+    const cos = Math.cos(this._rotation);
+    const sin = Math.sin(this._rotation);
+    return new Point(
+      (x * cos - y * sin) / this._zoom + this._position.x + this._shakeOffset.x,
+      (x * sin + y * cos) / this._zoom + this._position.y + this._shakeOffset.y
+    );
+  }
+
+  /**
+   * @method _followTarget - Moves the camera towards its target.
+   * @param {number} deltaTime - The time since the last frame.
+   * @returns {void}
+   * @private
+   */
+  private _followTarget(deltaTime: number): void {
+    const target = this._target as { position: Point } | Point;
+    const position = target instanceof Point ? target : target.position;
+    const offset = this._followOptions.offset ?? new Point(0, 0);
+    const deadzone = this._followOptions.deadzone ?? new Point(0, 0);
+    const goal = position.add(offset);
+
+    let dx = goal.x - this._position.x;
+    let dy = goal.y - this._position.y;
+    if (Math.abs(dx) <= deadzone.x / 2) dx = 0;
+    else dx -= (Math.sign(dx) * deadzone.x) / 2;
+    if (Math.abs(dy) <= deadzone.y / 2) dy = 0;
+    else dy -= (Math.sign(dy) * deadzone.y) / 2;
+
+    // Frame rate independent smoothing: lerp is the part covered each 1/60 s.
+    const lerp = this._followOptions.lerp ?? 1;
+    const factor = lerp >= 1 ? 1 : 1 - Math.pow(1 - lerp, deltaTime * 60);
+    this._position = new Point(
+      this._position.x + dx * factor,
+      this._position.y + dy * factor
+    );
+  }
+
+  /**
+   * @method _clamp - Keeps the view inside the bounds.
+   * @returns {void}
+   * @private
+   */
+  private _clamp(): void {
+    if (!this._bounds) return;
+    const half = new Point(
+      this._viewportSize.x / this._zoom / 2,
+      this._viewportSize.y / this._zoom / 2
+    );
+    const { position, size } = this._bounds;
+    // A view larger than the bounds is centered on them.
+    const clampAxis = (value: number, min: number, max: number) =>
+      min > max ? (min + max) / 2 : Math.min(Math.max(value, min), max);
+    this._position = new Point(
+      clampAxis(
+        this._position.x,
+        position.x + half.x,
+        position.x + size.x - half.x
+      ),
+      clampAxis(
+        this._position.y,
+        position.y + half.y,
+        position.y + size.y - half.y
+      )
+    );
+  }
+}
@@ -0,0 +1,185 @@
+import { ViewportOptions } from '../interfaces/ViewportOptions';
+import { Point } from '../primitives/Point';
+import { Rectangle } from '../primitives/Rectangle';
+import { Camera } from './Camera';
+
+/**
+ * @class Viewport - A region of the canvas showing the scene through its own camera.
+ * @public
+ */
+export class Viewport {
+  private _area: Rectangle;
+  private _camera: Camera;
+  private _options: ViewportOptions;
+
+  /**
+   * @constructor
+   * @param {Rectangle} area - The region of the canvas, in canvas units.
+   * @param {Camera} [camera] - The camera of the viewport, a view larger than the area is scaled down like a minimap.
+   * @param {ViewportOptions} [options] - The options of the viewport.
+   * @public
+   * @example
+   * const left = new Viewport(new Rectangle(new Point(0, 0), new Point(400, 600)));
+   * const minimap = new Viewport(
+   *   new Rectangle(new Point(600, 0), new Point(200, 150)),
+   *   new Camera(new Point(3200, 2400)),
+   *   { backgroundColor: '#000000' }
+   * );
+   */
+  public constructor(
+    area: Rectangle,
+    camera?: Camera,
+    options: ViewportOptions = {}
+  ) {
+    this._area = area;
+    this._camera = camera ?? new Camera(area.size.clone());
+    this._options = options;
+  }
+
+  /**
+   * @get area - The region of the canvas.
+   * @returns {Rectangle} The area of the viewport.
+   * @public
+   * @example
+   * viewport.area;
+   */
+  public get area(): Rectangle {
+    return this._area;
+  }
+
+  /**
+   * @get camera - The camera of the viewport.
+   * @returns {Camera} The camera of the viewport.
+   * @public
+   * @example
+   * viewport.camera.follow(player);
+   */
+  public get camera(): Camera {
+    return this._camera;
+  }
+
+  /**
+   * @get scale - The scale from the view of the camera to the area.
+   * @returns {Point} The scale on each axis.
+   * @public
+   * @example
+   * viewport.scale;
+   */
+  public get scale(): Point {
+    return this._area.size.divide(this._camera.viewportSize);
+  }
+
+  /**
+   * @get isVisible - Whether the viewport is drawn.
+   * @returns {boolean} True if the viewport is drawn.
+   * @public
+   * @example
+   * viewport.isVisible;
+   */
+  public get isVisible(): boolean {
+    return this._options.isVisible ?? true;
+  }
+
+  /**
+   * @method setArea - Moves or resizes the viewport.
+   * @param {Rectangle} area - The new region of the canvas.
+   * @returns {Viewport} The instance of the Viewport class.
+   * @public
+   * @example
+   * viewport.setArea(new Rectangle(new Point(0, 0), new Point(800, 300)));
+   */
+  public setArea(area: Rectangle): Viewport {
+    this._area = area;
+    return this;
+  }
+
+  /**
+   * @method setOptions - Sets the options of the viewport.
+   * @param {ViewportOptions} options - The new options.
+   * @returns {Viewport} The instance of the Viewport class.
+   * @public
+   * @example
+   * viewport.setOptions({ isVisible: false });
+   */
+  public setOptions(options: ViewportOptions): Viewport {
+    this._options = { ...this._options, ...options };
+    return this;
+  }
+
+  /**
+   * @method containsPoint - Checks if a point of the canvas is in the viewport.
+   * @param {Point} point - The point, in canvas units.
+   * @returns {boolean} True if the point is in the area of the viewport.
+   * @public
+   * @example
+   * viewport.containsPoint(ServiceContainer.Mouse.position);
+   */
+  public containsPoint(point: Point): boolean {
+    return this.isVisible && this._area.isContainsPoint(point);
+  }
+
+  /**
+   * @method screenToWorld - Converts a point of the canvas to a point of the world seen by the viewport.
+   * @param {Point} point - The point, in canvas units.
+   * @returns {Point} The point of the world.
+   * @public
+   * @example
+   * viewport.screenToWorld(ServiceContainer.Mouse.position);
+   */
+  public screenToWorld(point: Point): Point {
+    return this._camera.screenToWorld(
+      point.subtract(this._area.position).divide(this.scale)
+    );
+  }
+
+  /**
+   * @method worldToScreen - Converts a point of the world to a point of the canvas.
+   * @param {Point} point - The point of the world.
+   * @returns {Point} The point, in canvas units.
+   * @public
+   * @example
+   * viewport.worldToScreen(player.position);
+   */
+  public worldToScreen(point: Point): Point {
+    return this._camera
+      .worldToScreen(point)
+      .multiply(this.scale)
+      .add(this._area.position);
+  }
+
+  /**
+   * @method draw - Draws the world through the camera in the area of the viewport.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {(context: CanvasRenderingContext2D) => void} drawWorld - The function drawing the world.
+   * @returns {void}
+   * @public
+   * @example
+   * viewport.draw(context, (ctx) => sceneManager.draw(ctx));
+   */
+  public draw(
+    context: CanvasRenderingContext2D,
+    drawWorld: (context: CanvasRenderingContext2D) => void
+  ): void {
+    if (!this.isVisible) return;
+    const { position, size } = this._area;
+    const scale = this.scale;
+    context.save();
+    try {
+      if (this._options.clip ?? true) {
+        context.beginPath();
+        context.rect(position.x, position.y, size.x, size.y);
+        context.clip();
+      }
+      if (this._options.backgroundColor) {
+        context.fillStyle = this._options.backgroundColor;
+        context.fillRect(position.x, position.y, size.x, size.y);
+      }
+      context.translate(position.x, position.y);
+      context.scale(scale.x, scale.y);
+      this._camera.applyTransform(context);
+      drawWorld(context);
+    } finally {
+      context.restore();
+    }
+  }
+}
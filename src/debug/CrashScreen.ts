@@ -0,0 +1,204 @@
+import { GameCanvas } from '../GameCanvas';
+import { LoopPhase } from '../enums/LoopPhase';
+import { MouseButton } from '../enums/MouseButton';
+import { Mouse } from '../inputs/Mouse';
+import { Keyboard } from '../inputs/Keyboard';
+import { Touch } from '../inputs/Touch';
+import { Drawable } from '../interfaces/Drawable';
+import { Updatable } from '../interfaces/Updatable';
+import { Point } from '../primitives/Point';
+import { Rectangle } from '../primitives/Rectangle';
+import { drawText } from '../ui/text';
+
+const MAX_STACK_LINES = 12;
+
+/**
+ * @class CrashScreen - Overlay showing an error thrown in the game loop, with a restart action.
+ * @implements {Updatable}
+ * @implements {Drawable}
+ * @public
+ */
+export class CrashScreen implements Updatable, Drawable {
+  private _onRestart: () => void;
+  private _gameCanvas: GameCanvas;
+  private _error?: unknown;
+  private _phase?: LoopPhase;
+
+  /**
+   * @constructor
+   * @param {() => void} onRestart - The function called when the user asks to restart.
+   * @param {GameCanvas} [gameCanvas] - The canvas the crash screen is drawn on (the default instance by default).
+   * @public
+   * @example
+   * const crashScreen = new CrashScreen(() => ServiceContainer.SceneManager.restartScene());
+   */
+  public constructor(
+    onRestart: () => void,
+    gameCanvas: GameCanvas = GameCanvas.instance
+  ) {
+    this._onRestart = onRestart;
+    this._gameCanvas = gameCanvas;
+  }
+
+  /**
+   * @get isVisible - Whether an error is shown.
+   * @returns {boolean} True if an error is shown.
+   * @public
+   * @example
+   * crashScreen.isVisible;
+   */
+  public get isVisible(): boolean {
+    return this._phase !== undefined;
+  }
+
+  /**
+   * @method show - Shows an error.
+   * @param {unknown} error - The error to show.
+   * @param {LoopPhase} phase - The phase of the loop the error was thrown in.
+   * @returns {CrashScreen} The instance of the CrashScreen class.
+   * @public
+   * @example
+   * crashScreen.show(new Error('Oops'), LoopPhase.Update);
+   */
+  public show(error: unknown, phase: LoopPhase): CrashScreen {
+    if (this.isVisible) return this;
+    this._error = error;
+    this._phase = phase;
+    return this;
+  }
+
+  /**
+   * @method hide - Hides the shown error.
+   * @returns {CrashScreen} The instance of the CrashScreen class.
+   * @public
+   * @example
+   * crashScreen.hide();
+   */
+  public hide(): CrashScreen {
+    this._error = undefined;
+    this._phase = undefined;
+    return this;
+  }
+
+  /**
+   * @method update - Restarts when the restart button is clicked or the R key is pressed, read from the inputs of the game running the frame.
+   * @param {number} deltaTime - The time since the last frame.
+   * @returns {void}
+   * @public
+   * @example
+   * crashScreen.update(deltaTime);
+   */
+  public update(deltaTime: number): void {
+    if (!this.isVisible) return;
+    const button = this._getButtonArea();
+    const isClicked =
+      (Mouse.instance.isJustUp(MouseButton.Left) &&
+        button.isContainsPoint(Mouse.instance.position)) ||
+      (Touch.instance.isClicked &&
+        button.isContainsPoint(Touch.instance.position));
+    if (!isClicked && !Keyboard.instance.isJustDown('KeyR')) return;
+    this.hide();
+    this._onRestart();
+  }
+
+  /**
+   * @method draw - Draws the error and the restart button.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @returns {void}
+   * @public
+   * @example
+   * crashScreen.draw(context);
+   */
+  public draw(context: CanvasRenderingContext2D): void {
+    if (!this.isVisible) return;
+    const size = this._gameCanvas.baseSize;
+    const error = this._error;
+    const message = error instanceof Error ? error.message : String(error);
+    const stack =
+      error instanceof Error && error.stack
+        ? error.stack.split('\n').slice(1, MAX_STACK_LINES + 1)
+        : [];
+
+    context.save();
+    context.fillStyle = 'rgba(32, 0, 0, 0.9)';
+    context.fillRect(0, 0, size.x, size.y);
+
+    drawText(
+      context,
+      `Crashed during ${this._getPhaseName()}`,
+      new Point(16, 32),
+      {
+        fillColor: '#ff6666',
+        fontName: 'monospace',
+        fontSize: '20px',
+      }
+    );
+    drawText(context, message, new Point(16, 60), {
+      fillColor: '#ffffff',
+      fontName: 'monospace',
+      fontSize: '14px',
+    });
+    stack.forEach((line, index) =>
+      drawText(context, line.trim(), new Point(16, 88 + index * 14), {
+        fillColor: '#cccccc',
+        fontName: 'monospace',
+        fontSize: '11px',
+      })
+    );
+
+    const button = this._getButtonArea();
+    button.setOptions({ fillColor: '#ffffff', radius: 4 }).draw(context);
+    drawText(
+      context,
+      'Restart scene (R)',
+      new Point(button.position.x + button.size.x / 2, button.position.y + 25),
+      {
+        fillColor: '#200000',
+        align: 'center',
+        fontName: 'monospace',
+        fontSize: '14px',
+      }
+    );
+    context.restore();
+  }
+
+  /**
+   * @method _getButtonArea - Returns the area of the restart button.
+   * @returns {Rectangle} The area of the restart button.
+   * @private
+   */
+  private _getButtonArea(): Rectangle {
+    const size = this._gameCanvas.baseSize;
+    const buttonSize = new Point(200, 40);
+    return new Rectangle(
+      new Point((size.x - buttonSize.x) / 2, size.y - buttonSize.y - 24),
+      buttonSize
+    );
+  }
+
+  /**
+   * @method _getPhaseName - Returns the readable name of the phase of the error.
+   * @returns {string} The name of the phase.
+   * @private
+   */
+  private _getPhaseName(): string {
+    switch (this._phase) {
+      case LoopPhase.Input:
+        return 'input';
+      case LoopPhase.EarlyUpdate:
+        return 'early update';
+      case LoopPhase.Update:
+        return 'update';
+      case LoopPhase.LateUpdate:
+        return 'late update';
+      case LoopPhase.PreRender:
+        return 'pre-render';
+      case LoopPhase.Render:
+        return 'render';
+      case LoopPhase.PostRender:
+        return 'post-render';
+      default:
+        return 'UI';
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { PostEffect } from './PostEffect';
+
+/**
+ * @class BloomEffect - Adds a blurred glow of the bright parts over the frame.
+ * @extends {PostEffect}
+ * @public
+ */
+export class BloomEffect extends PostEffect {
+  private _intensity: number;
+  private _radius: number;
+  private _threshold: number;
+
+  /**
+   * @constructor
+   * @param {number} [intensity=0.5] - The opacity of the glow, between 0 and 1.
+   * @param {number} [radius=8] - The radius of the blur of the glow, in pixels of the frame.
+   * @param {number} [threshold=0.6] - The brightness kept in the glow, lower values keep only the bright parts.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.addEffect(new BloomEffect(0.4, 12));
+   */
+  public constructor(
+    intensity: number = 0.5,
+    radius: number = 8,
+    threshold: number = 0.6
+  ) {
+    super();
+    if (intensity < 0 || intensity > 1)
+      throw new Error('Effect intensity must be between 0 and 1.');
+    this._intensity = intensity;
+    this._radius = radius;
+    this._threshold = threshold;
+  }
+
+  /**
+   * @get intensity - The opacity of the glow.
+   * @returns {number} The intensity, between 0 and 1.
+   * @public
+   * @example
+   * effect.intensity;
+   */
+  public get intensity(): number {
+    return this._intensity;
+  }
+
+  /**
+   * @method setIntensity - Sets the opacity of the glow.
+   * @param {number} intensity - The intensity, between 0 and 1.
+   * @returns {BloomEffect} The instance of the BloomEffect class.
+   * @public
+   * @example
+   * effect.setIntensity(0.8);
+   */
+  public setIntensity(intensity: number): BloomEffect {
+    if (intensity < 0 || intensity > 1)
+      throw new Error('Effect intensity must be between 0 and 1.');
+    this._intensity = intensity;
+    return this;
+  }
+
+  /**
+   * @method apply - Draws the frame, then adds a blurred and darkened copy of it.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {HTMLCanvasElement} source - The frame before the effect.
+   * @returns {void}
+   * @public
+   */
+  public apply(
+    context: CanvasRenderingContext2D,
+    source: HTMLCanvasElement
+  ): void {
+    context.drawImage(source, 0, 0);
+    context.globalCompositeOperation = 'lighter';
+    context.globalAlpha = this._intensity;
+    context.filter = `blur(${this._radius}px) brightness(${this._threshold}) contrast(2)`;
+    context.drawImage(source, 0, 0);
+  }
+}
@@ -0,0 +1,49 @@
+import { FilterEffect } from './FilterEffect';
+
+/**
+ * @class BlurEffect - Blurs the frame, like for a pause menu.
+ * @extends {FilterEffect}
+ * @public
+ */
+export class BlurEffect extends FilterEffect {
+  private _radius: number;
+
+  /**
+   * @constructor
+   * @param {number} [radius=4] - The radius of the blur, in pixels of the frame.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.scope.addEffect(new BlurEffect(2));
+   */
+  public constructor(radius: number = 4) {
+    super('none');
+    this._radius = 0;
+    this.setRadius(radius);
+  }
+
+  /**
+   * @get radius - The radius of the blur.
+   * @returns {number} The radius, in pixels of the frame.
+   * @public
+   * @example
+   * effect.radius;
+   */
+  public get radius(): number {
+    return this._radius;
+  }
+
+  /**
+   * @method setRadius - Sets the radius of the blur.
+   * @param {number} radius - The radius, in pixels of the frame.
+   * @returns {BlurEffect} The instance of the BlurEffect class.
+   * @public
+   * @example
+   * effect.setRadius(8);
+   */
+  public setRadius(radius: number): BlurEffect {
+    if (radius < 0) throw new Error('Blur radius cannot be negative.');
+    this._radius = radius;
+    this._filter = `blur(${radius}px)`;
+    return this;
+  }
+}
@@ -0,0 +1,86 @@
+import { PostEffect } from './PostEffect';
+
+/**
+ * @class ChromaticAberrationEffect - Shifts the red and blue channels of the frame apart.
+ * @extends {PostEffect}
+ * @public
+ */
+export class ChromaticAberrationEffect extends PostEffect {
+  private _offset: number;
+
+  /**
+   * @constructor
+   * @param {number} [offset=2] - The horizontal shift of the red and blue channels, in pixels of the frame.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.addEffect(new ChromaticAberrationEffect(3));
+   */
+  public constructor(offset: number = 2) {
+    super();
+    this._offset = Math.round(offset);
+  }
+
+  /**
+   * @get offset - The shift of the red and blue channels.
+   * @returns {number} The offset, in pixels of the frame.
+   * @public
+   * @example
+   * effect.offset;
+   */
+  public get offset(): number {
+    return this._offset;
+  }
+
+  /**
+   * @get isActive - Whether the channels are shifted and the effect enabled.
+   * @returns {boolean} True if the effect is applied this frame.
+   * @public
+   * @example
+   * effect.isActive;
+   */
+  public get isActive(): boolean {
+    return this._isEnabled && this._offset !== 0;
+  }
+
+  /**
+   * @method setOffset - Sets the shift of the red and blue channels.
+   * @param {number} offset - The offset, in pixels of the frame.
+   * @returns {ChromaticAberrationEffect} The instance of the ChromaticAberrationEffect class.
+   * @public
+   * @example
+   * effect.setOffset(4);
+   */
+  public setOffset(offset: number): ChromaticAberrationEffect {
+    this._offset = Math.round(offset);
+    return this;
+  }
+
+  /**
+   * @method apply - Draws the frame, reading red on the left and blue on the right of each pixel.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {HTMLCanvasElement} source - The frame before the effect.
+   * @returns {void}
+   * @public
+   */
+  public apply(
+    context: CanvasRenderingContext2D,
+    source: HTMLCanvasElement
+  ): void {
+    const { width, height } = source;
+    context.drawImage(source, 0, 0);
+    const frame = context.getImageData(0, 0, width, height);
+    const input = frame.data.slice();
+    const output = frame.data;
+    const offset = this._offset;
+    for (let y = 0; y < height; y++) {
+      const row = y * width;
+      for (let x = 0; x < width; x++) {
+        const red = Math.min(Math.max(x - offset, 0), width - 1);
+        const blue = Math.min(Math.max(x + offset, 0), width - 1);
+        output[(row + x) * 4] = input[(row + red) * 4];
+        output[(row + x) * 4 + 2] = input[(row + blue) * 4 + 2];
+      }
+    }
+    context.putImageData(frame, 0, 0);
+  }
+}
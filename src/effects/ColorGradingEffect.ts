@@ -0,0 +1,57 @@
+import { ColorGradingOptions } from '../interfaces/ColorGradingOptions';
+import { FilterEffect } from './FilterEffect';
+
+/**
+ * @class ColorGradingEffect - Adjusts the brightness, contrast, saturation and hue of the frame.
+ * @extends {FilterEffect}
+ * @public
+ */
+export class ColorGradingEffect extends FilterEffect {
+  private _options: ColorGradingOptions;
+
+  /**
+   * @constructor
+   * @param {ColorGradingOptions} [options] - The adjustments of the frame.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.addEffect(
+   *   new ColorGradingEffect({ contrast: 1.2, saturation: 0.8, hueRotate: -10 })
+   * );
+   */
+  public constructor(options: ColorGradingOptions = {}) {
+    super('none');
+    this._options = {};
+    this.setOptions(options);
+  }
+
+  /**
+   * @get options - The adjustments of the frame.
+   * @returns {ColorGradingOptions} The options of the effect.
+   * @public
+   * @example
+   * effect.options;
+   */
+  public get options(): ColorGradingOptions {
+    return this._options;
+  }
+
+  /**
+   * @method setOptions - Changes some adjustments of the frame, keeping the others.
+   * @param {ColorGradingOptions} options - The adjustments to change.
+   * @returns {ColorGradingEffect} The instance of the ColorGradingEffect class.
+   * @public
+   * @example
+   * effect.setOptions({ brightness: 0.6 });
+   */
+  public setOptions(options: ColorGradingOptions): ColorGradingEffect {
+    this._options = { ...this._options, ...options };
+    const { brightness, contrast, saturation, hueRotate } = this._options;
+    this._filter = [
+      `brightness(${brightness ?? 1})`,
+      `contrast(${contrast ?? 1})`,
+      `saturate(${saturation ?? 1})`,
+      `hue-rotate(${hueRotate ?? 0}deg)`,
+    ].join(' ');
+    return this;
+  }
+}
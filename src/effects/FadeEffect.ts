@@ -0,0 +1,161 @@
+import { PostEffect } from './PostEffect';
+
+/**
+ * @class FadeEffect - Fades the frame to a color and back.
+ * @extends {PostEffect}
+ * @public
+ */
+export class FadeEffect extends PostEffect {
+  private _color: string;
+  private _amount: number;
+  private _target: number;
+  private _speed: number;
+
+  /**
+   * @constructor
+   * @param {string} [color='#000000'] - The color the frame fades to.
+   * @public
+   * @example
+   * const fade = ServiceContainer.SceneManager.scope.addEffect(new FadeEffect());
+   * fade.fadeOut(1);
+   */
+  public constructor(color: string = '#000000') {
+    super();
+    this._color = color;
+    this._amount = 0;
+    this._target = 0;
+    this._speed = 0;
+  }
+
+  /**
+   * @get amount - How much the frame is covered by the color.
+   * @returns {number} The amount, between 0 and 1.
+   * @public
+   * @example
+   * fade.amount;
+   */
+  public get amount(): number {
+    return this._amount;
+  }
+
+  /**
+   * @get isFading - Whether a fade is running.
+   * @returns {boolean} True if the amount is moving.
+   * @public
+   * @example
+   * fade.isFading;
+   */
+  public get isFading(): boolean {
+    return this._amount !== this._target;
+  }
+
+  /**
+   * @get isActive - Whether the frame is covered and the effect enabled.
+   * @returns {boolean} True if the effect is applied this frame.
+   * @public
+   * @example
+   * fade.isActive;
+   */
+  public get isActive(): boolean {
+    return this._isEnabled && this._amount > 0;
+  }
+
+  /**
+   * @method setColor - Sets the color the frame fades to.
+   * @param {string} color - The color.
+   * @returns {FadeEffect} The instance of the FadeEffect class.
+   * @public
+   * @example
+   * fade.setColor('#ffffff');
+   */
+  public setColor(color: string): FadeEffect {
+    this._color = color;
+    return this;
+  }
+
+  /**
+   * @method setAmount - Covers the frame immediately, stopping the running fade.
+   * @param {number} amount - The amount, between 0 and 1.
+   * @returns {FadeEffect} The instance of the FadeEffect class.
+   * @public
+   * @example
+   * fade.setAmount(1).fadeIn(0.5);
+   */
+  public setAmount(amount: number): FadeEffect {
+    if (amount < 0 || amount > 1)
+      throw new Error('Effect amount must be between 0 and 1.');
+    this._amount = amount;
+    this._target = amount;
+    return this;
+  }
+
+  /**
+   * @method fadeOut - Fades the frame to the color.
+   * @param {number} [duration=0.5] - The duration of a full fade in second.
+   * @returns {FadeEffect} The instance of the FadeEffect class.
+   * @public
+   * @example
+   * fade.fadeOut(1);
+   */
+  public fadeOut(duration: number = 0.5): FadeEffect {
+    return this._fadeTo(1, duration);
+  }
+
+  /**
+   * @method fadeIn - Fades the color away from the frame.
+   * @param {number} [duration=0.5] - The duration of a full fade in second.
+   * @returns {FadeEffect} The instance of the FadeEffect class.
+   * @public
+   * @example
+   * fade.fadeIn(1);
+   */
+  public fadeIn(duration: number = 0.5): FadeEffect {
+    return this._fadeTo(0, duration);
+  }
+
+  /**
+   * @method update - Advances the fade.
+   * @param {number} deltaTime - The time since the last update in second.
+   * @returns {void}
+   * @public
+   */
+  public update(deltaTime: number): void {
+    const step = this._speed * deltaTime;
+    if (this._amount < this._target)
+      this._amount = Math.min(this._amount + step, this._target);
+    else if (this._amount > this._target)
+      this._amount = Math.max(this._amount - step, this._target);
+  }
+
+  /**
+   * @method apply - Draws the frame, then the color over it.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {HTMLCanvasElement} source - The frame before the effect.
+   * @returns {void}
+   * @public
+   */
+  public apply(
+    context: CanvasRenderingContext2D,
+    source: HTMLCanvasElement
+  ): void {
+    context.drawImage(source, 0, 0);
+    context.globalAlpha = this._amount;
+    context.fillStyle = this._color;
+    context.fillRect(0, 0, source.width, source.height);
+  }
+
+  /**
+   * @method _fadeTo - Starts a fade to an amount.
+   * @param {number} target - The amount at the end of the fade.
+   * @param {number} duration - The duration of a full fade in second.
+   * @returns {FadeEffect} The instance of the FadeEffect class.
+   * @private
+   */
+  private _fadeTo(target: number, duration: number): FadeEffect {
+    if (duration < 0) throw new Error('Fade duration cannot be negative.');
+    this._target = target;
+    if (duration === 0) this._amount = target;
+    else this._speed = 1 / duration;
+    return this;
+  }
+}
@@ -0,0 +1,61 @@
+import { PostEffect } from './PostEffect';
+
+/**
+ * @class FilterEffect - Applies a CSS filter to the frame, like 'contrast(1.2)'.
+ * @extends {PostEffect}
+ * @public
+ */
+export class FilterEffect extends PostEffect {
+  protected _filter: string;
+
+  /**
+   * @constructor
+   * @param {string} filter - The CSS filter of the canvas context.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.addEffect(new FilterEffect('invert(1)'));
+   */
+  public constructor(filter: string) {
+    super();
+    this._filter = filter;
+  }
+
+  /**
+   * @get filter - The CSS filter of the effect.
+   * @returns {string} The filter.
+   * @public
+   * @example
+   * effect.filter;
+   */
+  public get filter(): string {
+    return this._filter;
+  }
+
+  /**
+   * @method setFilter - Sets the CSS filter of the effect.
+   * @param {string} filter - The CSS filter of the canvas context.
+   * @returns {FilterEffect} The instance of the FilterEffect class.
+   * @public
+   * @example
+   * effect.setFilter('contrast(1.5)');
+   */
+  public setFilter(filter: string): FilterEffect {
+    this._filter = filter;
+    return this;
+  }
+
+  /**
+   * @method apply - Draws the frame through the filter.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {HTMLCanvasElement} source - The frame before the effect.
+   * @returns {void}
+   * @public
+   */
+  public apply(
+    context: CanvasRenderingContext2D,
+    source: HTMLCanvasElement
+  ): void {
+    context.filter = this._filter;
+    context.drawImage(source, 0, 0);
+  }
+}
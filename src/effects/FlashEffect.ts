@@ -0,0 +1,81 @@
+import { PostEffect } from './PostEffect';
+
+/**
+ * @class FlashEffect - Covers the frame with a color fading out, like when the player is hit.
+ * @extends {PostEffect}
+ * @public
+ */
+export class FlashEffect extends PostEffect {
+  private _color: string;
+  private _duration: number;
+  private _time: number;
+
+  /**
+   * @constructor
+   * @public
+   * @example
+   * const flash = ServiceContainer.GameCanvas.addEffect(new FlashEffect());
+   * flash.flash('#ff0000', 0.3);
+   */
+  public constructor() {
+    super();
+    this._color = '#ffffff';
+    this._duration = 0;
+    this._time = 0;
+  }
+
+  /**
+   * @get isActive - Whether a flash is running and the effect enabled.
+   * @returns {boolean} True if the effect is applied this frame.
+   * @public
+   * @example
+   * effect.isActive;
+   */
+  public get isActive(): boolean {
+    return this._isEnabled && this._time < this._duration;
+  }
+
+  /**
+   * @method flash - Starts a flash, replacing the running one.
+   * @param {string} [color='#ffffff'] - The color of the flash.
+   * @param {number} [duration=0.2] - The duration of the flash in second.
+   * @returns {FlashEffect} The instance of the FlashEffect class.
+   * @public
+   * @example
+   * flash.flash('#ff0000', 0.3);
+   */
+  public flash(color: string = '#ffffff', duration: number = 0.2): FlashEffect {
+    if (duration < 0) throw new Error('Flash duration cannot be negative.');
+    this._color = color;
+    this._duration = duration;
+    this._time = 0;
+    return this;
+  }
+
+  /**
+   * @method update - Advances the flash.
+   * @param {number} deltaTime - The time since the last update in second.
+   * @returns {void}
+   * @public
+   */
+  public update(deltaTime: number): void {
+    if (this._time < this._duration) this._time += deltaTime;
+  }
+
+  /**
+   * @method apply - Draws the frame, then the color of the flash over it.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {HTMLCanvasElement} source - The frame before the effect.
+   * @returns {void}
+   * @public
+   */
+  public apply(
+    context: CanvasRenderingContext2D,
+    source: HTMLCanvasElement
+  ): void {
+    context.drawImage(source, 0, 0);
+    context.globalAlpha = Math.max(1 - this._time / this._duration, 0);
+    context.fillStyle = this._color;
+    context.fillRect(0, 0, source.width, source.height);
+  }
+}
@@ -0,0 +1,50 @@
+import { FilterEffect } from './FilterEffect';
+
+/**
+ * @class GrayscaleEffect - Removes the colors of the frame.
+ * @extends {FilterEffect}
+ * @public
+ */
+export class GrayscaleEffect extends FilterEffect {
+  private _amount: number;
+
+  /**
+   * @constructor
+   * @param {number} [amount=1] - The amount of the effect, between 0 and 1.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.scope.addEffect(new GrayscaleEffect());
+   */
+  public constructor(amount: number = 1) {
+    super('none');
+    this._amount = 0;
+    this.setAmount(amount);
+  }
+
+  /**
+   * @get amount - The amount of the effect.
+   * @returns {number} The amount, between 0 and 1.
+   * @public
+   * @example
+   * effect.amount;
+   */
+  public get amount(): number {
+    return this._amount;
+  }
+
+  /**
+   * @method setAmount - Sets the amount of the effect.
+   * @param {number} amount - The amount, between 0 and 1.
+   * @returns {GrayscaleEffect} The instance of the GrayscaleEffect class.
+   * @public
+   * @example
+   * effect.setAmount(0.5);
+   */
+  public setAmount(amount: number): GrayscaleEffect {
+    if (amount < 0 || amount > 1)
+      throw new Error('Effect amount must be between 0 and 1.');
+    this._amount = amount;
+    this._filter = `grayscale(${amount})`;
+    return this;
+  }
+}
@@ -0,0 +1,123 @@
+import { PostEffect } from './PostEffect';
+
+/**
+ * @class LutEffect - Grades the colors of the frame with a lookup table image.
+ * @extends {PostEffect}
+ * @public
+ */
+export class LutEffect extends PostEffect {
+  private _image: HTMLImageElement;
+  private _size: number;
+  private _intensity: number;
+  private _table?: Uint8ClampedArray;
+
+  /**
+   * @constructor
+   * @param {HTMLImageElement} image - The lookup table, a strip of size blue slices of size × size pixels, red on x and green on y.
+   * @param {number} [size=16] - The number of steps of each channel in the table.
+   * @param {number} [intensity=1] - The blend between the frame and the graded frame, between 0 and 1.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.addEffect(
+   *   new LutEffect(ServiceContainer.AssetStore.getImage('night-lut'))
+   * );
+   */
+  public constructor(
+    image: HTMLImageElement,
+    size: number = 16,
+    intensity: number = 1
+  ) {
+    super();
+    if (size < 2) throw new Error('LUT size must be at least 2.');
+    this._image = image;
+    this._size = size;
+    this._intensity = 1;
+    this.setIntensity(intensity);
+  }
+
+  /**
+   * @get isActive - Whether the lookup table image is loaded and the effect enabled.
+   * @returns {boolean} True if the effect is applied this frame.
+   * @public
+   * @example
+   * effect.isActive;
+   */
+  public get isActive(): boolean {
+    return this._isEnabled && this._intensity > 0 && this._image.complete;
+  }
+
+  /**
+   * @get intensity - The blend between the frame and the graded frame.
+   * @returns {number} The intensity, between 0 and 1.
+   * @public
+   * @example
+   * effect.intensity;
+   */
+  public get intensity(): number {
+    return this._intensity;
+  }
+
+  /**
+   * @method setIntensity - Sets the blend between the frame and the graded frame.
+   * @param {number} intensity - The intensity, between 0 and 1.
+   * @returns {LutEffect} The instance of the LutEffect class.
+   * @public
+   * @example
+   * effect.setIntensity(0.5);
+   */
+  public setIntensity(intensity: number): LutEffect {
+    if (intensity < 0 || intensity > 1)
+      throw new Error('Effect intensity must be between 0 and 1.');
+    this._intensity = intensity;
+    return this;
+  }
+
+  /**
+   * @method apply - Draws the frame, then replaces each color with the color of the table.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {HTMLCanvasElement} source - The frame before the effect.
+   * @returns {void}
+   * @public
+   */
+  public apply(
+    context: CanvasRenderingContext2D,
+    source: HTMLCanvasElement
+  ): void {
+    context.drawImage(source, 0, 0);
+    const table = this._getTable();
+    if (!table) return;
+    const size = this._size;
+    const width = size * size;
+    const step = (size - 1) / 255;
+    const intensity = this._intensity;
+    const frame = context.getImageData(0, 0, source.width, source.height);
+    const data = frame.data;
+    for (let i = 0; i < data.length; i += 4) {
+      const r = Math.round(data[i] * step);
+      const g = Math.round(data[i + 1] * step);
+      const b = Math.round(data[i + 2] * step);
+      const index = (g * width + b * size + r) * 4;
+      data[i] += (table[index] - data[i]) * intensity;
+      data[i + 1] += (table[index + 1] - data[i + 1]) * intensity;
+      data[i + 2] += (table[index + 2] - data[i + 2]) * intensity;
+    }
+    context.putImageData(frame, 0, 0);
+  }
+
+  /**
+   * @method _getTable - Reads the pixels of the lookup table once it is loaded.
+   * @returns {Uint8ClampedArray | undefined} The pixels of the table.
+   * @private
+   */
+  private _getTable(): Uint8ClampedArray | undefined {
+    if (this._table) return this._table;
+    const canvas = document.createElement('canvas');
+    canvas.width = this._size * this._size;
+    canvas.height = this._size;
+    const context = canvas.getContext('2d');
+    if (!context) return undefined;
+    context.drawImage(this._image, 0, 0, canvas.width, canvas.height);
+    this._table = context.getImageData(0, 0, canvas.width, canvas.height).data;
+    return this._table;
+  }
+}
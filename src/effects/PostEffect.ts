@@ -0,0 +1,72 @@
+/**
+ * @class PostEffect - Base class of the full-screen effects applied to the frame after the world is drawn.
+ * @abstract
+ * @public
+ */
+export abstract class PostEffect {
+  protected _isEnabled: boolean;
+
+  /**
+   * @constructor
+   * @protected
+   */
+  protected constructor() {
+    this._isEnabled = true;
+  }
+
+  /**
+   * @get isEnabled - Whether the effect is part of the chain.
+   * @returns {boolean} True if the effect is enabled.
+   * @public
+   * @example
+   * effect.isEnabled;
+   */
+  public get isEnabled(): boolean {
+    return this._isEnabled;
+  }
+
+  /**
+   * @get isActive - Whether the effect changes the frame, inactive effects are skipped.
+   * @returns {boolean} True if the effect is applied this frame.
+   * @public
+   * @example
+   * effect.isActive;
+   */
+  public get isActive(): boolean {
+    return this._isEnabled;
+  }
+
+  /**
+   * @method setEnabled - Enables or disables the effect, keeping its place in the chain.
+   * @param {boolean} isEnabled - Whether the effect is enabled.
+   * @returns {PostEffect} The instance of the PostEffect class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.effects[0].setEnabled(false);
+   */
+  public setEnabled(isEnabled: boolean): PostEffect {
+    this._isEnabled = isEnabled;
+    return this;
+  }
+
+  /**
+   * @method update - Updates the effect, for the animated ones. Called by the GameCanvas.
+   * @param {number} deltaTime - The time since the last update in second.
+   * @returns {void}
+   * @public
+   */
+  public update(deltaTime: number): void {}
+
+  /**
+   * @method apply - Draws the frame with the effect. The context is cleared, has an identity transform and the size of the source.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {HTMLCanvasElement} source - The frame before the effect.
+   * @returns {void}
+   * @abstract
+   * @public
+   */
+  public abstract apply(
+    context: CanvasRenderingContext2D,
+    source: HTMLCanvasElement
+  ): void;
+}
@@ -0,0 +1,78 @@
+import { PostEffect } from './PostEffect';
+
+/**
+ * @class ScanlinesEffect - Darkens every few lines of the frame, like a CRT screen.
+ * @extends {PostEffect}
+ * @public
+ */
+export class ScanlinesEffect extends PostEffect {
+  private _intensity: number;
+  private _spacing: number;
+  private _thickness: number;
+
+  /**
+   * @constructor
+   * @param {number} [intensity=0.3] - The opacity of the lines, between 0 and 1.
+   * @param {number} [spacing=3] - The distance between two lines, in pixels of the frame.
+   * @param {number} [thickness=1] - The thickness of the lines, in pixels of the frame.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.addEffect(new ScanlinesEffect(0.2, 2));
+   */
+  public constructor(
+    intensity: number = 0.3,
+    spacing: number = 3,
+    thickness: number = 1
+  ) {
+    super();
+    if (intensity < 0 || intensity > 1)
+      throw new Error('Effect intensity must be between 0 and 1.');
+    if (spacing < 1) throw new Error('Scanline spacing must be at least 1.');
+    this._intensity = intensity;
+    this._spacing = spacing;
+    this._thickness = thickness;
+  }
+
+  /**
+   * @get intensity - The opacity of the lines.
+   * @returns {number} The intensity, between 0 and 1.
+   * @public
+   * @example
+   * effect.intensity;
+   */
+  public get intensity(): number {
+    return this._intensity;
+  }
+
+  /**
+   * @method setIntensity - Sets the opacity of the lines.
+   * @param {number} intensity - The intensity, between 0 and 1.
+   * @returns {ScanlinesEffect} The instance of the ScanlinesEffect class.
+   * @public
+   * @example
+   * effect.setIntensity(0.5);
+   */
+  public setIntensity(intensity: number): ScanlinesEffect {
+    if (intensity < 0 || intensity > 1)
+      throw new Error('Effect intensity must be between 0 and 1.');
+    this._intensity = intensity;
+    return this;
+  }
+
+  /**
+   * @method apply - Draws the frame, then the lines over it.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {HTMLCanvasElement} source - The frame before the effect.
+   * @returns {void}
+   * @public
+   */
+  public apply(
+    context: CanvasRenderingContext2D,
+    source: HTMLCanvasElement
+  ): void {
+    context.drawImage(source, 0, 0);
+    context.fillStyle = `rgba(0, 0, 0, ${this._intensity})`;
+    for (let y = 0; y < source.height; y += this._spacing)
+      context.fillRect(0, y, source.width, this._thickness);
+  }
+}
@@ -0,0 +1,116 @@
+import { PostEffect } from './PostEffect';
+
+/**
+ * @class VignetteEffect - Darkens the edges of the frame.
+ * @extends {PostEffect}
+ * @public
+ */
+export class VignetteEffect extends PostEffect {
+  private _intensity: number;
+  private _radius: number;
+  private _color: string;
+
+  /**
+   * @constructor
+   * @param {number} [intensity=0.5] - The opacity of the edges, between 0 and 1.
+   * @param {number} [radius=0.6] - The part of the frame left clear from the center, between 0 and 1.
+   * @param {string} [color='#000000'] - The color of the edges.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.addEffect(new VignetteEffect(0.7));
+   */
+  public constructor(
+    intensity: number = 0.5,
+    radius: number = 0.6,
+    color: string = '#000000'
+  ) {
+    super();
+    this._intensity = 0;
+    this._radius = 0;
+    this._color = color;
+    this.setIntensity(intensity).setRadius(radius);
+  }
+
+  /**
+   * @get intensity - The opacity of the edges.
+   * @returns {number} The intensity, between 0 and 1.
+   * @public
+   * @example
+   * effect.intensity;
+   */
+  public get intensity(): number {
+    return this._intensity;
+  }
+
+  /**
+   * @method setIntensity - Sets the opacity of the edges.
+   * @param {number} intensity - The intensity, between 0 and 1.
+   * @returns {VignetteEffect} The instance of the VignetteEffect class.
+   * @public
+   * @example
+   * effect.setIntensity(0.8);
+   */
+  public setIntensity(intensity: number): VignetteEffect {
+    if (intensity < 0 || intensity > 1)
+      throw new Error('Effect intensity must be between 0 and 1.');
+    this._intensity = intensity;
+    return this;
+  }
+
+  /**
+   * @method setRadius - Sets the part of the frame left clear from the center.
+   * @param {number} radius - The radius, between 0 and 1.
+   * @returns {VignetteEffect} The instance of the VignetteEffect class.
+   * @public
+   * @example
+   * effect.setRadius(0.4);
+   */
+  public setRadius(radius: number): VignetteEffect {
+    if (radius < 0 || radius > 1)
+      throw new Error('Vignette radius must be between 0 and 1.');
+    this._radius = radius;
+    return this;
+  }
+
+  /**
+   * @method setColor - Sets the color of the edges.
+   * @param {string} color - The color.
+   * @returns {VignetteEffect} The instance of the VignetteEffect class.
+   * @public
+   * @example
+   * effect.setColor('#300000');
+   */
+  public setColor(color: string): VignetteEffect {
+    this._color = color;
+    return this;
+  }
+
+  /**
+   * @method apply - Draws the frame, then a radial gradient over its edges.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {HTMLCanvasElement} source - The frame before the effect.
+   * @returns {void}
+   * @public
+   */
+  public apply(
+    context: CanvasRenderingContext2D,
+    source: HTMLCanvasElement
+  ): void {
+    const { width, height } = source;
+    const outerRadius = Math.sqrt(width * width + height * height) / 2;
+    const gradient = context.createRadialGradient(
+      width / 2,
+      height / 2,
+      outerRadius * this._radius,
+      width / 2,
+      height / 2,
+      outerRadius
+    );
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    gradient.addColorStop(1, this._color);
+    context.drawImage(source, 0, 0);
+    context.globalAlpha = this._intensity;
+    context.fillStyle = gradient;
+    context.fillRect(0, 0, width, height);
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * @enum LayerSpace - The coordinates a render layer is drawn in.
+ * @property {string} World - Drawn through the camera, in world coordinates.
+ * @property {string} Screen - Drawn over the view, in canvas units.
+ * @public
+ */
+export enum LayerSpace {
+  World = 'world',
+  Screen = 'screen',
+}
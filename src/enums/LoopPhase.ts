@@ -0,0 +1,22 @@
+/**
+ * @enum LoopPhase - The phases of a frame of the game loop, run in this order.
+ * @property {number} Input - The input devices are updated.
+ * @property {number} EarlyUpdate - Runs before the fixed updates and the scene update.
+ * @property {number} Update - Runs after the fixed updates, the scene is updated at the end of this phase.
+ * @property {number} LateUpdate - Runs after the scene update.
+ * @property {number} PreRender - Draws before the scene.
+ * @property {number} Render - The scene is drawn at the end of this phase.
+ * @property {number} PostRender - Draws over the scene.
+ * @property {number} UI - Draws over everything else.
+ * @public
+ */
+export enum LoopPhase {
+  Input = 0,
+  EarlyUpdate = 1,
+  Update = 2,
+  LateUpdate = 3,
+  PreRender = 4,
+  Render = 5,
+  PostRender = 6,
+  UI = 7,
+}
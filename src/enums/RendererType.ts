@@ -0,0 +1,10 @@
+/**
+ * @enum RendererType - The backend drawing the sprites.
+ * @property {string} Canvas2D - Each sprite is drawn with the canvas context.
+ * @property {string} WebGL2 - The sprites of a batch are drawn with WebGL2, one draw call per image.
+ * @public
+ */
+export enum RendererType {
+  Canvas2D = 'canvas2d',
+  WebGL2 = 'webgl2',
+}
@@ -0,0 +1,16 @@
+/**
+ * @enum ScaleMode - The way the canvas is scaled to its parent element, or to the window when the parent is the body.
+ * @property {string} Fit - The base size is scaled to fit the available size, keeping its ratio.
+ * @property {string} Integer - Like Fit, with an integer scale for pixel art.
+ * @property {string} Stretch - The base size is stretched to fill the available size.
+ * @property {string} FillCrop - The base size is scaled to fill the available size, keeping its ratio, and cropped.
+ * @property {string} Expand - Like Fit, and the size grows to fill the available size.
+ * @public
+ */
+export enum ScaleMode {
+  Fit = 'fit',
+  Integer = 'integer',
+  Stretch = 'stretch',
+  FillCrop = 'fill-crop',
+  Expand = 'expand',
+}
@@ -0,0 +1,14 @@
+/**
+ * @enum TransitionDirection - The direction of a transition.
+ * @property {string} Left - The transition moves to the left.
+ * @property {string} Right - The transition moves to the right.
+ * @property {string} Up - The transition moves up.
+ * @property {string} Down - The transition moves down.
+ * @public
+ */
+export enum TransitionDirection {
+  Left = 'left',
+  Right = 'right',
+  Up = 'up',
+  Down = 'down',
+}
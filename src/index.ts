@@ -1,28 +1,68 @@
 import { TileSet } from './assets/TileSet';
 // Interfaces
+export { AssetManifest } from './interfaces/AssetManifest';
+export { AudioOptions } from './interfaces/AudioOptions';
 export { ButtonOptions } from './interfaces/ButtonOptions';
+export { CameraFollowOptions } from './interfaces/CameraFollowOptions';
 export { CanvasOptions } from './interfaces/CanvasOptions';
 export { CircleOptions } from './interfaces/CircleOptions';
+export { ColorGradingOptions } from './interfaces/ColorGradingOptions';
+export { DebugOptions } from './interfaces/DebugOptions';
+export { Disposable } from './interfaces/Disposable';
 export { Drawable } from './interfaces/Drawable';
+export { FrameScheduler } from './interfaces/FrameScheduler';
+export { GameConfig } from './interfaces/GameConfig';
+export { HitTestable } from './interfaces/HitTestable';
 export { DrawTextOptions } from './interfaces/DrawTextOptions';
 export { InputFieldOptions } from './interfaces/InputFieldOptions';
+export { InputOptions } from './interfaces/InputOptions';
 export { LineOptions } from './interfaces/LineOptions';
+export { LoadingScene } from './interfaces/LoadingScene';
+export { LoopOptions } from './interfaces/LoopOptions';
+export { LoopSubscription } from './interfaces/LoopSubscription';
+export { Plugin } from './interfaces/Plugin';
 export { PointOptions } from './interfaces/PointOptions';
+export { PushSceneOptions } from './interfaces/PushSceneOptions';
+export { RecordingOptions } from './interfaces/RecordingOptions';
 export { RectangleOptions } from './interfaces/RectangleOptions';
+export { RenderLayerEntry } from './interfaces/RenderLayerEntry';
+export { RenderLayerOptions } from './interfaces/RenderLayerOptions';
+export { RenderSubscriptionOptions } from './interfaces/RenderSubscriptionOptions';
 export { Scene } from './interfaces/Scene';
+export { SceneListener } from './interfaces/SceneListener';
+export { SceneStackEntry } from './interfaces/SceneStackEntry';
+export { ScreenshotOptions } from './interfaces/ScreenshotOptions';
+export { ServiceOptions } from './interfaces/ServiceOptions';
+export { ServiceRegistration } from './interfaces/ServiceRegistration';
+export { SpriteBatch } from './interfaces/SpriteBatch';
 export { Updatable } from './interfaces/Updatable';
+export { UpdateSubscriptionOptions } from './interfaces/UpdateSubscriptionOptions';
+export { ViewportOptions } from './interfaces/ViewportOptions';
 // Enums
 export { ClickableState } from './enums/ClickableState';
 export { InputFieldType } from './enums/InputFieldType';
 export { KeyState } from './enums/KeyState';
+export { LayerSpace } from './enums/LayerSpace';
+export { LoopPhase } from './enums/LoopPhase';
 export { MouseButton } from './enums/MouseButton';
 export { NineSliceMode } from './enums/NineSliceMode';
+export { RendererType } from './enums/RendererType';
+export { ScaleMode } from './enums/ScaleMode';
 export { TouchState } from './enums/TouchState';
+export { TransitionDirection } from './enums/TransitionDirection';
 export { Keyboard } from './inputs/Keyboard';
 export { Mouse } from './inputs/Mouse';
 export { Touch } from './inputs/Touch';
 // Types
 export { AssetType } from './types/AssetType';
+export { EasingFunction } from './types/EasingFunction';
+export { ErrorFunction } from './types/ErrorFunction';
+export { FrameCallback } from './types/FrameCallback';
+export { ProgressFunction } from './types/ProgressFunction';
+export { ResizeFunction } from './types/ResizeFunction';
+export { SceneFactory } from './types/SceneFactory';
+export { ServiceFactory } from './types/ServiceFactory';
+export { ServiceToken } from './types/ServiceToken';
 export { UpdateFunction } from './types/UpdateFunction';
 // Primitives
 export { Circle } from './primitives/Circle';
@@ -36,15 +76,62 @@ export { Sprite } from './assets/Sprite';
 export { SpriteSheet } from './assets/SpriteSheet';
 export { SpriteSheetAnimation } from './assets/SpriteSheetAnimation';
 export { TileSet } from './assets/TileSet';
+export { TintCache } from './assets/TintCache';
 // UI
 export { Button } from './ui/Button';
 export { Clickable } from './ui/Clickable';
 export { InputField } from './ui/InputField';
 export { NineSlice } from './ui/NineSlice';
 export { drawText } from './ui/text';
+// Cameras
+export { Camera } from './cameras/Camera';
+export { Viewport } from './cameras/Viewport';
+
+// Layers
+export { RenderLayer } from './layers/RenderLayer';
+
+// Nodes
+export { Container } from './nodes/Container';
+export { Node } from './nodes/Node';
+
+// Renderers
+export { CanvasSpriteBatch } from './renderers/CanvasSpriteBatch';
+export { WebGLSpriteBatch } from './renderers/WebGLSpriteBatch';
+
+// Effects
+export { PostEffect } from './effects/PostEffect';
+export { BloomEffect } from './effects/BloomEffect';
+export { BlurEffect } from './effects/BlurEffect';
+export { ChromaticAberrationEffect } from './effects/ChromaticAberrationEffect';
+export { ColorGradingEffect } from './effects/ColorGradingEffect';
+export { FadeEffect } from './effects/FadeEffect';
+export { FilterEffect } from './effects/FilterEffect';
+export { FlashEffect } from './effects/FlashEffect';
+export { GrayscaleEffect } from './effects/GrayscaleEffect';
+export { LutEffect } from './effects/LutEffect';
+export { ScanlinesEffect } from './effects/ScanlinesEffect';
+export { SepiaEffect } from './effects/SepiaEffect';
+export { VignetteEffect } from './effects/VignetteEffect';
+// Transitions
+export { CrossfadeTransition } from './transitions/CrossfadeTransition';
+export { Easing } from './transitions/Easing';
+export { FadeTransition } from './transitions/FadeTransition';
+export { IrisTransition } from './transitions/IrisTransition';
+export { PixelateTransition } from './transitions/PixelateTransition';
+export { SlideTransition } from './transitions/SlideTransition';
+export { Transition } from './transitions/Transition';
+export { WipeTransition } from './transitions/WipeTransition';
+// Schedulers
+export { AnimationFrameScheduler } from './schedulers/AnimationFrameScheduler';
+export { ManualScheduler } from './schedulers/ManualScheduler';
+export { TimeoutScheduler } from './schedulers/TimeoutScheduler';
+// Debug
+export { CrashScreen } from './debug/CrashScreen';
 // Core
 export { GameCanvas } from './GameCanvas';
 export { SceneManager } from './SceneManager';
+export { SceneScope } from './SceneScope';
+export { PluginContext } from './PluginContext';
 export { GameLoop } from './GameLoop';
 export { Game } from './Game';
 // Service Container
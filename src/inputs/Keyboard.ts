@@ -1,29 +1,44 @@
 import { GameCanvas } from '../GameCanvas';
 import { GameLoop } from '../GameLoop';
+import { LoopPhase } from '../enums/LoopPhase';
 import { KeyState } from '../enums/KeyState';
 
 /**
- * @class Keyboard - A singleton class that handles keyboard input.
+ * @class Keyboard - A class that handles keyboard input, with a default instance.
  * @public
  */
 export class Keyboard {
-  private static _instance: Keyboard;
+  private static _instance?: Keyboard;
+  private _gameCanvas: GameCanvas;
+  private _gameLoop: GameLoop;
   private _tempState: Map<string, 'up' | 'down'>;
   private _state: Map<string, KeyState>;
 
   /**
    * @constructor
-   * @private
+   * @param {GameCanvas} [gameCanvas] - The canvas listened to (the default instance by default).
+   * @param {GameLoop} [gameLoop] - The loop updating the state (the default instance by default).
+   * @public
+   * @example
+   * const keyboard = new Keyboard(gameCanvas, gameLoop);
    */
-  private constructor() {
+  public constructor(
+    gameCanvas: GameCanvas = GameCanvas.instance,
+    gameLoop: GameLoop = GameLoop.instance
+  ) {
+    this._gameCanvas = gameCanvas;
+    this._gameLoop = gameLoop;
     this._tempState = new Map<string, 'up' | 'down'>();
     this._state = new Map<string, KeyState>();
 
-    const canvas = GameCanvas.instance.canvas;
-    canvas.addEventListener('keydown', this._onKeyDown.bind(this), false);
-    canvas.addEventListener('keyup', this._onKeyUp.bind(this), false);
+    const canvas = gameCanvas.canvas;
+    canvas.addEventListener('keydown', this._onKeyDown, false);
+    canvas.addEventListener('keyup', this._onKeyUp, false);
 
-    GameLoop.instance.subscribeToUpdate(this._update.bind(this));
+    gameLoop.subscribeToUpdate(this._update, {
+      unscaled: true,
+      phase: LoopPhase.Input,
+    });
   }
 
   /**
@@ -38,6 +53,43 @@ export class Keyboard {
     return Keyboard._instance;
   }
 
+  /**
+   * @set instance - Replaces the instance of the Keyboard class, e.g. with a fake in tests.
+   * @param {Keyboard | undefined} instance - The new instance, none to create one on next access.
+   * @public
+   * @example
+   * Keyboard.instance = fakeKeyboard;
+   */
+  public static set instance(instance: Keyboard | undefined) {
+    Keyboard._instance = instance;
+  }
+
+  /**
+   * @method reset - Destroys the instance of the Keyboard class, a new one is created on next access.
+   * @returns {void}
+   * @public
+   * @example
+   * Keyboard.reset();
+   */
+  public static reset(): void {
+    Keyboard._instance?.destroy();
+    Keyboard._instance = undefined;
+  }
+
+  /**
+   * @method destroy - Removes the listeners of the keyboard from the canvas and the game loop.
+   * @returns {void}
+   * @public
+   * @example
+   * ServiceContainer.Keyboard.destroy();
+   */
+  public destroy(): void {
+    const canvas = this._gameCanvas.canvas;
+    canvas.removeEventListener('keydown', this._onKeyDown);
+    canvas.removeEventListener('keyup', this._onKeyUp);
+    this._gameLoop.unsubscribeFromUpdate(this._update);
+  }
+
   /**
    * @method isDown - Check if a key is down.
    * @param {string} key - The key to check.
@@ -92,7 +144,7 @@ export class Keyboard {
    * @returns {void}
    * @private
    */
-  private _update(deltaTime: number): void {
+  private _update = (deltaTime: number): void => {
     const oldState = this._state;
     this._tempState.forEach((state, key) => {
       if (oldState.get(key)?.includes('up') && state === KeyState.Down)
@@ -101,7 +153,7 @@ export class Keyboard {
         this._state.set(key, KeyState.JustUp);
       else this._state.set(key, state as KeyState);
     });
-  }
+  };
 
   /**
    * @method _onKeyDown - Handle a key down event.
@@ -109,11 +161,11 @@ export class Keyboard {
    * @returns {void}
    * @private
    */
-  private _onKeyDown(event: KeyboardEvent): void {
+  private _onKeyDown = (event: KeyboardEvent): void => {
     event.preventDefault();
     this._tempState.set(event.code, 'down');
     if (!this._state.has(event.code)) this._state.set(event.code, KeyState.Up);
-  }
+  };
 
   /**
    * @method _onKeyUp - Handle a key up event.
@@ -121,8 +173,8 @@ export class Keyboard {
    * @returns {void}
    * @private
    */
-  private _onKeyUp(event: KeyboardEvent): void {
+  private _onKeyUp = (event: KeyboardEvent): void => {
     event.preventDefault();
     this._tempState.set(event.code, 'up');
-  }
+  };
 }
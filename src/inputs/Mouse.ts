@@ -1,40 +1,52 @@
 import { GameCanvas } from '../GameCanvas';
 import { GameLoop } from '../GameLoop';
+import { LoopPhase } from '../enums/LoopPhase';
 import { KeyState } from '../enums/KeyState';
 import { Point } from '../primitives/Point';
+import { Viewport } from '../cameras/Viewport';
 import { AssetStore } from '../assets/AssetStore';
 import { MouseButton } from '../enums/MouseButton';
 
 /**
- * @class Mouse - A singleton class that handles mouse input.
+ * @class Mouse - A class that handles mouse input, with a default instance.
  * @public
  */
 export class Mouse {
-  private static _instance: Mouse;
+  private static _instance?: Mouse;
+  private _gameCanvas: GameCanvas;
+  private _gameLoop: GameLoop;
   private _position: Point;
   private _tempState: Map<MouseButton, 'up' | 'down'>;
   private _state: Map<MouseButton, KeyState>;
 
   /**
    * @constructor
-   * @private
+   * @param {GameCanvas} [gameCanvas] - The canvas listened to (the default instance by default).
+   * @param {GameLoop} [gameLoop] - The loop updating the state (the default instance by default).
+   * @public
+   * @example
+   * const mouse = new Mouse(gameCanvas, gameLoop);
    */
-  private constructor() {
+  public constructor(
+    gameCanvas: GameCanvas = GameCanvas.instance,
+    gameLoop: GameLoop = GameLoop.instance
+  ) {
+    this._gameCanvas = gameCanvas;
+    this._gameLoop = gameLoop;
     this._position = new Point(0, 0);
     this._tempState = new Map<MouseButton, 'up' | 'down'>();
     this._state = new Map<MouseButton, KeyState>();
 
-    const canvas = GameCanvas.instance.canvas;
-    canvas.addEventListener('mousedown', this._onMouseDown.bind(this), false);
-    canvas.addEventListener('mouseup', this._onMouseUp.bind(this), false);
-    canvas.addEventListener('mousemove', this._onMouseMove.bind(this), false);
-    canvas.addEventListener(
-      'contextmenu',
-      this._onContextMenu.bind(this),
-      false
-    );
+    const canvas = gameCanvas.canvas;
+    canvas.addEventListener('mousedown', this._onMouseDown, false);
+    canvas.addEventListener('mouseup', this._onMouseUp, false);
+    canvas.addEventListener('mousemove', this._onMouseMove, false);
+    canvas.addEventListener('contextmenu', this._onContextMenu, false);
 
-    GameLoop.instance.subscribeToUpdate(this._update.bind(this));
+    gameLoop.subscribeToUpdate(this._update, {
+      unscaled: true,
+      phase: LoopPhase.Input,
+    });
   }
 
   /**
@@ -49,6 +61,45 @@ export class Mouse {
     return Mouse._instance;
   }
 
+  /**
+   * @set instance - Replaces the instance of the Mouse class, e.g. with a fake in tests.
+   * @param {Mouse | undefined} instance - The new instance, none to create one on next access.
+   * @public
+   * @example
+   * Mouse.instance = fakeMouse;
+   */
+  public static set instance(instance: Mouse | undefined) {
+    Mouse._instance = instance;
+  }
+
+  /**
+   * @method reset - Destroys the instance of the Mouse class, a new one is created on next access.
+   * @returns {void}
+   * @public
+   * @example
+   * Mouse.reset();
+   */
+  public static reset(): void {
+    Mouse._instance?.destroy();
+    Mouse._instance = undefined;
+  }
+
+  /**
+   * @method destroy - Removes the listeners of the mouse from the canvas and the game loop.
+   * @returns {void}
+   * @public
+   * @example
+   * ServiceContainer.Mouse.destroy();
+   */
+  public destroy(): void {
+    const canvas = this._gameCanvas.canvas;
+    canvas.removeEventListener('mousedown', this._onMouseDown);
+    canvas.removeEventListener('mouseup', this._onMouseUp);
+    canvas.removeEventListener('mousemove', this._onMouseMove);
+    canvas.removeEventListener('contextmenu', this._onContextMenu);
+    this._gameLoop.unsubscribeFromUpdate(this._update);
+  }
+
   /**
    * @get position - The position of the mouse.
    * @returns {Point} The position of the mouse.
@@ -60,6 +111,28 @@ export class Mouse {
     return this._position;
   }
 
+  /**
+   * @get worldPosition - The position of the mouse in the world seen by the camera, or by the viewport it is in.
+   * @returns {Point} The position of the mouse in the world.
+   * @public
+   * @example
+   * ServiceContainer.Mouse.worldPosition;
+   */
+  public get worldPosition(): Point {
+    return this._gameCanvas.screenToWorld(this._position);
+  }
+
+  /**
+   * @get viewport - The viewport the mouse is in.
+   * @returns {Viewport | undefined} The viewport, if any.
+   * @public
+   * @example
+   * ServiceContainer.Mouse.viewport === player2Viewport;
+   */
+  public get viewport(): Viewport | undefined {
+    return this._gameCanvas.getViewportAt(this._position);
+  }
+
   /**
    * @method isDown - Check if a button is down.
    * @param {MouseButton} button - The button to check.
@@ -123,8 +196,8 @@ export class Mouse {
     const cursorImage = AssetStore.instance.getImage(image);
     if (!cursorImage) throw new Error('Cursor image not found.');
 
-    const parentNode = GameCanvas.instance.canvas.parentNode as HTMLElement;
-    const node = parentNode || GameCanvas.instance.canvas;
+    const parentNode = this._gameCanvas.canvas.parentNode as HTMLElement;
+    const node = parentNode || this._gameCanvas.canvas;
 
     if (typeof offset === 'number') offset = new Point(offset, offset);
 
@@ -138,12 +211,12 @@ export class Mouse {
    * @returns {void}
    * @private
    */
-  private _onMouseDown(event: MouseEvent): void {
+  private _onMouseDown = (event: MouseEvent): void => {
     event.preventDefault();
     const button: MouseButton = event.button;
     this._tempState.set(button, 'down');
     if (!this._state.has(button)) this._state.set(button, KeyState.Up);
-  }
+  };
 
   /**
    * @method _onMouseUp - Handle the mouse up event.
@@ -151,11 +224,11 @@ export class Mouse {
    * @returns {void}
    * @private
    */
-  private _onMouseUp(event: MouseEvent): void {
+  private _onMouseUp = (event: MouseEvent): void => {
     event.preventDefault();
     const button: MouseButton = event.button;
     this._tempState.set(button, 'up');
-  }
+  };
 
   /**
    * @method _onMouseMove - Handle the mouse move event.
@@ -163,13 +236,11 @@ export class Mouse {
    * @returns {void}
    * @private
    */
-  private _onMouseMove(event: MouseEvent): void {
-    const canvasPosition = GameCanvas.instance.position;
-    const scale = GameCanvas.instance.scale;
-    const x = (event.clientX - canvasPosition.x) / scale;
-    const y = (event.clientY - canvasPosition.y) / scale;
-    this._position = new Point(x, y);
-  }
+  private _onMouseMove = (event: MouseEvent): void => {
+    this._position = this._gameCanvas.clientToCanvas(
+      new Point(event.clientX, event.clientY)
+    );
+  };
 
   /**
    * @method _onContextMenu - Handle the context menu event.
@@ -177,9 +248,9 @@ export class Mouse {
    * @returns {void}
    * @private
    */
-  private _onContextMenu(event: MouseEvent): void {
+  private _onContextMenu = (event: MouseEvent): void => {
     event.preventDefault();
-  }
+  };
 
   /**
    * @method _update - Update the mouse state.
@@ -187,7 +258,7 @@ export class Mouse {
    * @returns {void}
    * @private
    */
-  private _update(deltaTime: number): void {
+  private _update = (deltaTime: number): void => {
     const oldState = this._state;
     this._tempState.forEach((state, button) => {
       if (!oldState.has(button)) oldState.set(button, KeyState.Up);
@@ -197,5 +268,5 @@ export class Mouse {
         this._state.set(button, KeyState.JustUp);
       else this._state.set(button, state as KeyState);
     });
-  }
+  };
 }
@@ -1,14 +1,18 @@
 import { Point } from '../primitives/Point';
+import { Viewport } from '../cameras/Viewport';
 import { TouchState } from '../enums/TouchState';
 import { GameCanvas } from '../GameCanvas';
 import { GameLoop } from '../GameLoop';
+import { LoopPhase } from '../enums/LoopPhase';
 
 /**
  * @class Touch - The Touch class is used to handle touch events.
  * @public
  */
 export class Touch {
-  private static _instance: Touch;
+  private static _instance?: Touch;
+  private _gameCanvas: GameCanvas;
+  private _gameLoop: GameLoop;
   private _position: Point;
   private _state?: TouchState;
   private _tempState?: TouchState;
@@ -21,9 +25,18 @@ export class Touch {
 
   /**
    * @constructor
-   * @private
+   * @param {GameCanvas} [gameCanvas] - The canvas listened to (the default instance by default).
+   * @param {GameLoop} [gameLoop] - The loop updating the state (the default instance by default).
+   * @public
+   * @example
+   * const touch = new Touch(gameCanvas, gameLoop);
    */
-  private constructor() {
+  public constructor(
+    gameCanvas: GameCanvas = GameCanvas.instance,
+    gameLoop: GameLoop = GameLoop.instance
+  ) {
+    this._gameCanvas = gameCanvas;
+    this._gameLoop = gameLoop;
     this._position = new Point(0, 0);
     this._clickTimer = 0;
     this._clickDelay = 0.3;
@@ -31,21 +44,24 @@ export class Touch {
     this._isUp = true;
     this._isClicked = false;
 
-    const canvas = GameCanvas.instance.canvas;
-    canvas.addEventListener('touchstart', this._onTouchStart.bind(this), {
+    const canvas = gameCanvas.canvas;
+    canvas.addEventListener('touchstart', this._onTouchStart, {
       passive: true,
     });
-    canvas.addEventListener('touchend', this._onTouchEnd.bind(this), {
+    canvas.addEventListener('touchend', this._onTouchEnd, {
       passive: true,
     });
-    canvas.addEventListener('touchmove', this._onTouchMove.bind(this), {
+    canvas.addEventListener('touchmove', this._onTouchMove, {
       passive: true,
     });
-    canvas.addEventListener('touchcancel', this._onTouchCancel.bind(this), {
+    canvas.addEventListener('touchcancel', this._onTouchCancel, {
       passive: true,
     });
 
-    GameLoop.instance.subscribeToUpdate(this._update.bind(this));
+    gameLoop.subscribeToUpdate(this._update, {
+      unscaled: true,
+      phase: LoopPhase.Input,
+    });
   }
 
   /**
@@ -60,6 +76,45 @@ export class Touch {
     return Touch._instance;
   }
 
+  /**
+   * @set instance - Replaces the instance of the Touch class, e.g. with a fake in tests.
+   * @param {Touch | undefined} instance - The new instance, none to create one on next access.
+   * @public
+   * @example
+   * Touch.instance = fakeTouch;
+   */
+  public static set instance(instance: Touch | undefined) {
+    Touch._instance = instance;
+  }
+
+  /**
+   * @method reset - Destroys the instance of the Touch class, a new one is created on next access.
+   * @returns {void}
+   * @public
+   * @example
+   * Touch.reset();
+   */
+  public static reset(): void {
+    Touch._instance?.destroy();
+    Touch._instance = undefined;
+  }
+
+  /**
+   * @method destroy - Removes the listeners of the touch from the canvas and the game loop.
+   * @returns {void}
+   * @public
+   * @example
+   * ServiceContainer.Touch.destroy();
+   */
+  public destroy(): void {
+    const canvas = this._gameCanvas.canvas;
+    canvas.removeEventListener('touchstart', this._onTouchStart);
+    canvas.removeEventListener('touchend', this._onTouchEnd);
+    canvas.removeEventListener('touchmove', this._onTouchMove);
+    canvas.removeEventListener('touchcancel', this._onTouchCancel);
+    this._gameLoop.unsubscribeFromUpdate(this._update);
+  }
+
   /**
    * @get position - The position of the touch.
    * @returns {Point} The position of the touch.
@@ -71,6 +126,28 @@ export class Touch {
     return this._position;
   }
 
+  /**
+   * @get worldPosition - The position of the touch in the world seen by the camera, or by the viewport it is in.
+   * @returns {Point} The position of the touch in the world.
+   * @public
+   * @example
+   * ServiceContainer.Touch.worldPosition;
+   */
+  public get worldPosition(): Point {
+    return this._gameCanvas.screenToWorld(this._position);
+  }
+
+  /**
+   * @get viewport - The viewport the touch is in.
+   * @returns {Viewport | undefined} The viewport, if any.
+   * @public
+   * @example
+   * ServiceContainer.Touch.viewport === player2Viewport;
+   */
+  public get viewport(): Viewport | undefined {
+    return this._gameCanvas.getViewportAt(this._position);
+  }
+
   /**
    * @get isStarted - Returns true if the touch has started.
    * @returns {boolean} Returns true if the touch has started.
@@ -177,13 +254,13 @@ export class Touch {
    * @returns {void}
    * @private
    */
-  private _onTouchStart(event: TouchEvent): void {
+  private _onTouchStart = (event: TouchEvent): void => {
     event.preventDefault();
     this._tempState = TouchState.Started;
     this._updatePositionFromTouchEvent(event);
     this._isDown = true;
     this._isUp = false;
-  }
+  };
 
   /**
    * @method _onTouchEnd - The touch end event handler.
@@ -191,12 +268,12 @@ export class Touch {
    * @returns {void}
    * @private
    */
-  private _onTouchEnd(event: TouchEvent): void {
+  private _onTouchEnd = (event: TouchEvent): void => {
     event.preventDefault();
     this._tempState = TouchState.Ended;
     this._isDown = false;
     this._isUp = true;
-  }
+  };
 
   /**
    * @method _onTouchMove - The touch move event handler.
@@ -204,13 +281,13 @@ export class Touch {
    * @returns {void}
    * @private
    */
-  private _onTouchMove(event: TouchEvent): void {
+  private _onTouchMove = (event: TouchEvent): void => {
     event.preventDefault();
     this._tempState = TouchState.Moved;
     this._updatePositionFromTouchEvent(event);
     this._isDown = true;
     this._isUp = false;
-  }
+  };
 
   /**
    * @method _onTouchCancel - The touch cancel event handler.
@@ -218,12 +295,12 @@ export class Touch {
    * @returns {void}
    * @private
    */
-  private _onTouchCancel(event: TouchEvent): void {
+  private _onTouchCancel = (event: TouchEvent): void => {
     event.preventDefault();
     this._tempState = TouchState.Cancelled;
     this._isDown = false;
     this._isUp = true;
-  }
+  };
 
   /**
    * @method _updatePositionFromTouchEvent - Updates the position from a touch event.
@@ -232,15 +309,16 @@ export class Touch {
    * @private
    */
   private _updatePositionFromTouchEvent(event: TouchEvent): void {
-    const gameCanvas = GameCanvas.instance;
-    const CanvasPosition = gameCanvas.position;
+    const gameCanvas = this._gameCanvas;
     const baseSize = gameCanvas.baseSize;
-    const scale = gameCanvas.scale;
     const changedTouch = event.changedTouches[0];
-    let x = (changedTouch.pageX - CanvasPosition.x) / scale;
+    const position = gameCanvas.clientToCanvas(
+      new Point(changedTouch.pageX, changedTouch.pageY)
+    );
+    let x = position.x;
     if (x < 0) x = 0;
     else if (x > baseSize.x) x = baseSize.x;
-    let y = (changedTouch.pageY - CanvasPosition.y) / scale;
+    let y = position.y;
     if (y < 0) y = 0;
     else if (y > baseSize.y) y = baseSize.y;
     this._position = new Point(x, y);
@@ -252,7 +330,7 @@ export class Touch {
    * @returns {void}
    * @private
    */
-  private _update(deltaTime: number): void {
+  private _update = (deltaTime: number): void => {
     if (!this.isTouchScreen) return;
     this._isClicked = false;
     this._clickTimer += deltaTime;
@@ -270,5 +348,5 @@ export class Touch {
       this._state = TouchState.Ended;
     }
     this._oldState = this._state;
-  }
+  };
 }
@@ -0,0 +1,12 @@
+/**
+ * @interface AssetManifest - The list of the assets to load
+ * @property {{ name: string; url: string }[]} [images] - The images to load
+ * @property {{ name: string; url: string }[]} [sounds] - The sounds to load
+ * @property {{ name: string; url: string }[]} [fonts] - The fonts to load
+ * @public
+ */
+export interface AssetManifest {
+  images?: { name: string; url: string }[];
+  sounds?: { name: string; url: string }[];
+  fonts?: { name: string; url: string }[];
+}
@@ -0,0 +1,10 @@
+/**
+ * @interface AudioOptions - The options of the sounds
+ * @property {number} [volume] - The volume of all the sounds, between 0 and 1 (1 by default)
+ * @property {boolean} [muted] - Mute all the sounds
+ * @public
+ */
+export interface AudioOptions {
+  volume?: number;
+  muted?: boolean;
+}
@@ -0,0 +1,14 @@
+import { Point } from '../primitives/Point';
+
+/**
+ * @interface CameraFollowOptions - The options for following a target with a camera
+ * @property {number} [lerp] - The part of the distance to the target covered each 1/60 second, between 0 and 1 (1 by default)
+ * @property {Point} [deadzone] - The size of the area around the center where the target moves without the camera
+ * @property {Point} [offset] - The offset from the target to the center of the camera
+ * @public
+ */
+export interface CameraFollowOptions {
+  lerp?: number;
+  deadzone?: Point;
+  offset?: Point;
+}
@@ -1,13 +1,21 @@
 import { Point } from '../primitives/Point';
+import { ScaleMode } from '../enums/ScaleMode';
+import { RendererType } from '../enums/RendererType';
 
 /**
  * @interface CanvasOptions - Canvas options
  * @property {HTMLElement} parent - Parent element
  * @property {Point} size - Canvas size
- * @property {boolean} autoSize - Automatically resize the canvas
+ * @property {boolean} autoSize - Automatically resize the canvas to its parent element, or to the window when the parent is the body
  * @property {boolean} [imageSmoothingEnabled] - Enable image smoothing
  * @property {ImageSmoothingQuality} [imageSmoothingQuality] - Image smoothing quality
  * @property {string} [backgroundColor] - Background color
+ * @property {ScaleMode} [scaleMode] - How the canvas is scaled to its parent or the window when autoSize is on (Fit by default)
+ * @property {string} [letterboxColor] - Color of the borders around the scaled canvas (black by default)
+ * @property {boolean} [center] - Center the scaled canvas in its parent or the window (true by default)
+ * @property {boolean} [pixelPerfect] - Render at the base size in an offscreen canvas, then upscale it without smoothing
+ * @property {boolean} [fullResolutionUI] - With pixelPerfect, draw the UI phase on the visible canvas at full resolution
+ * @property {RendererType} [renderer] - The backend of the sprite batch, Canvas2D is used when WebGL2 is unavailable (Canvas2D by default)
  * @public
  */
 export interface CanvasOptions {
@@ -17,4 +25,10 @@ export interface CanvasOptions {
   imageSmoothingEnabled?: boolean;
   imageSmoothingQuality?: ImageSmoothingQuality;
   backgroundColor?: string;
+  scaleMode?: ScaleMode;
+  letterboxColor?: string;
+  center?: boolean;
+  pixelPerfect?: boolean;
+  fullResolutionUI?: boolean;
+  renderer?: RendererType;
 }
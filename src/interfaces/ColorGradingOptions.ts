@@ -0,0 +1,14 @@
+/**
+ * @interface ColorGradingOptions - The options of a color grading effect
+ * @property {number} [brightness] - The brightness, 1 keeps the frame unchanged
+ * @property {number} [contrast] - The contrast, 1 keeps the frame unchanged
+ * @property {number} [saturation] - The saturation, 1 keeps the frame unchanged
+ * @property {number} [hueRotate] - The rotation of the hue in degree
+ * @public
+ */
+export interface ColorGradingOptions {
+  brightness?: number;
+  contrast?: number;
+  saturation?: number;
+  hueRotate?: number;
+}
@@ -0,0 +1,12 @@
+import { ErrorFunction } from '../types/ErrorFunction';
+
+/**
+ * @interface DebugOptions - The debug options
+ * @property {boolean} [crashScreen] - Show a crash screen when the loop catches an error
+ * @property {ErrorFunction} [onError] - The function called when the loop catches an error
+ * @public
+ */
+export interface DebugOptions {
+  crashScreen?: boolean;
+  onError?: ErrorFunction;
+}
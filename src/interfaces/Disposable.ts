@@ -0,0 +1,8 @@
+/**
+ * @interface Disposable - Disposable interface
+ * @method dispose - Releases the resources held by the object
+ * @public
+ */
+export interface Disposable {
+  dispose(): void;
+}
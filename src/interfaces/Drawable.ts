@@ -3,8 +3,10 @@ import { DrawFunction } from '../types/DrawFunction';
 /**
  * @interface Drawable - Drawable interface
  * @method draw - Draw method
+ * @property {boolean} [isBatchable] - Whether everything it draws goes through the sprite batch, the others are drawn outside of the batch in a batched layer
  * @public
  */
 export interface Drawable {
   draw: DrawFunction;
+  readonly isBatchable?: boolean;
 }
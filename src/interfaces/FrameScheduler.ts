@@ -0,0 +1,14 @@
+import { FrameCallback } from '../types/FrameCallback';
+
+/**
+ * @interface FrameScheduler - Schedules the frames of the game loop
+ * @method now - Returns the current time in millisecond
+ * @method request - Requests a call of the callback on the next frame
+ * @method cancel - Cancels the pending request
+ * @public
+ */
+export interface FrameScheduler {
+  now(): number;
+  request(callback: FrameCallback): void;
+  cancel(): void;
+}
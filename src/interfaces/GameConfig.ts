@@ -0,0 +1,24 @@
+import { AudioOptions } from './AudioOptions';
+import { CanvasOptions } from './CanvasOptions';
+import { DebugOptions } from './DebugOptions';
+import { InputOptions } from './InputOptions';
+import { LoopOptions } from './LoopOptions';
+
+/**
+ * @interface GameConfig - The configuration of a game
+ * @property {CanvasOptions} [canvas] - The options of the canvas, created on start if not created before
+ * @property {LoopOptions} [loop] - The options of the game loop
+ * @property {InputOptions} [input] - The options of the inputs
+ * @property {AudioOptions} [audio] - The options of the sounds
+ * @property {DebugOptions} [debug] - The debug options
+ * @property {boolean} [printLogo] - Print the r-row logo in the console (true by default)
+ * @public
+ */
+export interface GameConfig {
+  canvas?: CanvasOptions;
+  loop?: LoopOptions;
+  input?: InputOptions;
+  audio?: AudioOptions;
+  debug?: DebugOptions;
+  printLogo?: boolean;
+}
@@ -0,0 +1,10 @@
+import { Point } from '../primitives/Point';
+
+/**
+ * @interface HitTestable - Hit-testable interface
+ * @method isContainsPoint - Whether a point, in the coordinates the object is drawn in, is inside the object
+ * @public
+ */
+export interface HitTestable {
+  isContainsPoint(point: Point): boolean;
+}
@@ -0,0 +1,14 @@
+/**
+ * @interface InputOptions - The options of the inputs
+ * @property {boolean} [keyboard] - Listen to the keyboard (true by default)
+ * @property {boolean} [mouse] - Listen to the mouse (true by default)
+ * @property {boolean} [touch] - Listen to the touch screen (true by default)
+ * @property {number} [touchClickDelay] - The maximum duration of a touch click in seconds
+ * @public
+ */
+export interface InputOptions {
+  keyboard?: boolean;
+  mouse?: boolean;
+  touch?: boolean;
+  touchClickDelay?: number;
+}
@@ -0,0 +1,11 @@
+import { Scene } from './Scene';
+
+/**
+ * @interface LoadingScene - Scene shown while the assets of another scene are loading
+ * @method onProgress - Called each time an asset is loaded
+ * @extends Scene
+ * @public
+ */
+export interface LoadingScene extends Scene {
+  onProgress(progress: number, assetName: string): void;
+}
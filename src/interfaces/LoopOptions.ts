@@ -0,0 +1,18 @@
+import { FrameScheduler } from './FrameScheduler';
+
+/**
+ * @interface LoopOptions - The options of the game loop
+ * @property {FrameScheduler} [scheduler] - The scheduler of the frames (requestAnimationFrame by default)
+ * @property {number} [timeScale] - The time scale (1 by default)
+ * @property {number} [fixedTimeStep] - The fixed time step in seconds, enables the fixed updates
+ * @property {number} [maxFixedSteps] - The maximum number of fixed updates per frame (5 by default)
+ * @property {number} [freezeLimit] - The delta time in seconds above which a frame is skipped
+ * @public
+ */
+export interface LoopOptions {
+  scheduler?: FrameScheduler;
+  timeScale?: number;
+  fixedTimeStep?: number;
+  maxFixedSteps?: number;
+  freezeLimit?: number;
+}
@@ -0,0 +1,16 @@
+import { LoopPhase } from '../enums/LoopPhase';
+
+/**
+ * @interface LoopSubscription - A function subscribed to the game loop
+ * @property {T} subscriber - The subscribed function
+ * @property {LoopPhase} phase - The phase the function runs in
+ * @property {number} priority - The order within the phase, lowest first
+ * @property {boolean} unscaled - Whether the function receives the real delta time
+ * @public
+ */
+export interface LoopSubscription<T> {
+  subscriber: T;
+  phase: LoopPhase;
+  priority: number;
+  unscaled: boolean;
+}
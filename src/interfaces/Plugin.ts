@@ -0,0 +1,14 @@
+import { PluginContext } from '../PluginContext';
+
+/**
+ * @interface Plugin - An extension installed on a game
+ * @property {string} name - The unique name of the plugin
+ * @method install - Called when the plugin is installed with Game.use
+ * @method [uninstall] - Called before the resources of the plugin are released
+ * @public
+ */
+export interface Plugin {
+  name: string;
+  install(context: PluginContext): void;
+  uninstall?(context: PluginContext): void;
+}
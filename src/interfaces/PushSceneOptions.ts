@@ -0,0 +1,8 @@
+/**
+ * @interface PushSceneOptions - The options for pushing a scene on the scene stack
+ * @property {boolean} [isOverlay] - Keep drawing the scenes below the pushed scene
+ * @public
+ */
+export interface PushSceneOptions {
+  isOverlay?: boolean;
+}
@@ -0,0 +1,12 @@
+/**
+ * @interface RecordingOptions - The options of a gameplay recording
+ * @property {number} [frameRate] - The frames captured per second (60 by default)
+ * @property {string} [mimeType] - The video format ('video/webm' by default)
+ * @property {number} [videoBitsPerSecond] - The bitrate of the video, chosen by the browser by default
+ * @public
+ */
+export interface RecordingOptions {
+  frameRate?: number;
+  mimeType?: string;
+  videoBitsPerSecond?: number;
+}
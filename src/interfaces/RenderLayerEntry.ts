@@ -0,0 +1,16 @@
+import { Drawable } from './Drawable';
+
+/**
+ * @interface RenderLayerEntry - A drawable registered to a render layer
+ * @property {Drawable} drawable - The drawable
+ * @property {number} z - The order of the drawable in the layer
+ * @property {number} order - The order the drawable was added in, for equal z
+ * @property {() => number} [getY] - Returns the y position used by the y-sort
+ * @public
+ */
+export interface RenderLayerEntry {
+  drawable: Drawable;
+  z: number;
+  order: number;
+  getY?: () => number;
+}
@@ -0,0 +1,23 @@
+import { LayerSpace } from '../enums/LayerSpace';
+import { Point } from '../primitives/Point';
+
+/**
+ * @interface RenderLayerOptions - The options of a render layer
+ * @property {number} [zIndex] - The order of the layer, negative layers are drawn before the scenes (0 by default)
+ * @property {boolean} [isVisible] - Draw the layer (true by default)
+ * @property {number} [opacity] - The opacity of the layer, between 0 and 1 (1 by default)
+ * @property {Point} [parallax] - How much the layer follows the camera on each axis (1 by default)
+ * @property {LayerSpace} [space] - Draw the layer through the camera or over the view (World by default)
+ * @property {boolean} [ySort] - Sort drawables with the same z by their y position, for top-down games
+ * @property {boolean} [isBatched] - Draw the sprites of the layer through the sprite batch of the canvas
+ * @public
+ */
+export interface RenderLayerOptions {
+  zIndex?: number;
+  isVisible?: boolean;
+  opacity?: number;
+  parallax?: Point;
+  space?: LayerSpace;
+  ySort?: boolean;
+  isBatched?: boolean;
+}
@@ -0,0 +1,12 @@
+import { LoopPhase } from '../enums/LoopPhase';
+
+/**
+ * @interface RenderSubscriptionOptions - The options for a render subscription
+ * @property {LoopPhase} [phase] - The render phase to run in, from LoopPhase.PreRender to LoopPhase.UI
+ * @property {number} [priority] - The order within the phase, lowest first (0 by default)
+ * @public
+ */
+export interface RenderSubscriptionOptions {
+  phase?: LoopPhase;
+  priority?: number;
+}
@@ -1,15 +1,27 @@
 import { Drawable } from './Drawable';
 import { Updatable } from './Updatable';
+import { AssetManifest } from './AssetManifest';
 
 /**
  * @interface Scene - Scene interface
+ * @template TData - The type of the data passed to the load method
  * @method load - Load method
  * @method unload - Unload method
+ * @method [fixedUpdate] - Fixed update method, called with the fixed time step when enabled on the GameLoop
+ * @method [pause] - Pause method, called when another scene is pushed over this scene
+ * @method [resume] - Resume method, called with the data returned by the popped scene when this scene is uncovered
+ * @method [preload] - Preload method, awaited before the scene is loaded
+ * @property {AssetManifest} [assets] - The assets loaded before the scene is loaded
  * @extends IUpdatable
  * @extends IDrawable
  * @public
  */
-export interface Scene extends Updatable, Drawable {
-  load(data?: any): void;
+export interface Scene<TData = any> extends Updatable, Drawable {
+  load(data?: TData): void;
   unload(): void;
+  fixedUpdate?(deltaTime: number): void;
+  pause?(): void;
+  resume?(data?: any): void;
+  preload?(): Promise<void>;
+  assets?: AssetManifest;
 }
@@ -0,0 +1,16 @@
+import { Scene } from './Scene';
+
+/**
+ * @interface SceneListener - Listens to the lifecycle of the scenes of a SceneManager
+ * @method [onLoad] - Called after a scene is loaded
+ * @method [onUnload] - Called after a scene is unloaded
+ * @method [onPause] - Called after a scene is paused by a pushed scene
+ * @method [onResume] - Called after a scene is resumed by popping the scene above
+ * @public
+ */
+export interface SceneListener {
+  onLoad?(scene: Scene, data?: any): void;
+  onUnload?(scene: Scene): void;
+  onPause?(scene: Scene): void;
+  onResume?(scene: Scene, result?: any): void;
+}
@@ -0,0 +1,19 @@
+import { Scene } from './Scene';
+import { SceneScope } from '../SceneScope';
+
+/**
+ * @interface SceneStackEntry - An entry of the scene stack
+ * @property {Scene} scene - The loaded scene
+ * @property {boolean} isOverlay - Whether the scenes below are still drawn
+ * @property {SceneScope} scope - The resources released when the scene is unloaded
+ * @property {string} [key] - The key of the scene if it was created from the registry
+ * @property {any} [data] - The data passed to the scene when it was loaded
+ * @public
+ */
+export interface SceneStackEntry {
+  scene: Scene;
+  isOverlay: boolean;
+  scope: SceneScope;
+  key?: string;
+  data?: any;
+}
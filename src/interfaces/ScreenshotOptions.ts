@@ -0,0 +1,16 @@
+import { Rectangle } from '../primitives/Rectangle';
+
+/**
+ * @interface ScreenshotOptions - The options of a screenshot
+ * @property {Rectangle} [area] - The captured region, in canvas units (the whole base size by default)
+ * @property {boolean} [baseResolution] - Capture one pixel per canvas unit instead of the pixels of the screen
+ * @property {string} [type] - The image format ('image/png' by default)
+ * @property {number} [quality] - The quality of lossy formats, between 0 and 1
+ * @public
+ */
+export interface ScreenshotOptions {
+  area?: Rectangle;
+  baseResolution?: boolean;
+  type?: string;
+  quality?: number;
+}
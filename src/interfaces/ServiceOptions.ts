@@ -0,0 +1,14 @@
+import { Game } from '../Game';
+
+/**
+ * @interface ServiceOptions - The options for registering a service
+ * @property {boolean} [lazy] - Create the shared instance on its first resolution instead of on registration (true by default)
+ * @property {boolean} [singleton] - Share one instance instead of creating one on each resolution (true by default)
+ * @property {Game} [game] - The only game the service is registered for, resolved before the services of every game (every game by default)
+ * @public
+ */
+export interface ServiceOptions {
+  lazy?: boolean;
+  singleton?: boolean;
+  game?: Game;
+}
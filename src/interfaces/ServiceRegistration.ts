@@ -0,0 +1,16 @@
+import { ServiceFactory } from '../types/ServiceFactory';
+
+/**
+ * @interface ServiceRegistration - A service registered in the ServiceContainer
+ * @property {ServiceFactory<T>} factory - The function that creates the service
+ * @property {boolean} singleton - Whether one instance is shared
+ * @property {boolean} isCreated - Whether the shared instance is created
+ * @property {T} [instance] - The shared instance
+ * @public
+ */
+export interface ServiceRegistration<T = any> {
+  factory: ServiceFactory<T>;
+  singleton: boolean;
+  isCreated: boolean;
+  instance?: T;
+}
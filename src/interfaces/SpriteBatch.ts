@@ -0,0 +1,32 @@
+import { RendererType } from '../enums/RendererType';
+
+/**
+ * @interface SpriteBatch - Groups the sprites drawn between begin and end
+ * @property {RendererType} type - The backend drawing the sprites
+ * @method begin - Starts a batch, the sprites drawn on the context are then batched
+ * @method end - Draws the batched sprites on the context and ends the batch
+ * @method flush - Draws the sprites batched so far on the context, before something is drawn directly on it
+ * @method isBatching - Whether the sprites drawn on a context are batched
+ * @method drawImage - Adds a region of an image, transformed by a matrix, to the batch
+ * @method destroy - Releases the resources of the batch
+ * @public
+ */
+export interface SpriteBatch {
+  readonly type: RendererType;
+  begin(context: CanvasRenderingContext2D): void;
+  end(): void;
+  flush(): void;
+  isBatching(context: CanvasRenderingContext2D): boolean;
+  drawImage(
+    image: HTMLImageElement | HTMLCanvasElement,
+    sourceX: number,
+    sourceY: number,
+    sourceWidth: number,
+    sourceHeight: number,
+    width: number,
+    height: number,
+    transform: DOMMatrix,
+    alpha: number
+  ): void;
+  destroy(): void;
+}
@@ -0,0 +1,14 @@
+import { LoopPhase } from '../enums/LoopPhase';
+
+/**
+ * @interface UpdateSubscriptionOptions - The options for an update subscription
+ * @property {boolean} [unscaled] - Receive the real delta time, ignoring the time scale, and keep being updated while the game loop is paused
+ * @property {LoopPhase} [phase] - The update phase to run in, from LoopPhase.Input to LoopPhase.LateUpdate (LoopPhase.Update by default)
+ * @property {number} [priority] - The order within the phase, lowest first (0 by default)
+ * @public
+ */
+export interface UpdateSubscriptionOptions {
+  unscaled?: boolean;
+  phase?: LoopPhase;
+  priority?: number;
+}
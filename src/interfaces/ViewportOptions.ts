@@ -0,0 +1,12 @@
+/**
+ * @interface ViewportOptions - The options of a viewport
+ * @property {boolean} [clip] - Clip the drawing to the area of the viewport (true by default)
+ * @property {string} [backgroundColor] - The color filling the area before drawing
+ * @property {boolean} [isVisible] - Draw the viewport (true by default)
+ * @public
+ */
+export interface ViewportOptions {
+  clip?: boolean;
+  backgroundColor?: string;
+  isVisible?: boolean;
+}
@@ -0,0 +1,385 @@
+import { Camera } from '../cameras/Camera';
+import { LayerSpace } from '../enums/LayerSpace';
+import { Drawable } from '../interfaces/Drawable';
+import { RenderLayerEntry } from '../interfaces/RenderLayerEntry';
+import { RenderLayerOptions } from '../interfaces/RenderLayerOptions';
+import { SpriteBatch } from '../interfaces/SpriteBatch';
+import { Point } from '../primitives/Point';
+
+/**
+ * @class RenderLayer - A named group of drawables, drawn in order of their z.
+ * @public
+ */
+export class RenderLayer {
+  private _name: string;
+  private _zIndex: number;
+  private _isVisible: boolean;
+  private _opacity: number;
+  private _parallax: Point;
+  private _space: LayerSpace;
+  private _ySort: boolean;
+  private _isBatched: boolean;
+  private _entries: RenderLayerEntry[];
+  private _nextOrder: number;
+  private _isSorted: boolean;
+
+  /**
+   * @constructor
+   * @param {string} name - The name of the layer.
+   * @param {RenderLayerOptions} [options] - The options of the layer.
+   * @public
+   * @example
+   * const clouds = new RenderLayer('clouds', { zIndex: -50, parallax: new Point(0.5, 0.5) });
+   */
+  public constructor(name: string, options: RenderLayerOptions = {}) {
+    this._name = name;
+    this._zIndex = options.zIndex ?? 0;
+    this._isVisible = options.isVisible ?? true;
+    this._opacity = 1;
+    this._parallax = options.parallax ?? new Point(1, 1);
+    this._space = options.space ?? LayerSpace.World;
+    this._ySort = options.ySort ?? false;
+    this._isBatched = options.isBatched ?? false;
+    this._entries = [];
+    this._nextOrder = 0;
+    this._isSorted = true;
+    if (options.opacity !== undefined) this.setOpacity(options.opacity);
+  }
+
+  /**
+   * @get name - The name of the layer.
+   * @returns {string} The name of the layer.
+   * @public
+   * @example
+   * layer.name;
+   */
+  public get name(): string {
+    return this._name;
+  }
+
+  /**
+   * @get zIndex - The order of the layer, negative layers are drawn before the scenes.
+   * @returns {number} The z-index of the layer.
+   * @public
+   * @example
+   * layer.zIndex;
+   */
+  public get zIndex(): number {
+    return this._zIndex;
+  }
+
+  /**
+   * @get isVisible - Whether the layer is drawn.
+   * @returns {boolean} True if the layer is drawn.
+   * @public
+   * @example
+   * layer.isVisible;
+   */
+  public get isVisible(): boolean {
+    return this._isVisible;
+  }
+
+  /**
+   * @get opacity - The opacity of the layer.
+   * @returns {number} The opacity, between 0 and 1.
+   * @public
+   * @example
+   * layer.opacity;
+   */
+  public get opacity(): number {
+    return this._opacity;
+  }
+
+  /**
+   * @get parallax - How much the layer follows the camera on each axis.
+   * @returns {Point} The parallax factor, 1 follows the camera and 0 stays fixed.
+   * @public
+   * @example
+   * layer.parallax;
+   */
+  public get parallax(): Point {
+    return this._parallax;
+  }
+
+  /**
+   * @get space - Whether the layer is drawn through the camera or over the view.
+   * @returns {LayerSpace} The space of the layer.
+   * @public
+   * @example
+   * layer.space;
+   */
+  public get space(): LayerSpace {
+    return this._space;
+  }
+
+  /**
+   * @get ySort - Whether the drawables with the same z are sorted by their y position.
+   * @returns {boolean} True if the layer is y-sorted.
+   * @public
+   * @example
+   * layer.ySort;
+   */
+  public get ySort(): boolean {
+    return this._ySort;
+  }
+
+  /**
+   * @get isBatched - Whether the sprites of the layer are drawn through the sprite batch.
+   * @returns {boolean} True if the layer is batched.
+   * @public
+   * @example
+   * layer.isBatched;
+   */
+  public get isBatched(): boolean {
+    return this._isBatched;
+  }
+
+  /**
+   * @get drawables - The drawables of the layer, in drawing order.
+   * @returns {Drawable[]} The drawables.
+   * @public
+   * @example
+   * layer.drawables;
+   */
+  public get drawables(): Drawable[] {
+    this._sort();
+    return this._entries.map((entry) => entry.drawable);
+  }
+
+  /**
+   * @method setZIndex - Sets the order of the layer.
+   * @param {number} zIndex - The z-index of the layer.
+   * @returns {RenderLayer} The instance of the RenderLayer class.
+   * @public
+   * @example
+   * layer.setZIndex(-10);
+   */
+  public setZIndex(zIndex: number): RenderLayer {
+    this._zIndex = zIndex;
+    return this;
+  }
+
+  /**
+   * @method setVisible - Shows or hides the layer.
+   * @param {boolean} isVisible - Whether the layer is drawn.
+   * @returns {RenderLayer} The instance of the RenderLayer class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.getLayer('debug').setVisible(false);
+   */
+  public setVisible(isVisible: boolean): RenderLayer {
+    this._isVisible = isVisible;
+    return this;
+  }
+
+  /**
+   * @method setOpacity - Sets the opacity of the layer.
+   * @param {number} opacity - The opacity, between 0 and 1.
+   * @returns {RenderLayer} The instance of the RenderLayer class.
+   * @public
+   * @example
+   * layer.setOpacity(0.5);
+   */
+  public setOpacity(opacity: number): RenderLayer {
+    if (opacity < 0 || opacity > 1)
+      throw new Error('Opacity must be between 0 and 1.');
+    this._opacity = opacity;
+    return this;
+  }
+
+  /**
+   * @method setParallax - Sets how much the layer follows the camera on each axis.
+   * @param {Point} parallax - The parallax factor, 1 follows the camera and 0 stays fixed.
+   * @returns {RenderLayer} The instance of the RenderLayer class.
+   * @public
+   * @example
+   * layer.setParallax(new Point(0.2, 1));
+   */
+  public setParallax(parallax: Point): RenderLayer {
+    this._parallax = parallax;
+    return this;
+  }
+
+  /**
+   * @method setSpace - Sets whether the layer is drawn through the camera or over the view.
+   * @param {LayerSpace} space - The space of the layer.
+   * @returns {RenderLayer} The instance of the RenderLayer class.
+   * @public
+   * @example
+   * layer.setSpace(LayerSpace.Screen);
+   */
+  public setSpace(space: LayerSpace): RenderLayer {
+    this._space = space;
+    return this;
+  }
+
+  /**
+   * @method setYSort - Sets whether the drawables with the same z are sorted by their y position.
+   * @param {boolean} ySort - Whether the layer is y-sorted.
+   * @returns {RenderLayer} The instance of the RenderLayer class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.getLayer('world').setYSort(true);
+   */
+  public setYSort(ySort: boolean): RenderLayer {
+    this._ySort = ySort;
+    this._isSorted = false;
+    return this;
+  }
+
+  /**
+   * @method setBatched - Sets whether the sprites of the layer are drawn through the sprite batch. The batch is flushed before each drawable that is not batchable, which draws its own sprites directly.
+   * @param {boolean} isBatched - Whether the layer is batched.
+   * @returns {RenderLayer} The instance of the RenderLayer class.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.addLayer(new RenderLayer('bullets')).setBatched(true);
+   */
+  public setBatched(isBatched: boolean): RenderLayer {
+    this._isBatched = isBatched;
+    return this;
+  }
+
+  /**
+   * @method add - Adds a drawable to the layer, or changes its z if it is already in it.
+   * @param {Drawable} drawable - The drawable.
+   * @param {number} [z=0] - The order of the drawable in the layer.
+   * @param {() => number} [getY] - Returns the y position used by the y-sort, the y of the position of the drawable by default.
+   * @returns {RenderLayer} The instance of the RenderLayer class.
+   * @public
+   * @example
+   * layer.add(player, 1, () => player.position.y + player.size.y);
+   */
+  public add(
+    drawable: Drawable,
+    z: number = 0,
+    getY?: () => number
+  ): RenderLayer {
+    const entry = this._entries.find((entry) => entry.drawable === drawable);
+    if (entry) {
+      entry.z = z;
+      entry.getY = getY;
+    } else {
+      this._entries.push({ drawable, z, order: this._nextOrder++, getY });
+    }
+    this._isSorted = false;
+    return this;
+  }
+
+  /**
+   * @method remove - Removes a drawable from the layer.
+   * @param {Drawable} drawable - The drawable.
+   * @returns {RenderLayer} The instance of the RenderLayer class.
+   * @public
+   * @example
+   * layer.remove(player);
+   */
+  public remove(drawable: Drawable): RenderLayer {
+    this._entries = this._entries.filter(
+      (entry) => entry.drawable !== drawable
+    );
+    return this;
+  }
+
+  /**
+   * @method has - Whether a drawable is in the layer.
+   * @param {Drawable} drawable - The drawable.
+   * @returns {boolean} True if the drawable is in the layer.
+   * @public
+   * @example
+   * layer.has(player);
+   */
+  public has(drawable: Drawable): boolean {
+    return this._entries.some((entry) => entry.drawable === drawable);
+  }
+
+  /**
+   * @method clear - Removes all the drawables of the layer.
+   * @returns {RenderLayer} The instance of the RenderLayer class.
+   * @public
+   * @example
+   * layer.clear();
+   */
+  public clear(): RenderLayer {
+    this._entries = [];
+    return this;
+  }
+
+  /**
+   * @method draw - Draws the drawables of the layer in order. Called by the GameCanvas.
+   * @param {CanvasRenderingContext2D} context - The context, already transformed by the camera in world space.
+   * @param {Camera} [camera] - The camera the context is transformed by, for the parallax.
+   * @param {SpriteBatch} [spriteBatch] - The sprite batch used when the layer is batched.
+   * @returns {void}
+   * @public
+   */
+  public draw(
+    context: CanvasRenderingContext2D,
+    camera?: Camera,
+    spriteBatch?: SpriteBatch
+  ): void {
+    if (!this._isVisible || this._opacity === 0) return;
+    this._sort();
+    context.save();
+    try {
+      context.globalAlpha *= this._opacity;
+      if (camera && this._space === LayerSpace.World) {
+        const position = camera.position;
+        context.translate(
+          position.x * (1 - this._parallax.x),
+          position.y * (1 - this._parallax.y)
+        );
+      }
+      const batch = this._isBatched ? spriteBatch : undefined;
+      batch?.begin(context);
+      try {
+        this._entries.forEach(({ drawable }) => {
+          if (!batch || drawable.isBatchable) {
+            drawable.draw(context);
+            return;
+          }
+          // What does not go through the batch is drawn over the sprites before it, and so are the sprites it draws.
+          batch.end();
+          try {
+            drawable.draw(context);
+          } finally {
+            batch.begin(context);
+          }
+        });
+      } finally {
+        batch?.end();
+      }
+    } finally {
+      context.restore();
+    }
+  }
+
+  /**
+   * @method _sort - Sorts the drawables by z, then by y when y-sorted, then by the order they were added in.
+   * @returns {void}
+   * @private
+   */
+  private _sort(): void {
+    if (this._isSorted && !this._ySort) return;
+    const ySort = this._ySort;
+    this._entries.sort(
+      (a, b) =>
+        a.z - b.z ||
+        (ySort ? this._getY(a) - this._getY(b) : 0) ||
+        a.order - b.order
+    );
+    this._isSorted = true;
+  }
+
+  /**
+   * @method _getY - Returns the y position of a drawable for the y-sort.
+   * @param {RenderLayerEntry} entry - The entry of the drawable.
+   * @returns {number} The y position, 0 if the drawable has no position.
+   * @private
+   */
+  private _getY(entry: RenderLayerEntry): number {
+    if (entry.getY) return entry.getY();
+    const position = (entry.drawable as { position?: unknown }).position;
+    return position instanceof Point ? position.y : 0;
+  }
+}
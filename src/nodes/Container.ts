@@ -0,0 +1,29 @@
+import { Drawable } from '../interfaces/Drawable';
+import { Point } from '../primitives/Point';
+import { Node } from './Node';
+
+/**
+ * @class Container - A node grouping sprites, sprite sheets, primitives and other nodes under one transform.
+ * @extends {Node}
+ * @public
+ */
+export class Container extends Node {
+  /**
+   * @constructor
+   * @param {Drawable[]} [children=[]] - The children of the container, in drawing order.
+   * @param {Point} [position=new Point(0, 0)] - The position of the container in the space of its parent.
+   * @param {string} [name=''] - The name of the container.
+   * @public
+   * @example
+   * const player = new Container([body, weapon], new Point(100, 100), 'player');
+   * ServiceContainer.SceneManager.scope.addToLayer('world', player);
+   */
+  public constructor(
+    children: Drawable[] = [],
+    position: Point = new Point(0, 0),
+    name: string = ''
+  ) {
+    super(position, name);
+    for (const child of children) this.addChild(child);
+  }
+}
@@ -0,0 +1,496 @@
+import { GameCanvas } from '../GameCanvas';
+import { Drawable } from '../interfaces/Drawable';
+import { HitTestable } from '../interfaces/HitTestable';
+import { Updatable } from '../interfaces/Updatable';
+import { Point } from '../primitives/Point';
+
+/**
+ * @class Node - An element of the scene graph, holding children drawn and hit-tested in its local space.
+ * @implements {Drawable}
+ * @implements {Updatable}
+ * @implements {HitTestable}
+ * @public
+ */
+export abstract class Node implements Drawable, Updatable, HitTestable {
+  protected _name: string;
+  protected _position: Point;
+  protected _rotation: number;
+  protected _scale: Point;
+  protected _alpha: number;
+  protected _isVisible: boolean;
+  protected _parent?: Node;
+  protected _children: Drawable[];
+
+  /**
+   * @constructor
+   * @param {Point} [position=new Point(0, 0)] - The position of the node in the space of its parent.
+   * @param {string} [name=''] - The name of the node.
+   * @protected
+   */
+  protected constructor(position: Point = new Point(0, 0), name: string = '') {
+    this._name = name;
+    this._position = position;
+    this._rotation = 0;
+    this._scale = new Point(1, 1);
+    this._alpha = 1;
+    this._isVisible = true;
+    this._children = [];
+  }
+
+  /**
+   * @get name - The name of the node.
+   * @returns {string} The name of the node.
+   * @public
+   * @example
+   * node.name;
+   */
+  public get name(): string {
+    return this._name;
+  }
+
+  /**
+   * @set name - Sets the name of the node.
+   * @param {string} value - The name of the node.
+   * @public
+   * @example
+   * node.name = 'player';
+   */
+  public set name(value: string) {
+    this._name = value;
+  }
+
+  /**
+   * @get position - The position of the node in the space of its parent.
+   * @returns {Point} The position of the node.
+   * @public
+   * @example
+   * node.position;
+   */
+  public get position(): Point {
+    return this._position;
+  }
+
+  /**
+   * @set position - Sets the position of the node in the space of its parent.
+   * @param {Point} value - The position of the node.
+   * @public
+   * @example
+   * node.position = new Point(10, 10);
+   */
+  public set position(value: Point) {
+    this._position = value;
+  }
+
+  /**
+   * @get rotation - The rotation of the node around its position in radian.
+   * @returns {number} The rotation of the node.
+   * @public
+   * @example
+   * node.rotation;
+   */
+  public get rotation(): number {
+    return this._rotation;
+  }
+
+  /**
+   * @set rotation - Sets the rotation of the node around its position in radian.
+   * @param {number} value - The rotation of the node.
+   * @public
+   * @example
+   * node.rotation = Math.PI / 2;
+   */
+  public set rotation(value: number) {
+    this._rotation = value;
+  }
+
+  /**
+   * @get scale - The scale of the node on each axis.
+   * @returns {Point} The scale of the node.
+   * @public
+   * @example
+   * node.scale;
+   */
+  public get scale(): Point {
+    return this._scale;
+  }
+
+  /**
+   * @set scale - Sets the scale of the node on each axis.
+   * @param {Point} value - The scale of the node.
+   * @public
+   * @example
+   * node.scale = new Point(2, 2);
+   */
+  public set scale(value: Point) {
+    this._scale = value;
+  }
+
+  /**
+   * @get alpha - The opacity of the node, multiplied with the opacity of its parents.
+   * @returns {number} The opacity, between 0 and 1.
+   * @public
+   * @example
+   * node.alpha;
+   */
+  public get alpha(): number {
+    return this._alpha;
+  }
+
+  /**
+   * @set alpha - Sets the opacity of the node and its children.
+   * @param {number} value - The opacity, between 0 and 1.
+   * @public
+   * @example
+   * node.alpha = 0.5;
+   */
+  public set alpha(value: number) {
+    if (value < 0 || value > 1)
+      throw new Error('Node alpha must be between 0 and 1.');
+    this._alpha = value;
+  }
+
+  /**
+   * @get isVisible - Whether the node and its children are drawn and hit-tested.
+   * @returns {boolean} True if the node is visible.
+   * @public
+   * @example
+   * node.isVisible;
+   */
+  public get isVisible(): boolean {
+    return this._isVisible;
+  }
+
+  /**
+   * @set isVisible - Shows or hides the node and its children.
+   * @param {boolean} value - True to show the node.
+   * @public
+   * @example
+   * node.isVisible = false;
+   */
+  public set isVisible(value: boolean) {
+    this._isVisible = value;
+  }
+
+  /**
+   * @get parent - The node holding this node.
+   * @returns {Node | undefined} The parent, undefined for a root.
+   * @public
+   * @example
+   * node.parent;
+   */
+  public get parent(): Node | undefined {
+    return this._parent;
+  }
+
+  /**
+   * @get children - The children of the node, in drawing order.
+   * @returns {Drawable[]} A copy of the children.
+   * @public
+   * @example
+   * node.children;
+   */
+  public get children(): Drawable[] {
+    return this._children.slice();
+  }
+
+  /**
+   * @get isBatchable - Whether the node is drawn through the sprite batch of a batched layer, its children that are not batchable are drawn outside of it. A node drawing directly in _drawSelf returns false.
+   * @returns {boolean} True if the node is batchable.
+   * @public
+   * @example
+   * node.isBatchable;
+   */
+  public get isBatchable(): boolean {
+    return true;
+  }
+
+  /**
+   * @get localTransform - The transform from the space of the node to the space of its parent.
+   * @returns {DOMMatrix} The local transform.
+   * @public
+   * @example
+   * node.localTransform;
+   */
+  public get localTransform(): DOMMatrix {
+    const transform = new DOMMatrix();
+    transform.translateSelf(this._position.x, this._position.y);
+    if (this._rotation !== 0)
+      transform.rotateSelf((this._rotation * 180) / Math.PI);
+    transform.scaleSelf(this._scale.x, this._scale.y);
+    return transform;
+  }
+
+  /**
+   * @get worldTransform - The transform from the space of the node to the space its root is drawn in.
+   * @returns {DOMMatrix} The world transform.
+   * @public
+   * @example
+   * node.worldTransform;
+   */
+  public get worldTransform(): DOMMatrix {
+    const transform = this.localTransform;
+    return this._parent
+      ? this._parent.worldTransform.multiply(transform)
+      : transform;
+  }
+
+  /**
+   * @get worldPosition - The position of the node in the space its root is drawn in.
+   * @returns {Point} The world position.
+   * @public
+   * @example
+   * node.worldPosition;
+   */
+  public get worldPosition(): Point {
+    return this.toWorld(new Point(0, 0));
+  }
+
+  /**
+   * @get worldAlpha - The opacity the node is drawn with.
+   * @returns {number} The alpha of the node multiplied with the alpha of its parents.
+   * @public
+   * @example
+   * node.worldAlpha;
+   */
+  public get worldAlpha(): number {
+    return this._parent ? this._parent.worldAlpha * this._alpha : this._alpha;
+  }
+
+  /**
+   * @get isWorldVisible - Whether the node and all its parents are visible.
+   * @returns {boolean} True if the node is drawn.
+   * @public
+   * @example
+   * node.isWorldVisible;
+   */
+  public get isWorldVisible(): boolean {
+    return this._isVisible && (!this._parent || this._parent.isWorldVisible);
+  }
+
+  /**
+   * @method addChild - Adds a child on top of the others, or at an index. A node is removed from its previous parent.
+   * @param {T} child - The node, sprite, sprite sheet or primitive to add.
+   * @param {number} [index] - The index in the drawing order, the end by default.
+   * @returns {T} The child.
+   * @public
+   * @example
+   * const weapon = player.addChild(new Sprite('sword'));
+   */
+  public addChild<T extends Drawable>(child: T, index?: number): T {
+    if (child instanceof Node) {
+      for (let node: Node | undefined = this; node; node = node._parent)
+        if (node === child)
+          throw new Error('A node cannot be added to itself or its children.');
+      child.removeFromParent();
+      child._parent = this;
+    } else this.removeChild(child);
+    if (index === undefined) this._children.push(child);
+    else this._children.splice(index, 0, child);
+    return child;
+  }
+
+  /**
+   * @method removeChild - Removes a child from the node.
+   * @param {Drawable} child - The child to remove.
+   * @returns {boolean} True if the child was in the node.
+   * @public
+   * @example
+   * player.removeChild(weapon);
+   */
+  public removeChild(child: Drawable): boolean {
+    const index = this._children.indexOf(child);
+    if (index === -1) return false;
+    this._children.splice(index, 1);
+    if (child instanceof Node) child._parent = undefined;
+    return true;
+  }
+
+  /**
+   * @method removeFromParent - Removes the node from its parent.
+   * @returns {Node} The instance of the Node class.
+   * @public
+   * @example
+   * weapon.removeFromParent();
+   */
+  public removeFromParent(): Node {
+    if (this._parent) this._parent.removeChild(this);
+    return this;
+  }
+
+  /**
+   * @method removeChildren - Removes all the children of the node.
+   * @returns {Node} The instance of the Node class.
+   * @public
+   * @example
+   * inventory.removeChildren();
+   */
+  public removeChildren(): Node {
+    for (const child of this._children)
+      if (child instanceof Node) child._parent = undefined;
+    this._children = [];
+    return this;
+  }
+
+  /**
+   * @method getChildByName - Returns the first child node with a name, searching the descendants.
+   * @param {string} name - The name of the node.
+   * @returns {Node | undefined} The node, undefined if none has the name.
+   * @public
+   * @example
+   * player.getChildByName('weapon');
+   */
+  public getChildByName(name: string): Node | undefined {
+    for (const child of this._children) {
+      if (!(child instanceof Node)) continue;
+      if (child._name === name) return child;
+      const found = child.getChildByName(name);
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  /**
+   * @method toWorld - Converts a point from the space of the node to the space its root is drawn in.
+   * @param {Point} point - The point in the space of the node.
+   * @returns {Point} The point in world space.
+   * @public
+   * @example
+   * const muzzle = weapon.toWorld(new Point(16, 0));
+   */
+  public toWorld(point: Point): Point {
+    const result = this.worldTransform.transformPoint(point);
+    return new Point(result.x, result.y);
+  }
+
+  /**
+   * @method toLocal - Converts a point from the space the root is drawn in to the space of the node.
+   * @param {Point} point - The point in world space.
+   * @returns {Point} The point in the space of the node.
+   * @public
+   * @example
+   * const local = player.toLocal(ServiceContainer.Mouse.position);
+   */
+  public toLocal(point: Point): Point {
+    const result = this.worldTransform.inverse().transformPoint(point);
+    return new Point(result.x, result.y);
+  }
+
+  /**
+   * @method update - Updates the node, then its updatable children.
+   * @param {number} deltaTime - The time since the last update in second.
+   * @returns {void}
+   * @public
+   */
+  public update(deltaTime: number): void {
+    this._updateSelf(deltaTime);
+    for (const child of this._children.slice()) {
+      const updatable = child as Partial<Updatable>;
+      if (typeof updatable.update === 'function') updatable.update(deltaTime);
+    }
+  }
+
+  /**
+   * @method draw - Draws the node, then its children in order, in its local space.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {number} [alpha] - The interpolation factor between the last two fixed updates, passed to the children.
+   * @returns {void}
+   * @public
+   */
+  public draw(context: CanvasRenderingContext2D, alpha?: number): void {
+    if (!this._isVisible || this._alpha === 0) return;
+    const spriteBatch = GameCanvas.fromContext(context)?.spriteBatch;
+    const batch = spriteBatch?.isBatching(context) ? spriteBatch : undefined;
+    context.save();
+    context.translate(this._position.x, this._position.y);
+    if (this._rotation !== 0) context.rotate(this._rotation);
+    context.scale(this._scale.x, this._scale.y);
+    context.globalAlpha *= this._alpha;
+    this._drawSelf(context, alpha);
+    for (const child of this._children) {
+      if (!batch || child.isBatchable) {
+        child.draw(context, alpha);
+        continue;
+      }
+      // Drawn over the sprites batched before it, like in a batched layer.
+      batch.end();
+      try {
+        child.draw(context, alpha);
+      } finally {
+        batch.begin(context);
+      }
+    }
+    context.restore();
+  }
+
+  /**
+   * @method isContainsPoint - Checks if the node or one of its children covers a point.
+   * @param {Point} point - The point in the space of the parent.
+   * @returns {boolean} True if the node contains the point.
+   * @public
+   * @example
+   * node.isContainsPoint(ServiceContainer.Mouse.position);
+   */
+  public isContainsPoint(point: Point): boolean {
+    return this.hitTest(point) !== undefined;
+  }
+
+  /**
+   * @method hitTest - Returns the topmost visible node or child covering a point. Children without hit-testing are ignored.
+   * @param {Point} point - The point in the space of the parent.
+   * @returns {Drawable | undefined} The hit node or child, undefined if nothing covers the point.
+   * @public
+   * @example
+   * const hit = root.hitTest(ServiceContainer.Mouse.position);
+   * if (hit === button) button.press();
+   */
+  public hitTest(point: Point): Drawable | undefined {
+    if (!this._isVisible) return undefined;
+    const result = this.localTransform.inverse().transformPoint(point);
+    const local = new Point(result.x, result.y);
+    for (let i = this._children.length - 1; i >= 0; i--) {
+      const child = this._children[i];
+      if (child instanceof Node) {
+        const hit = child.hitTest(local);
+        if (hit) return hit;
+      } else {
+        const testable = child as Partial<HitTestable>;
+        if (
+          typeof testable.isContainsPoint === 'function' &&
+          testable.isContainsPoint(local)
+        )
+          return child;
+      }
+    }
+    return this._isContainsLocalPoint(local) ? this : undefined;
+  }
+
+  /**
+   * @method _updateSelf - Updates the node itself, before its children. Does nothing by default.
+   * @param {number} deltaTime - The time since the last update in second.
+   * @returns {void}
+   * @protected
+   */
+  protected _updateSelf(deltaTime: number): void {}
+
+  /**
+   * @method _drawSelf - Draws the node itself in its local space, under its children. Draws nothing by default.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {number} [alpha] - The interpolation factor between the last two fixed updates.
+   * @returns {void}
+   * @protected
+   */
+  protected _drawSelf(
+    context: CanvasRenderingContext2D,
+    alpha?: number
+  ): void {}
+
+  /**
+   * @method _isContainsLocalPoint - Checks if the node itself covers a point. Covers nothing by default.
+   * @param {Point} point - The point in the space of the node.
+   * @returns {boolean} True if the node contains the point.
+   * @protected
+   */
+  protected _isContainsLocalPoint(point: Point): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,122 @@
+import { RendererType } from '../enums/RendererType';
+import { SpriteBatch } from '../interfaces/SpriteBatch';
+
+/**
+ * @class CanvasSpriteBatch - Draws each sprite of the batch immediately with the canvas context, the fallback when WebGL2 is unavailable.
+ * @implements {SpriteBatch}
+ * @public
+ */
+export class CanvasSpriteBatch implements SpriteBatch {
+  private _context?: CanvasRenderingContext2D;
+
+  /**
+   * @get type - The backend drawing the sprites.
+   * @returns {RendererType} Canvas2D.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.spriteBatch.type;
+   */
+  public get type(): RendererType {
+    return RendererType.Canvas2D;
+  }
+
+  /**
+   * @method begin - Starts a batch on a context.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @returns {void}
+   * @public
+   * @example
+   * batch.begin(context);
+   */
+  public begin(context: CanvasRenderingContext2D): void {
+    if (this._context)
+      throw new Error('The sprite batch has already begun. Call end().');
+    this._context = context;
+  }
+
+  /**
+   * @method end - Ends the batch.
+   * @returns {void}
+   * @public
+   * @example
+   * batch.end();
+   */
+  public end(): void {
+    this._context = undefined;
+  }
+
+  /**
+   * @method flush - Does nothing, the sprites are drawn immediately.
+   * @returns {void}
+   * @public
+   * @example
+   * batch.flush();
+   */
+  public flush(): void {}
+
+  /**
+   * @method isBatching - Whether the sprites drawn on a context go through the batch.
+   * @param {CanvasRenderingContext2D} context - The context.
+   * @returns {boolean} True if the batch has begun on the context.
+   * @public
+   * @example
+   * batch.isBatching(context);
+   */
+  public isBatching(context: CanvasRenderingContext2D): boolean {
+    return this._context === context;
+  }
+
+  /**
+   * @method drawImage - Draws a region of an image on the context of the batch.
+   * @param {HTMLImageElement | HTMLCanvasElement} image - The image.
+   * @param {number} sourceX - The x of the region in the image.
+   * @param {number} sourceY - The y of the region in the image.
+   * @param {number} sourceWidth - The width of the region in the image.
+   * @param {number} sourceHeight - The height of the region in the image.
+   * @param {number} width - The width of the drawn region, before the transform.
+   * @param {number} height - The height of the drawn region, before the transform.
+   * @param {DOMMatrix} transform - The transform of the region, from its top left corner.
+   * @param {number} alpha - The opacity of the region.
+   * @returns {void}
+   * @public
+   */
+  public drawImage(
+    image: HTMLImageElement | HTMLCanvasElement,
+    sourceX: number,
+    sourceY: number,
+    sourceWidth: number,
+    sourceHeight: number,
+    width: number,
+    height: number,
+    transform: DOMMatrix,
+    alpha: number
+  ): void {
+    const context = this._context;
+    if (!context)
+      throw new Error('The sprite batch has not begun. Call begin().');
+    context.save();
+    context.setTransform(transform);
+    context.globalAlpha = alpha;
+    context.drawImage(
+      image,
+      sourceX,
+      sourceY,
+      sourceWidth,
+      sourceHeight,
+      0,
+      0,
+      width,
+      height
+    );
+    context.restore();
+  }
+
+  /**
+   * @method destroy - Ends the batch, it holds no other resource.
+   * @returns {void}
+   * @public
+   */
+  public destroy(): void {
+    this._context = undefined;
+  }
+}
@@ -0,0 +1,454 @@
+import { RendererType } from '../enums/RendererType';
+import { SpriteBatch } from '../interfaces/SpriteBatch';
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_position;
+in vec2 a_texCoord;
+in float a_alpha;
+uniform vec2 u_resolution;
+out vec2 v_texCoord;
+out float v_alpha;
+void main() {
+  vec2 clip = a_position / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_texCoord = a_texCoord;
+  v_alpha = a_alpha;
+}`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec2 v_texCoord;
+in float v_alpha;
+uniform sampler2D u_texture;
+out vec4 outColor;
+void main() {
+  outColor = texture(u_texture, v_texCoord) * v_alpha;
+}`;
+
+const FLOATS_PER_VERTEX = 5;
+const MAX_SPRITES = 16384;
+const MAX_TEXTURES = 256;
+
+/**
+ * @class WebGLSpriteBatch - Draws the sprites of a batch with WebGL2, one draw call for each run of sprites sharing an image, then copies them on the canvas context.
+ * @implements {SpriteBatch}
+ * @public
+ */
+export class WebGLSpriteBatch implements SpriteBatch {
+  private _gl: WebGL2RenderingContext;
+  private _program: WebGLProgram;
+  private _vertexArray: WebGLVertexArrayObject;
+  private _vertexBuffer: WebGLBuffer;
+  private _indexBuffer: WebGLBuffer;
+  private _resolutionLocation: WebGLUniformLocation | null;
+  private _textureLocation: WebGLUniformLocation | null;
+  private _vertices: Float32Array;
+  private _maxSprites: number;
+  private _spriteCount: number;
+  private _drawCallCount: number;
+  private _textures: Map<
+    HTMLImageElement | HTMLCanvasElement,
+    { texture: WebGLTexture; source: string }
+  >;
+  private _image?: HTMLImageElement | HTMLCanvasElement;
+  private _context?: CanvasRenderingContext2D;
+  private _isDrawn: boolean;
+
+  /**
+   * @constructor
+   * @param {WebGL2RenderingContext} [gl] - The context to draw with, a new offscreen one by default, a headless one in tests.
+   * @param {number} [maxSprites=4096] - The number of sprites drawn by a single draw call, at most 16384.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.setSpriteBatch(new WebGLSpriteBatch());
+   */
+  public constructor(gl?: WebGL2RenderingContext, maxSprites: number = 4096) {
+    if (maxSprites < 1 || maxSprites > MAX_SPRITES)
+      throw new Error(`Max sprites must be between 1 and ${MAX_SPRITES}.`);
+    const context =
+      gl ??
+      document
+        .createElement('canvas')
+        .getContext('webgl2', { premultipliedAlpha: true });
+    if (!context) throw new Error('WebGL2 is not available.');
+
+    this._gl = context;
+    this._maxSprites = maxSprites;
+    this._spriteCount = 0;
+    this._drawCallCount = 0;
+    this._textures = new Map<
+      HTMLImageElement | HTMLCanvasElement,
+      { texture: WebGLTexture; source: string }
+    >();
+    this._isDrawn = false;
+    this._vertices = new Float32Array(maxSprites * 4 * FLOATS_PER_VERTEX);
+    this._program = this._createProgram();
+    this._resolutionLocation = context.getUniformLocation(
+      this._program,
+      'u_resolution'
+    );
+    this._textureLocation = context.getUniformLocation(
+      this._program,
+      'u_texture'
+    );
+
+    const vertexArray = context.createVertexArray();
+    const vertexBuffer = context.createBuffer();
+    const indexBuffer = context.createBuffer();
+    if (!vertexArray || !vertexBuffer || !indexBuffer)
+      throw new Error('WebGL2 buffers could not be created.');
+    this._vertexArray = vertexArray;
+    this._vertexBuffer = vertexBuffer;
+    this._indexBuffer = indexBuffer;
+    this._createBuffers();
+  }
+
+  /**
+   * @get type - The backend drawing the sprites.
+   * @returns {RendererType} WebGL2.
+   * @public
+   * @example
+   * ServiceContainer.GameCanvas.spriteBatch.type;
+   */
+  public get type(): RendererType {
+    return RendererType.WebGL2;
+  }
+
+  /**
+   * @get drawCallCount - The number of draw calls of the last batch.
+   * @returns {number} The number of draw calls.
+   * @public
+   * @example
+   * batch.drawCallCount;
+   */
+  public get drawCallCount(): number {
+    return this._drawCallCount;
+  }
+
+  /**
+   * @method begin - Starts a batch, the sprites drawn on the context are then batched until end is called.
+   * @param {CanvasRenderingContext2D} context - The context the sprites are copied on.
+   * @returns {void}
+   * @public
+   * @example
+   * batch.begin(context);
+   * bullets.forEach((bullet) => bullet.draw(context));
+   * batch.end();
+   */
+  public begin(context: CanvasRenderingContext2D): void {
+    if (this._context)
+      throw new Error('The sprite batch has already begun. Call end().');
+    const gl = this._gl;
+    const { width, height } = context.canvas;
+    if (gl.canvas.width !== width) gl.canvas.width = width;
+    if (gl.canvas.height !== height) gl.canvas.height = height;
+
+    gl.viewport(0, 0, width, height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.useProgram(this._program);
+    gl.bindVertexArray(this._vertexArray);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this._vertexBuffer);
+    gl.uniform2f(this._resolutionLocation, width, height);
+    gl.uniform1i(this._textureLocation, 0);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+    this._context = context;
+    this._image = undefined;
+    this._spriteCount = 0;
+    this._drawCallCount = 0;
+    this._isDrawn = false;
+  }
+
+  /**
+   * @method end - Draws the batched sprites and copies them on the context.
+   * @returns {void}
+   * @public
+   * @example
+   * batch.end();
+   */
+  public end(): void {
+    if (!this._context) return;
+    this.flush();
+    this._gl.bindVertexArray(null);
+    this._context = undefined;
+    this._image = undefined;
+  }
+
+  /**
+   * @method flush - Draws the batched sprites and copies them on the context, so that what is drawn next directly on the context covers them.
+   * @returns {void}
+   * @public
+   * @example
+   * batch.flush();
+   * context.fillText('Over the sprites', 0, 0);
+   */
+  public flush(): void {
+    const context = this._context;
+    if (!context) return;
+    this._flush();
+    if (!this._isDrawn) return;
+    const gl = this._gl;
+    context.save();
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.globalAlpha = 1;
+    context.globalCompositeOperation = 'source-over';
+    context.drawImage(gl.canvas, 0, 0);
+    context.restore();
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    this._isDrawn = false;
+  }
+
+  /**
+   * @method invalidateTexture - Uploads an image again the next time it is drawn, e.g. a canvas drawn on since.
+   * @param {HTMLImageElement | HTMLCanvasElement} image - The image.
+   * @returns {void}
+   * @public
+   * @example
+   * batch.invalidateTexture(minimapCanvas);
+   */
+  public invalidateTexture(image: HTMLImageElement | HTMLCanvasElement): void {
+    const cached = this._textures.get(image);
+    if (!cached) return;
+    if (image === this._image) this._flush();
+    this._gl.deleteTexture(cached.texture);
+    this._textures.delete(image);
+  }
+
+  /**
+   * @method isBatching - Whether the sprites drawn on a context go through the batch.
+   * @param {CanvasRenderingContext2D} context - The context.
+   * @returns {boolean} True if the batch has begun on the context.
+   * @public
+   * @example
+   * batch.isBatching(context);
+   */
+  public isBatching(context: CanvasRenderingContext2D): boolean {
+    return this._context === context;
+  }
+
+  /**
+   * @method drawImage - Adds a region of an image to the batch, drawing the previous sprites if the image changes.
+   * @param {HTMLImageElement | HTMLCanvasElement} image - The image.
+   * @param {number} sourceX - The x of the region in the image.
+   * @param {number} sourceY - The y of the region in the image.
+   * @param {number} sourceWidth - The width of the region in the image.
+   * @param {number} sourceHeight - The height of the region in the image.
+   * @param {number} width - The width of the drawn region, before the transform.
+   * @param {number} height - The height of the drawn region, before the transform.
+   * @param {DOMMatrix} transform - The transform of the region, from its top left corner to canvas pixels.
+   * @param {number} alpha - The opacity of the region.
+   * @returns {void}
+   * @public
+   */
+  public drawImage(
+    image: HTMLImageElement | HTMLCanvasElement,
+    sourceX: number,
+    sourceY: number,
+    sourceWidth: number,
+    sourceHeight: number,
+    width: number,
+    height: number,
+    transform: DOMMatrix,
+    alpha: number
+  ): void {
+    if (!this._context)
+      throw new Error('The sprite batch has not begun. Call begin().');
+    // An image not loaded yet has no size to compute its texture coordinates from.
+    const isEmpty =
+      image instanceof HTMLImageElement
+        ? !image.complete || image.naturalWidth === 0
+        : image.width === 0 || image.height === 0;
+    if (isEmpty) return;
+    if (image !== this._image || this._spriteCount === this._maxSprites) {
+      this._flush();
+      this._image = image;
+    }
+
+    const { a, b, c, d, e, f } = transform;
+    const left = sourceX / image.width;
+    const top = sourceY / image.height;
+    const right = (sourceX + sourceWidth) / image.width;
+    const bottom = (sourceY + sourceHeight) / image.height;
+    const vertices = this._vertices;
+    let i = this._spriteCount * 4 * FLOATS_PER_VERTEX;
+    const addVertex = (x: number, y: number, u: number, v: number) => {
+      vertices[i++] = a * x + c * y + e;
+      vertices[i++] = b * x + d * y + f;
+      vertices[i++] = u;
+      vertices[i++] = v;
+      vertices[i++] = alpha;
+    };
+    addVertex(0, 0, left, top);
+    addVertex(width, 0, right, top);
+    addVertex(0, height, left, bottom);
+    addVertex(width, height, right, bottom);
+    this._spriteCount++;
+  }
+
+  /**
+   * @method destroy - Deletes the textures, buffers and shaders of the batch.
+   * @returns {void}
+   * @public
+   * @example
+   * batch.destroy();
+   */
+  public destroy(): void {
+    const gl = this._gl;
+    this._textures.forEach(({ texture }) => gl.deleteTexture(texture));
+    this._textures.clear();
+    gl.deleteBuffer(this._vertexBuffer);
+    gl.deleteBuffer(this._indexBuffer);
+    gl.deleteVertexArray(this._vertexArray);
+    gl.deleteProgram(this._program);
+    this._context = undefined;
+    this._image = undefined;
+  }
+
+  /**
+   * @method _flush - Draws the batched sprites sharing the current image in one draw call.
+   * @returns {void}
+   * @private
+   */
+  private _flush(): void {
+    if (this._spriteCount === 0 || !this._image) return;
+    const gl = this._gl;
+    const filter = this._context?.imageSmoothingEnabled
+      ? gl.LINEAR
+      : gl.NEAREST;
+    gl.bindTexture(gl.TEXTURE_2D, this._getTexture(this._image));
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter);
+    gl.bufferSubData(
+      gl.ARRAY_BUFFER,
+      0,
+      this._vertices,
+      0,
+      this._spriteCount * 4 * FLOATS_PER_VERTEX
+    );
+    gl.drawElements(gl.TRIANGLES, this._spriteCount * 6, gl.UNSIGNED_SHORT, 0);
+    this._spriteCount = 0;
+    this._drawCallCount++;
+    this._isDrawn = true;
+  }
+
+  /**
+   * @method _getTexture - Returns the texture of an image, uploading it the first time or when its source changed.
+   * The least recently used texture is deleted when there are too many.
+   * @param {HTMLImageElement | HTMLCanvasElement} image - The image.
+   * @returns {WebGLTexture} The texture.
+   * @private
+   */
+  private _getTexture(
+    image: HTMLImageElement | HTMLCanvasElement
+  ): WebGLTexture {
+    const source = image instanceof HTMLImageElement ? image.src : '';
+    const cached = this._textures.get(image);
+    if (cached && cached.source === source) {
+      this._textures.delete(image);
+      this._textures.set(image, cached);
+      return cached.texture;
+    }
+    const gl = this._gl;
+    if (cached) {
+      gl.deleteTexture(cached.texture);
+      this._textures.delete(image);
+    }
+    if (this._textures.size >= MAX_TEXTURES) {
+      const [oldest, { texture }] = this._textures.entries().next().value;
+      gl.deleteTexture(texture);
+      this._textures.delete(oldest);
+    }
+    const texture = gl.createTexture();
+    if (!texture) throw new Error('WebGL2 texture could not be created.');
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    this._textures.set(image, { texture, source });
+    return texture;
+  }
+
+  /**
+   * @method _createBuffers - Creates the vertex buffer and the indices of the quads.
+   * @returns {void}
+   * @private
+   */
+  private _createBuffers(): void {
+    const gl = this._gl;
+    const stride = FLOATS_PER_VERTEX * 4;
+    gl.bindVertexArray(this._vertexArray);
+    gl.bindBuffer(gl.ARRAY_BUFFER, this._vertexBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, this._vertices.byteLength, gl.DYNAMIC_DRAW);
+    const attributes: [string, number, number][] = [
+      ['a_position', 2, 0],
+      ['a_texCoord', 2, 8],
+      ['a_alpha', 1, 16],
+    ];
+    attributes.forEach(([name, size, offset]) => {
+      const location = gl.getAttribLocation(this._program, name);
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset);
+    });
+
+    const indices = new Uint16Array(this._maxSprites * 6);
+    for (let sprite = 0; sprite < this._maxSprites; sprite++) {
+      const vertex = sprite * 4;
+      indices.set(
+        [vertex, vertex + 1, vertex + 2, vertex + 2, vertex + 1, vertex + 3],
+        sprite * 6
+      );
+    }
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this._indexBuffer);
+    gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, indices, gl.STATIC_DRAW);
+    gl.bindVertexArray(null);
+  }
+
+  /**
+   * @method _createProgram - Compiles and links the shaders of the batch.
+   * @returns {WebGLProgram} The program.
+   * @private
+   */
+  private _createProgram(): WebGLProgram {
+    const gl = this._gl;
+    const program = gl.createProgram();
+    if (!program) throw new Error('WebGL2 program could not be created.');
+    gl.attachShader(
+      program,
+      this._createShader(gl.VERTEX_SHADER, VERTEX_SHADER)
+    );
+    gl.attachShader(
+      program,
+      this._createShader(gl.FRAGMENT_SHADER, FRAGMENT_SHADER)
+    );
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS))
+      throw new Error(
+        `Sprite batch shaders could not be linked: ${gl.getProgramInfoLog(program)}`
+      );
+    return program;
+  }
+
+  /**
+   * @method _createShader - Compiles a shader.
+   * @param {number} type - The type of the shader.
+   * @param {string} source - The source of the shader.
+   * @returns {WebGLShader} The shader.
+   * @private
+   */
+  private _createShader(type: number, source: string): WebGLShader {
+    const gl = this._gl;
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error('WebGL2 shader could not be created.');
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS))
+      throw new Error(
+        `Sprite batch shader could not be compiled: ${gl.getShaderInfoLog(shader)}`
+      );
+    return shader;
+  }
+}
@@ -0,0 +1,59 @@
+import { FrameScheduler } from '../interfaces/FrameScheduler';
+import { FrameCallback } from '../types/FrameCallback';
+
+/**
+ * @class AnimationFrameScheduler - Schedules the frames with requestAnimationFrame.
+ * @implements {FrameScheduler}
+ * @public
+ */
+export class AnimationFrameScheduler implements FrameScheduler {
+  private _handle: number;
+
+  /**
+   * @constructor
+   * @public
+   * @example
+   * const scheduler = new AnimationFrameScheduler();
+   */
+  public constructor() {
+    this._handle = -1;
+  }
+
+  /**
+   * @method now - Returns the current time.
+   * @returns {number} The current time in millisecond.
+   * @public
+   * @example
+   * const scheduler = new AnimationFrameScheduler();
+   * scheduler.now();
+   */
+  public now(): number {
+    return performance.now();
+  }
+
+  /**
+   * @method request - Requests a call of the callback on the next animation frame.
+   * @param {FrameCallback} callback - The function to call.
+   * @returns {void}
+   * @public
+   * @example
+   * const scheduler = new AnimationFrameScheduler();
+   * scheduler.request((time) => console.log(time));
+   */
+  public request(callback: FrameCallback): void {
+    this._handle = requestAnimationFrame(callback);
+  }
+
+  /**
+   * @method cancel - Cancels the pending request.
+   * @returns {void}
+   * @public
+   * @example
+   * const scheduler = new AnimationFrameScheduler();
+   * scheduler.cancel();
+   */
+  public cancel(): void {
+    if (this._handle > -1) cancelAnimationFrame(this._handle);
+    this._handle = -1;
+  }
+}
@@ -0,0 +1,96 @@
+import { FrameScheduler } from '../interfaces/FrameScheduler';
+import { FrameCallback } from '../types/FrameCallback';
+
+/**
+ * @class ManualScheduler - Schedules the frames only when ticked, to drive the game loop from tests or a Node process.
+ * @implements {FrameScheduler}
+ * @public
+ */
+export class ManualScheduler implements FrameScheduler {
+  private _time: number;
+  private _callback?: FrameCallback;
+
+  /**
+   * @constructor
+   * @public
+   * @example
+   * const scheduler = new ManualScheduler();
+   * ServiceContainer.GameLoop.start(scheduler);
+   * scheduler.tick(1 / 60, 10);
+   */
+  public constructor() {
+    this._time = 0;
+  }
+
+  /**
+   * @get time - The current time of the scheduler.
+   * @returns {number} The current time in millisecond.
+   * @public
+   * @example
+   * const scheduler = new ManualScheduler();
+   * console.log(scheduler.time);
+   */
+  public get time(): number {
+    return this._time;
+  }
+
+  /**
+   * @method now - Returns the current time.
+   * @returns {number} The current time in millisecond.
+   * @public
+   * @example
+   * const scheduler = new ManualScheduler();
+   * scheduler.now();
+   */
+  public now(): number {
+    return this._time;
+  }
+
+  /**
+   * @method request - Stores the callback to call on the next tick.
+   * @param {FrameCallback} callback - The function to call.
+   * @returns {void}
+   * @public
+   * @example
+   * const scheduler = new ManualScheduler();
+   * scheduler.request((time) => console.log(time));
+   */
+  public request(callback: FrameCallback): void {
+    this._callback = callback;
+  }
+
+  /**
+   * @method cancel - Cancels the pending request.
+   * @returns {void}
+   * @public
+   * @example
+   * const scheduler = new ManualScheduler();
+   * scheduler.cancel();
+   */
+  public cancel(): void {
+    this._callback = undefined;
+  }
+
+  /**
+   * @method tick - Advances the time and runs the pending frames.
+   * @param {number} [deltaTime=1/60] - The duration of a frame in second.
+   * @param {number} [frames=1] - The number of frames to run.
+   * @returns {ManualScheduler} The instance of the ManualScheduler class.
+   * @public
+   * @example
+   * const scheduler = new ManualScheduler();
+   * scheduler.tick();
+   * @example
+   * const scheduler = new ManualScheduler();
+   * scheduler.tick(1 / 30, 5);
+   */
+  public tick(deltaTime: number = 1 / 60, frames: number = 1): ManualScheduler {
+    for (let i = 0; i < frames; i++) {
+      this._time += deltaTime * 1000;
+      const callback = this._callback;
+      this._callback = undefined;
+      callback?.(this._time);
+    }
+    return this;
+  }
+}
@@ -0,0 +1,79 @@
+import { FrameScheduler } from '../interfaces/FrameScheduler';
+import { FrameCallback } from '../types/FrameCallback';
+
+/**
+ * @class TimeoutScheduler - Schedules the frames with setTimeout, useful to keep the game running in background tabs.
+ * @implements {FrameScheduler}
+ * @public
+ */
+export class TimeoutScheduler implements FrameScheduler {
+  private _frameRate: number;
+  private _handle?: ReturnType<typeof setTimeout>;
+
+  /**
+   * @constructor
+   * @param {number} [frameRate=60] - The number of frames per second.
+   * @public
+   * @example
+   * const scheduler = new TimeoutScheduler();
+   * @example
+   * const scheduler = new TimeoutScheduler(30);
+   */
+  public constructor(frameRate: number = 60) {
+    if (frameRate <= 0) throw new Error('Frame rate must be greater than 0.');
+    this._frameRate = frameRate;
+  }
+
+  /**
+   * @get frameRate - The number of frames per second.
+   * @returns {number} The number of frames per second.
+   * @public
+   * @example
+   * const scheduler = new TimeoutScheduler(30);
+   * console.log(scheduler.frameRate);
+   */
+  public get frameRate(): number {
+    return this._frameRate;
+  }
+
+  /**
+   * @method now - Returns the current time.
+   * @returns {number} The current time in millisecond.
+   * @public
+   * @example
+   * const scheduler = new TimeoutScheduler();
+   * scheduler.now();
+   */
+  public now(): number {
+    return typeof performance !== 'undefined' ? performance.now() : Date.now();
+  }
+
+  /**
+   * @method request - Requests a call of the callback after one frame duration.
+   * @param {FrameCallback} callback - The function to call.
+   * @returns {void}
+   * @public
+   * @example
+   * const scheduler = new TimeoutScheduler();
+   * scheduler.request((time) => console.log(time));
+   */
+  public request(callback: FrameCallback): void {
+    this._handle = setTimeout(
+      () => callback(this.now()),
+      1000 / this._frameRate
+    );
+  }
+
+  /**
+   * @method cancel - Cancels the pending request.
+   * @returns {void}
+   * @public
+   * @example
+   * const scheduler = new TimeoutScheduler();
+   * scheduler.cancel();
+   */
+  public cancel(): void {
+    if (this._handle !== undefined) clearTimeout(this._handle);
+    this._handle = undefined;
+  }
+}
@@ -0,0 +1,42 @@
+import { EasingFunction } from '../types/EasingFunction';
+import { Transition } from './Transition';
+
+/**
+ * @class CrossfadeTransition - Blends the incoming scene over the outgoing scene.
+ * @extends {Transition}
+ * @public
+ */
+export class CrossfadeTransition extends Transition {
+  /**
+   * @constructor
+   * @param {number} [duration=0.5] - The duration of the transition in second.
+   * @param {EasingFunction} [easing] - The easing of the progress.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.setScene(new GameScene(), undefined, new CrossfadeTransition());
+   */
+  public constructor(duration: number = 0.5, easing?: EasingFunction) {
+    super(duration, easing);
+  }
+
+  /**
+   * @method draw - Draws a frame of the transition.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {HTMLCanvasElement} from - The rendering of the outgoing scene.
+   * @param {HTMLCanvasElement} to - The rendering of the incoming scene.
+   * @param {number} progress - The eased progress, between 0 and 1.
+   * @returns {void}
+   * @public
+   */
+  public draw(
+    context: CanvasRenderingContext2D,
+    from: HTMLCanvasElement,
+    to: HTMLCanvasElement,
+    progress: number
+  ): void {
+    context.globalAlpha = 1 - progress;
+    context.drawImage(from, 0, 0);
+    context.globalAlpha = progress;
+    context.drawImage(to, 0, 0);
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * @class Easing - A collection of easing functions.
+ * @public
+ */
+export class Easing {
+  /**
+   * @method linear - No easing.
+   * @param {number} t - The linear progress, between 0 and 1.
+   * @returns {number} The eased progress.
+   * @static
+   * @public
+   * @example
+   * new FadeTransition(1, '#000', Easing.linear);
+   */
+  public static linear(t: number): number {
+    return t;
+  }
+
+  /**
+   * @method easeInQuad - Quadratic easing, accelerating from zero velocity.
+   * @param {number} t - The linear progress, between 0 and 1.
+   * @returns {number} The eased progress.
+   * @static
+   * @public
+   * @example
+   * new FadeTransition(1, '#000', Easing.easeInQuad);
+   */
+  public static easeInQuad(t: number): number {
+    return t * t;
+  }
+
+  /**
+   * @method easeOutQuad - Quadratic easing, decelerating to zero velocity.
+   * @param {number} t - The linear progress, between 0 and 1.
+   * @returns {number} The eased progress.
+   * @static
+   * @public
+   * @example
+   * new FadeTransition(1, '#000', Easing.easeOutQuad);
+   */
+  public static easeOutQuad(t: number): number {
+    return t * (2 - t);
+  }
+
+  /**
+   * @method easeInOutQuad - Quadratic easing, accelerating then decelerating.
+   * @param {number} t - The linear progress, between 0 and 1.
+   * @returns {number} The eased progress.
+   * @static
+   * @public
+   * @example
+   * new FadeTransition(1, '#000', Easing.easeInOutQuad);
+   */
+  public static easeInOutQuad(t: number): number {
+    return t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t;
+  }
+
+  /**
+   * @method easeInCubic - Cubic easing, accelerating from zero velocity.
+   * @param {number} t - The linear progress, between 0 and 1.
+   * @returns {number} The eased progress.
+   * @static
+   * @public
+   * @example
+   * new SlideTransition(1, TransitionDirection.Left, Easing.easeInCubic);
+   */
+  public static easeInCubic(t: number): number {
+    return t * t * t;
+  }
+
+  /**
+   * @method easeOutCubic - Cubic easing, decelerating to zero velocity.
+   * @param {number} t - The linear progress, between 0 and 1.
+   * @returns {number} The eased progress.
+   * @static
+   * @public
+   * @example
+   * new SlideTransition(1, TransitionDirection.Left, Easing.easeOutCubic);
+   */
+  public static easeOutCubic(t: number): number {
+    const u = t - 1;
+    return u * u * u + 1;
+  }
+
+  /**
+   * @method easeInOutCubic - Cubic easing, accelerating then decelerating.
+   * @param {number} t - The linear progress, between 0 and 1.
+   * @returns {number} The eased progress.
+   * @static
+   * @public
+   * @example
+   * new SlideTransition(1, TransitionDirection.Left, Easing.easeInOutCubic);
+   */
+  public static easeInOutCubic(t: number): number {
+    return t < 0.5 ? 4 * t * t * t : (t - 1) * (2 * t - 2) * (2 * t - 2) + 1;
+  }
+}
@@ -0,0 +1,53 @@
+import { EasingFunction } from '../types/EasingFunction';
+import { Transition } from './Transition';
+
+/**
+ * @class FadeTransition - Fades the outgoing scene to a color, then fades the incoming scene from it.
+ * @extends {Transition}
+ * @public
+ */
+export class FadeTransition extends Transition {
+  private _color: string;
+
+  /**
+   * @constructor
+   * @param {number} [duration=0.5] - The duration of the transition in second.
+   * @param {string} [color='#000000'] - The color to fade through.
+   * @param {EasingFunction} [easing] - The easing of the progress.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.setScene(new GameScene(), undefined, new FadeTransition());
+   * @example
+   * const transition = new FadeTransition(1, '#ffffff', Easing.easeInOutQuad);
+   */
+  public constructor(
+    duration: number = 0.5,
+    color: string = '#000000',
+    easing?: EasingFunction
+  ) {
+    super(duration, easing);
+    this._color = color;
+  }
+
+  /**
+   * @method draw - Draws a frame of the transition.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {HTMLCanvasElement} from - The rendering of the outgoing scene.
+   * @param {HTMLCanvasElement} to - The rendering of the incoming scene.
+   * @param {number} progress - The eased progress, between 0 and 1.
+   * @returns {void}
+   * @public
+   */
+  public draw(
+    context: CanvasRenderingContext2D,
+    from: HTMLCanvasElement,
+    to: HTMLCanvasElement,
+    progress: number
+  ): void {
+    const isFadingOut = progress < 0.5;
+    context.drawImage(isFadingOut ? from : to, 0, 0);
+    context.globalAlpha = isFadingOut ? progress * 2 : (1 - progress) * 2;
+    context.fillStyle = this._color;
+    context.fillRect(0, 0, from.width, from.height);
+  }
+}
@@ -0,0 +1,70 @@
+import { Point } from '../primitives/Point';
+import { EasingFunction } from '../types/EasingFunction';
+import { Transition } from './Transition';
+
+/**
+ * @class IrisTransition - Closes a circle on the outgoing scene, then opens it on the incoming scene.
+ * @extends {Transition}
+ * @public
+ */
+export class IrisTransition extends Transition {
+  private _color: string;
+  private _center?: Point;
+
+  /**
+   * @constructor
+   * @param {number} [duration=1] - The duration of the transition in second.
+   * @param {string} [color='#000000'] - The color outside of the circle.
+   * @param {Point} [center] - The center of the circle, relative to the canvas size (0 to 1). Center of the canvas by default.
+   * @param {EasingFunction} [easing] - The easing of the progress.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.setScene(new GameScene(), undefined, new IrisTransition());
+   * @example
+   * const transition = new IrisTransition(1, '#000000', new Point(0.25, 0.5));
+   */
+  public constructor(
+    duration: number = 1,
+    color: string = '#000000',
+    center?: Point,
+    easing?: EasingFunction
+  ) {
+    super(duration, easing);
+    this._color = color;
+    this._center = center;
+  }
+
+  /**
+   * @method draw - Draws a frame of the transition.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {HTMLCanvasElement} from - The rendering of the outgoing scene.
+   * @param {HTMLCanvasElement} to - The rendering of the incoming scene.
+   * @param {number} progress - The eased progress, between 0 and 1.
+   * @returns {void}
+   * @public
+   */
+  public draw(
+    context: CanvasRenderingContext2D,
+    from: HTMLCanvasElement,
+    to: HTMLCanvasElement,
+    progress: number
+  ): void {
+    const isClosing = progress < 0.5;
+    const relativeCenter = this._center ?? new Point(0.5, 0.5);
+    const center = relativeCenter.multiply(new Point(from.width, from.height));
+    const maxRadius = Math.max(
+      Math.hypot(center.x, center.y),
+      Math.hypot(from.width - center.x, center.y),
+      Math.hypot(center.x, from.height - center.y),
+      Math.hypot(from.width - center.x, from.height - center.y)
+    );
+    const opening = isClosing ? 1 - progress * 2 : progress * 2 - 1;
+
+    context.drawImage(isClosing ? from : to, 0, 0);
+    context.beginPath();
+    context.rect(0, 0, from.width, from.height);
+    context.arc(center.x, center.y, maxRadius * opening, 0, Math.PI * 2);
+    context.fillStyle = this._color;
+    context.fill('evenodd');
+  }
+}
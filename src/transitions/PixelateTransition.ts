@@ -0,0 +1,67 @@
+import { EasingFunction } from '../types/EasingFunction';
+import { Transition } from './Transition';
+
+/**
+ * @class PixelateTransition - Pixelates the outgoing scene, then unpixelates the incoming scene.
+ * @extends {Transition}
+ * @public
+ */
+export class PixelateTransition extends Transition {
+  private _maxBlockSize: number;
+  private _buffer: HTMLCanvasElement;
+
+  /**
+   * @constructor
+   * @param {number} [duration=1] - The duration of the transition in second.
+   * @param {number} [maxBlockSize=32] - The size of the blocks at the middle of the transition, in canvas pixels.
+   * @param {EasingFunction} [easing] - The easing of the progress.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.setScene(new GameScene(), undefined, new PixelateTransition());
+   */
+  public constructor(
+    duration: number = 1,
+    maxBlockSize: number = 32,
+    easing?: EasingFunction
+  ) {
+    super(duration, easing);
+    this._maxBlockSize = Math.max(maxBlockSize, 1);
+    this._buffer = document.createElement('canvas');
+  }
+
+  /**
+   * @method draw - Draws a frame of the transition.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {HTMLCanvasElement} from - The rendering of the outgoing scene.
+   * @param {HTMLCanvasElement} to - The rendering of the incoming scene.
+   * @param {number} progress - The eased progress, between 0 and 1.
+   * @returns {void}
+   * @public
+   */
+  public draw(
+    context: CanvasRenderingContext2D,
+    from: HTMLCanvasElement,
+    to: HTMLCanvasElement,
+    progress: number
+  ): void {
+    const isPixelating = progress < 0.5;
+    const source = isPixelating ? from : to;
+    const amount = isPixelating ? progress * 2 : (1 - progress) * 2;
+    const blockSize = 1 + (this._maxBlockSize - 1) * amount;
+
+    this._buffer.width = Math.max(Math.ceil(source.width / blockSize), 1);
+    this._buffer.height = Math.max(Math.ceil(source.height / blockSize), 1);
+    const bufferContext = this._buffer.getContext('2d');
+    if (!bufferContext) return;
+    bufferContext.drawImage(
+      source,
+      0,
+      0,
+      this._buffer.width,
+      this._buffer.height
+    );
+
+    context.imageSmoothingEnabled = false;
+    context.drawImage(this._buffer, 0, 0, source.width, source.height);
+  }
+}
@@ -0,0 +1,77 @@
+import { TransitionDirection } from '../enums/TransitionDirection';
+import { Point } from '../primitives/Point';
+import { EasingFunction } from '../types/EasingFunction';
+import { Transition } from './Transition';
+
+/**
+ * @class SlideTransition - Slides the incoming scene in, pushing the outgoing scene out.
+ * @extends {Transition}
+ * @public
+ */
+export class SlideTransition extends Transition {
+  private _direction: TransitionDirection;
+
+  /**
+   * @constructor
+   * @param {number} [duration=0.5] - The duration of the transition in second.
+   * @param {TransitionDirection} [direction=TransitionDirection.Left] - The direction the scenes move to.
+   * @param {EasingFunction} [easing] - The easing of the progress.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.setScene(new GameScene(), undefined, new SlideTransition(1, TransitionDirection.Up));
+   */
+  public constructor(
+    duration: number = 0.5,
+    direction: TransitionDirection = TransitionDirection.Left,
+    easing?: EasingFunction
+  ) {
+    super(duration, easing);
+    this._direction = direction;
+  }
+
+  /**
+   * @method draw - Draws a frame of the transition.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {HTMLCanvasElement} from - The rendering of the outgoing scene.
+   * @param {HTMLCanvasElement} to - The rendering of the incoming scene.
+   * @param {number} progress - The eased progress, between 0 and 1.
+   * @returns {void}
+   * @public
+   */
+  public draw(
+    context: CanvasRenderingContext2D,
+    from: HTMLCanvasElement,
+    to: HTMLCanvasElement,
+    progress: number
+  ): void {
+    const direction = this._getVector();
+    const offset = new Point(
+      direction.x * from.width * progress,
+      direction.y * from.height * progress
+    );
+    context.drawImage(from, offset.x, offset.y);
+    context.drawImage(
+      to,
+      offset.x - direction.x * from.width,
+      offset.y - direction.y * from.height
+    );
+  }
+
+  /**
+   * @method _getVector - Returns the unit vector of the direction.
+   * @returns {Point} The unit vector of the direction.
+   * @private
+   */
+  private _getVector(): Point {
+    switch (this._direction) {
+      case TransitionDirection.Left:
+        return new Point(-1, 0);
+      case TransitionDirection.Right:
+        return new Point(1, 0);
+      case TransitionDirection.Up:
+        return new Point(0, -1);
+      case TransitionDirection.Down:
+        return new Point(0, 1);
+    }
+  }
+}
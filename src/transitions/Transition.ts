@@ -0,0 +1,70 @@
+import { EasingFunction } from '../types/EasingFunction';
+import { Easing } from './Easing';
+
+/**
+ * @class Transition - Base class of the animated transitions between two scenes.
+ * @abstract
+ * @public
+ */
+export abstract class Transition {
+  protected _duration: number;
+  protected _easing: EasingFunction;
+
+  /**
+   * @constructor
+   * @param {number} duration - The duration of the transition in second.
+   * @param {EasingFunction} [easing=Easing.linear] - The easing of the progress.
+   * @protected
+   */
+  protected constructor(
+    duration: number,
+    easing: EasingFunction = Easing.linear
+  ) {
+    if (duration < 0)
+      throw new Error('Transition duration cannot be negative.');
+    this._duration = duration;
+    this._easing = easing;
+  }
+
+  /**
+   * @get duration - The duration of the transition.
+   * @returns {number} The duration of the transition in second.
+   * @public
+   * @example
+   * const transition = new FadeTransition(0.5);
+   * console.log(transition.duration);
+   */
+  public get duration(): number {
+    return this._duration;
+  }
+
+  /**
+   * @method ease - Eases a linear progress with the easing of the transition.
+   * @param {number} progress - The linear progress, between 0 and 1.
+   * @returns {number} The eased progress.
+   * @public
+   * @example
+   * const transition = new FadeTransition(0.5, '#000', Easing.easeInOutQuad);
+   * transition.ease(0.25);
+   */
+  public ease(progress: number): number {
+    return this._easing(Math.min(Math.max(progress, 0), 1));
+  }
+
+  /**
+   * @method draw - Draws a frame of the transition. The context has an identity transform.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {HTMLCanvasElement} from - The rendering of the outgoing scene.
+   * @param {HTMLCanvasElement} to - The rendering of the incoming scene.
+   * @param {number} progress - The eased progress, between 0 and 1.
+   * @returns {void}
+   * @abstract
+   * @public
+   */
+  public abstract draw(
+    context: CanvasRenderingContext2D,
+    from: HTMLCanvasElement,
+    to: HTMLCanvasElement,
+    progress: number
+  ): void;
+}
@@ -0,0 +1,94 @@
+import { TransitionDirection } from '../enums/TransitionDirection';
+import { Rectangle } from '../primitives/Rectangle';
+import { Point } from '../primitives/Point';
+import { EasingFunction } from '../types/EasingFunction';
+import { Transition } from './Transition';
+
+/**
+ * @class WipeTransition - Reveals the incoming scene over the outgoing scene with a moving edge.
+ * @extends {Transition}
+ * @public
+ */
+export class WipeTransition extends Transition {
+  private _direction: TransitionDirection;
+
+  /**
+   * @constructor
+   * @param {number} [duration=0.5] - The duration of the transition in second.
+   * @param {TransitionDirection} [direction=TransitionDirection.Right] - The direction the edge moves to.
+   * @param {EasingFunction} [easing] - The easing of the progress.
+   * @public
+   * @example
+   * ServiceContainer.SceneManager.setScene(new GameScene(), undefined, new WipeTransition(1, TransitionDirection.Down));
+   */
+  public constructor(
+    duration: number = 0.5,
+    direction: TransitionDirection = TransitionDirection.Right,
+    easing?: EasingFunction
+  ) {
+    super(duration, easing);
+    this._direction = direction;
+  }
+
+  /**
+   * @method draw - Draws a frame of the transition.
+   * @param {CanvasRenderingContext2D} context - The context to draw on.
+   * @param {HTMLCanvasElement} from - The rendering of the outgoing scene.
+   * @param {HTMLCanvasElement} to - The rendering of the incoming scene.
+   * @param {number} progress - The eased progress, between 0 and 1.
+   * @returns {void}
+   * @public
+   */
+  public draw(
+    context: CanvasRenderingContext2D,
+    from: HTMLCanvasElement,
+    to: HTMLCanvasElement,
+    progress: number
+  ): void {
+    context.drawImage(from, 0, 0);
+    const area = this._getRevealedArea(
+      new Point(to.width, to.height),
+      progress
+    );
+    if (area.size.x < 1 || area.size.y < 1) return;
+    context.drawImage(
+      to,
+      area.position.x,
+      area.position.y,
+      area.size.x,
+      area.size.y,
+      area.position.x,
+      area.position.y,
+      area.size.x,
+      area.size.y
+    );
+  }
+
+  /**
+   * @method _getRevealedArea - Returns the area of the incoming scene to show.
+   * @param {Point} size - The size of the renderings.
+   * @param {number} progress - The eased progress, between 0 and 1.
+   * @returns {Rectangle} The revealed area.
+   * @private
+   */
+  private _getRevealedArea(size: Point, progress: number): Rectangle {
+    const width = Math.round(size.x * progress);
+    const height = Math.round(size.y * progress);
+    switch (this._direction) {
+      case TransitionDirection.Left:
+        return new Rectangle(
+          new Point(size.x - width, 0),
+          new Point(width, size.y)
+        );
+      case TransitionDirection.Right:
+        return new Rectangle(new Point(0, 0), new Point(width, size.y));
+      case TransitionDirection.Up:
+        return new Rectangle(
+          new Point(0, size.y - height),
+          new Point(size.x, height)
+        );
+      case TransitionDirection.Down:
+        return new Rectangle(new Point(0, 0), new Point(size.x, height));
+    }
+  }
+}
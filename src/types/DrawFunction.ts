@@ -1,7 +1,11 @@
 /**
  * @type DrawFunction - The function that is called every frame.
  * @param {CanvasRenderingContext2D} ctx - The canvas rendering context.
+ * @param {number} [alpha] - The interpolation factor between the last two fixed updates.
  * @returns {void}
  * @public
  */
-export type DrawFunction = (ctx: CanvasRenderingContext2D) => void;
+export type DrawFunction = (
+  ctx: CanvasRenderingContext2D,
+  alpha?: number
+) => void;
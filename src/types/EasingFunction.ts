@@ -0,0 +1,7 @@
+/**
+ * @type EasingFunction - The function that eases a progress.
+ * @param {number} t - The linear progress, between 0 and 1.
+ * @returns {number} The eased progress.
+ * @public
+ */
+export type EasingFunction = (t: number) => number;
@@ -0,0 +1,10 @@
+import { LoopPhase } from '../enums/LoopPhase';
+
+/**
+ * @type ErrorFunction - The function that is called when an error is thrown in the game loop.
+ * @param {unknown} error - The thrown error.
+ * @param {LoopPhase} phase - The phase of the loop the error was thrown in.
+ * @returns {void}
+ * @public
+ */
+export type ErrorFunction = (error: unknown, phase: LoopPhase) => void;
@@ -0,0 +1,7 @@
+/**
+ * @type FrameCallback - The function that is called by a frame scheduler on each frame.
+ * @param {number} time - The current time in millisecond.
+ * @returns {void}
+ * @public
+ */
+export type FrameCallback = (time: number) => void;
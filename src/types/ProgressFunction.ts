@@ -0,0 +1,8 @@
+/**
+ * @type ProgressFunction - The function that is called when the loading progresses.
+ * @param {number} progress - The progress, between 0 and 1.
+ * @param {string} assetName - The name of the last loaded asset.
+ * @returns {void}
+ * @public
+ */
+export type ProgressFunction = (progress: number, assetName: string) => void;
@@ -0,0 +1,10 @@
+import { Point } from '../primitives/Point';
+
+/**
+ * @type ResizeFunction - The function that is called when the canvas is resized.
+ * @param {Point} size - The size of the canvas, in canvas units.
+ * @param {Point} scale - The scale from canvas units to CSS pixels on each axis.
+ * @returns {void}
+ * @public
+ */
+export type ResizeFunction = (size: Point, scale: Point) => void;
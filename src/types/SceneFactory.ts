@@ -0,0 +1,8 @@
+import { Scene } from '../interfaces/Scene';
+
+/**
+ * @type SceneFactory - The function that creates a new instance of a registered scene.
+ * @returns {Scene<TData>} The new scene.
+ * @public
+ */
+export type SceneFactory<TData = any> = () => Scene<TData>;
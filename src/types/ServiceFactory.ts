@@ -0,0 +1,11 @@
+import { ServiceToken } from './ServiceToken';
+
+/**
+ * @type ServiceFactory - The function that creates a registered service.
+ * @param {<TDependency>(token: ServiceToken<TDependency>) => TDependency} resolve - Resolves the services this service depends on.
+ * @returns {T} The new service.
+ * @public
+ */
+export type ServiceFactory<T = any> = (
+  resolve: <TDependency>(token: ServiceToken<TDependency>) => TDependency
+) => T;
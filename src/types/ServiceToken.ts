@@ -0,0 +1,5 @@
+/**
+ * @type ServiceToken - The key a service is registered under: a name, a symbol or a class.
+ * @public
+ */
+export type ServiceToken<T = any> = string | symbol | { prototype: T };
@@ -4,6 +4,7 @@ import { InputFieldOptions } from '../interfaces/InputFieldOptions';
 import { Rectangle } from '../primitives/Rectangle';
 import { Point } from '../primitives/Point';
 import { GameLoop } from '../GameLoop';
+import { LoopPhase } from '../enums/LoopPhase';
 
 /**
  * @class InputField - A class for creating an input field.
@@ -18,11 +19,15 @@ export class InputField {
   private _isSubmittedByEnterKey: boolean;
   private _isOldSubmitted: boolean;
   private _fontSize: number;
+  private _gameCanvas: GameCanvas;
+  private _gameLoop: GameLoop;
 
   /**
    * @constructor
    * @param {Rectangle} area - The area of the input field.
    * @param {InputFieldOptions} [options] - The options for the input field.
+   * @param {GameCanvas} [gameCanvas] - The canvas the input field is placed over (the default instance by default).
+   * @param {GameLoop} [gameLoop] - The loop updating the input field (the default instance by default).
    * @public
    * @example
    * const inputField = new InputField(new Rectangle(0, 0, 100, 100), {
@@ -34,16 +39,25 @@ export class InputField {
    *     backgroundColor: 'blue',
    *   },
    * });
+   * @example
+   * const inputField = new InputField(area, options, game.gameCanvas, game.gameLoop);
    */
-  constructor(area: Rectangle, options?: InputFieldOptions) {
+  constructor(
+    area: Rectangle,
+    options?: InputFieldOptions,
+    gameCanvas: GameCanvas = GameCanvas.instance,
+    gameLoop: GameLoop = GameLoop.instance
+  ) {
     this._area = area;
     this._value = '';
     this._isSubmittedByEnterKey = false;
     this._isOldSubmitted = false;
+    this._gameCanvas = gameCanvas;
+    this._gameLoop = gameLoop;
     this._input = document.createElement('input');
     this._form = document.createElement('form');
     this._form.classList.add('gameForm');
-    const node = GameCanvas.instance.canvas.parentNode as HTMLElement;
+    const node = this._gameCanvas.canvas.parentNode as HTMLElement;
     node.appendChild(this._form);
     this._form.appendChild(this._input);
     this._input.style.fontSize = `10px`;
@@ -51,7 +65,11 @@ export class InputField {
     this.setOptions(options ?? {});
     this._baseStyle = this._input.style;
     this._applyCanvasScale();
-    GameLoop.instance.subscribeToUpdate(this._update.bind(this));
+    this._gameLoop.subscribeToUpdate(this._update, {
+      unscaled: true,
+      phase: LoopPhase.Input,
+    });
+    this._gameCanvas.addInputField(this);
     document.addEventListener('click', this._onClick);
     document.addEventListener('keydown', this._onEnter);
   }
@@ -169,7 +187,8 @@ export class InputField {
     document.removeEventListener('keydown', this._onEnter);
     this._input.remove();
     this._form.remove();
-    GameLoop.instance.unsubscribeFromUpdate(this._update.bind(this));
+    this._gameLoop.unsubscribeFromUpdate(this._update);
+    this._gameCanvas.removeInputField(this);
   }
 
   /**
@@ -181,12 +200,12 @@ export class InputField {
    * const inputField = new InputField(...);
    * inputField.update(deltaTime);
    */
-  private _update(deltaTime: number): void {
+  private _update = (deltaTime: number): void => {
     this._applyCanvasScale();
     if (this._isOldSubmitted) this._isSubmittedByEnterKey = false;
     this._isOldSubmitted = this._isSubmittedByEnterKey;
     this._value = this._input.value;
-  }
+  };
 
   /**
    * @method _applyCanvasScale - Apply the canvas scale to the input field.
@@ -194,9 +213,10 @@ export class InputField {
    * @private
    */
   private _applyCanvasScale(): void {
-    const scale = GameCanvas.instance.scale;
-    this._input.style.width = `${this._area.size.x * scale}px`;
-    this._input.style.height = `${this._area.size.y * scale}px`;
+    const scale = this._gameCanvas.scale;
+    const scaleVector = this._gameCanvas.scaleVector;
+    this._input.style.width = `${this._area.size.x * scaleVector.x}px`;
+    this._input.style.height = `${this._area.size.y * scaleVector.y}px`;
     if (this._baseStyle.fontSize.slice(-2) === 'px') {
       const fontSize = parseInt(this._baseStyle.fontSize.slice(0, -2));
       this._input.style.fontSize = `${this._fontSize * scale}px`;
@@ -208,14 +228,10 @@ export class InputField {
       this._input.style.fontSize = `${this._fontSize * scale}rem`;
     }
 
-    const canvasPosition = GameCanvas.instance.position;
+    const center = this._gameCanvas.canvasToClient(this._area.position);
     const size = new Point(this._input.offsetWidth, this._input.offsetHeight);
-    const positionX = Math.round(
-      canvasPosition.x + this._area.position.x * scale - size.x / 2
-    );
-    const positionY = Math.round(
-      canvasPosition.y + this._area.position.y * scale - size.y / 2
-    );
+    const positionX = Math.round(center.x - size.x / 2);
+    const positionY = Math.round(center.y - size.y / 2);
     this._input.style.left = `${positionX}px`;
     this._input.style.top = `${positionY}px`;
   }
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AssetStore } from '../src/assets/AssetStore';
+
+/**
+ * An image that loads when the test says so.
+ */
+class FakeImage {
+  public static instances: FakeImage[] = [];
+  public src = '';
+  public onload?: () => void;
+  public onerror?: (error: unknown) => void;
+
+  public constructor() {
+    FakeImage.instances.push(this);
+  }
+}
+
+describe('AssetStore', () => {
+  beforeEach(() => {
+    FakeImage.instances = [];
+    vi.stubGlobal('Image', FakeImage);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const manifest = { images: [{ name: 'hero', url: 'hero.png' }] };
+
+  it('waits for an image that is still loading', async () => {
+    const assetStore = new AssetStore();
+    let isFirstLoaded = false;
+    let isSecondLoaded = false;
+    assetStore.loadManifest(manifest).then(() => (isFirstLoaded = true));
+    assetStore.loadManifest(manifest).then(() => (isSecondLoaded = true));
+    await new Promise((resolve) => setTimeout(resolve));
+
+    expect(FakeImage.instances).toHaveLength(1);
+    expect(isSecondLoaded).toBe(false);
+
+    FakeImage.instances[0].onload?.();
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(isFirstLoaded).toBe(true);
+    expect(isSecondLoaded).toBe(true);
+  });
+
+  it('skips an image already loaded', async () => {
+    const assetStore = new AssetStore();
+    const loading = assetStore.loadManifest(manifest);
+    FakeImage.instances[0].onload?.();
+    await loading;
+
+    const progress: number[] = [];
+    await assetStore.loadManifest(manifest, (value) => progress.push(value));
+
+    expect(FakeImage.instances).toHaveLength(1);
+    expect(progress).toEqual([1]);
+  });
+
+  it('loads again an image that failed', async () => {
+    const assetStore = new AssetStore();
+    const failing = assetStore.loadManifest(manifest);
+    FakeImage.instances[0].onerror?.(new Error('404'));
+    await expect(failing).rejects.toThrow('404');
+
+    const retrying = assetStore.loadManifest(manifest);
+    expect(FakeImage.instances).toHaveLength(2);
+    FakeImage.instances[1].onload?.();
+    await retrying;
+    expect(assetStore.getImage('hero')).toBe(FakeImage.instances[1]);
+  });
+});
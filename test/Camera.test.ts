@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { Camera } from '../src/cameras/Camera';
+import { Point } from '../src/primitives/Point';
+import { Rectangle } from '../src/primitives/Rectangle';
+
+const expectPoint = (point: Point, x: number, y: number): void => {
+  expect(point.x).toBeCloseTo(x);
+  expect(point.y).toBeCloseTo(y);
+};
+
+describe('Camera', () => {
+  it('centers the view on its position', () => {
+    const camera = new Camera(new Point(800, 600));
+
+    camera.setPosition(new Point(1000, 500)).setZoom(2);
+
+    expectPoint(camera.worldToScreen(new Point(1000, 500)), 400, 300);
+    expectPoint(camera.worldToScreen(new Point(1100, 550)), 600, 400);
+    const area = camera.visibleArea;
+    expectPoint(area.position, 800, 350);
+    expectPoint(area.size, 400, 300);
+  });
+
+  it('converts screen points back to the world', () => {
+    const camera = new Camera(new Point(800, 600))
+      .setPosition(new Point(120, -40))
+      .setZoom(1.5)
+      .setRotation(Math.PI / 6);
+    const world = new Point(200, 10);
+
+    expectPoint(camera.screenToWorld(camera.worldToScreen(world)), 200, 10);
+  });
+
+  it('rotates the world the other way round on screen', () => {
+    const camera = new Camera(new Point(800, 600))
+      .setPosition(new Point(0, 0))
+      .setRotation(Math.PI / 2);
+
+    expectPoint(camera.worldToScreen(new Point(100, 0)), 400, 200);
+  });
+
+  it('keeps the view inside its bounds', () => {
+    const camera = new Camera(new Point(800, 600)).setBounds(
+      new Rectangle(new Point(0, 0), new Point(2000, 1000))
+    );
+
+    camera.setPosition(new Point(-500, 5000));
+    expectPoint(camera.position, 400, 700);
+    camera.setZoom(0.5);
+    expectPoint(camera.position, 800, 500);
+  });
+
+  it('centers a view larger than its bounds', () => {
+    const camera = new Camera(new Point(800, 600)).setBounds(
+      new Rectangle(new Point(0, 0), new Point(400, 300))
+    );
+
+    camera.setPosition(new Point(0, 0));
+
+    expectPoint(camera.position, 200, 150);
+  });
+
+  it('follows a target outside of the deadzone', () => {
+    const camera = new Camera(new Point(800, 600)).setPosition(new Point(0, 0));
+    const target = { position: new Point(30, 5) };
+
+    camera.follow(target, { deadzone: new Point(20, 20) }).update(1 / 60);
+
+    expectPoint(camera.position, 20, 0);
+  });
+
+  it('covers the same distance whatever the frame rate', () => {
+    const atSixty = new Camera().setPosition(new Point(0, 0));
+    const atThirty = new Camera().setPosition(new Point(0, 0));
+    const target = new Point(100, 0);
+    atSixty.follow(target, { lerp: 0.5 });
+    atThirty.follow(target, { lerp: 0.5 });
+
+    atSixty.update(1 / 60);
+    atSixty.update(1 / 60);
+    atThirty.update(1 / 30);
+
+    expectPoint(atSixty.position, 75, 0);
+    expectPoint(atThirty.position, 75, 0);
+  });
+
+  it('rejects an invalid zoom or lerp', () => {
+    const camera = new Camera();
+
+    expect(() => camera.setZoom(0)).toThrow();
+    expect(() => camera.follow(new Point(0, 0), { lerp: 0 })).toThrow();
+  });
+});
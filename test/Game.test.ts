@@ -0,0 +1,193 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Game } from '../src/Game';
+import { GameCanvas } from '../src/GameCanvas';
+import { GameLoop } from '../src/GameLoop';
+import { SceneManager } from '../src/SceneManager';
+import { ServiceContainer } from '../src/ServiceContainer';
+import { AssetStore } from '../src/assets/AssetStore';
+import { Keyboard } from '../src/inputs/Keyboard';
+import { Scene } from '../src/interfaces/Scene';
+import { ManualScheduler } from '../src/schedulers/ManualScheduler';
+
+describe('Game services', () => {
+  let game: Game;
+
+  afterEach(() => game.destroy());
+
+  it('puts back its own service when an override is restored', () => {
+    game = new Game({ printLogo: false });
+    const sceneManager = game.sceneManager;
+
+    ServiceContainer.override(SceneManager, new SceneManager(new AssetStore()));
+    ServiceContainer.restore(SceneManager);
+
+    expect(game.sceneManager).toBe(sceneManager);
+    expect(ServiceContainer.SceneManager).toBe(sceneManager);
+  });
+
+  it('stops the replaced inputs from listening', () => {
+    game = new Game({ printLogo: false });
+    const keyboard = game.keyboard;
+    const destroy = vi.spyOn(keyboard, 'destroy');
+    const fake = new Keyboard(game.gameCanvas, game.gameLoop);
+    const destroyFake = vi.spyOn(fake, 'destroy');
+
+    ServiceContainer.override(Keyboard, fake);
+    expect(destroy).toHaveBeenCalledOnce();
+    ServiceContainer.restore(Keyboard);
+
+    expect(destroyFake).toHaveBeenCalledOnce();
+    expect(game.keyboard).not.toBe(fake);
+    expect(game.keyboard).toBeInstanceOf(Keyboard);
+  });
+
+  it('runs a single loop when the loop is replaced and restored', () => {
+    const scheduler = new ManualScheduler();
+    game = new Game({ printLogo: false, loop: { scheduler } });
+    const gameLoop = game.gameLoop;
+    gameLoop.start();
+    const fake = new GameLoop(game.sceneManager, game.gameCanvas);
+    fake.setScheduler(scheduler);
+
+    game.setService(GameLoop, fake);
+    expect(gameLoop.isRunning).toBe(false);
+    expect(fake.isRunning).toBe(true);
+    game.restoreService(GameLoop);
+
+    expect(fake.isRunning).toBe(false);
+    expect(gameLoop.isRunning).toBe(true);
+    expect(game.gameLoop).toBe(gameLoop);
+  });
+
+  it('adopts the default services filled before it was created', () => {
+    const image = document.createElement('img');
+    AssetStore.instance.images.set('hero', image);
+
+    game = new Game({ printLogo: false });
+
+    expect(game.assetStore.images.get('hero')).toBe(image);
+    expect(ServiceContainer.AssetStore).toBe(game.assetStore);
+  });
+
+  it('listens to the canvas that replaced its own with its inputs', () => {
+    const scheduler = new ManualScheduler();
+    game = new Game({ printLogo: false, loop: { scheduler } });
+    const keyboard = game.keyboard;
+    const destroy = vi.spyOn(keyboard, 'destroy');
+    const gameCanvas = new GameCanvas();
+
+    game.setService(GameCanvas, gameCanvas);
+    gameCanvas.canvas.dispatchEvent(
+      new KeyboardEvent('keydown', { code: 'KeyA' })
+    );
+    game.gameLoop.start();
+    scheduler.tick();
+
+    expect(destroy).toHaveBeenCalledOnce();
+    expect(game.keyboard).not.toBe(keyboard);
+    expect(game.keyboard.isDown('KeyA')).toBe(true);
+  });
+});
+
+describe('Game isolation', () => {
+  let games: Game[] = [];
+
+  afterEach(() => {
+    games.forEach((game) => game.destroy());
+    games = [];
+  });
+
+  const createGame = (scheduler?: ManualScheduler): Game => {
+    const game = new Game({ printLogo: false, loop: { scheduler } });
+    games.push(game);
+    return game;
+  };
+
+  it('activates the previous game again when deactivated', () => {
+    const first = createGame();
+    const second = createGame();
+
+    second.deactivate();
+
+    expect(Game.current).toBe(first);
+    expect(GameLoop.instance).toBe(first.gameLoop);
+  });
+
+  it('releases the default instances when the last game is destroyed', () => {
+    const game = createGame();
+
+    game.destroy();
+    games = [];
+
+    expect(Game.current).toBeUndefined();
+    expect(GameLoop.instance).not.toBe(game.gameLoop);
+    GameLoop.reset();
+  });
+
+  it('subscribes the scope of a scene to the loop of its game', () => {
+    const scheduler = new ManualScheduler();
+    const game = createGame(scheduler);
+    let updates = 0;
+    const scene: Scene = {
+      load: () => game.sceneManager.scope.subscribeToUpdate(() => updates++),
+      unload: () => undefined,
+      update: () => undefined,
+      draw: () => undefined,
+    };
+    createGame();
+
+    game.sceneManager.setScene(scene);
+    game.gameLoop.start();
+    scheduler.tick();
+
+    expect(updates).toBe(1);
+  });
+
+  it('activates the game of a scene loaded asynchronously', async () => {
+    const game = createGame();
+    let activeOnLoad: Game | undefined;
+    const scene: Scene = {
+      preload: () => Promise.resolve(),
+      load: () => {
+        activeOnLoad = Game.current;
+      },
+      unload: () => undefined,
+      update: () => undefined,
+      draw: () => undefined,
+    };
+
+    const loading = game.sceneManager.loadScene(scene);
+    createGame();
+    await loading;
+
+    expect(activeOnLoad).toBe(game);
+  });
+});
+
+describe('Game destroy', () => {
+  it('finishes the teardown when a plugin fails to uninstall', () => {
+    const game = new Game({ printLogo: false });
+    const scheduler = new ManualScheduler();
+    const uninstalled: string[] = [];
+    game
+      .use({
+        name: 'first',
+        install: () => undefined,
+        uninstall: () => uninstalled.push('first'),
+      })
+      .use({
+        name: 'broken',
+        install: () => undefined,
+        uninstall: () => {
+          throw new Error('broken');
+        },
+      });
+    game.gameLoop.start(scheduler);
+
+    expect(() => game.destroy()).toThrow('broken');
+    expect(uninstalled).toEqual(['first']);
+    expect(game.hasPlugin('broken')).toBe(false);
+    expect(game.gameLoop.isRunning).toBe(false);
+    expect(Game.current).toBeUndefined();
+  });
+});
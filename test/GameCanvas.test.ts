@@ -0,0 +1,437 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GameCanvas } from '../src/GameCanvas';
+import { FadeEffect } from '../src/effects/FadeEffect';
+import { PostEffect } from '../src/effects/PostEffect';
+import { Point } from '../src/primitives/Point';
+import { Rectangle } from '../src/primitives/Rectangle';
+
+/**
+ * A 2D context whose drawing methods do nothing, the test DOM has no canvas backend.
+ */
+const createContext = (): CanvasRenderingContext2D =>
+  new Proxy({} as Record<string | symbol, unknown>, {
+    get: (target, key) => (key in target ? target[key] : () => undefined),
+  }) as unknown as CanvasRenderingContext2D;
+
+type RecordingContext = CanvasRenderingContext2D & {
+  drawn: { args: unknown[]; isSmoothed: boolean }[];
+};
+
+/**
+ * A 2D context of its canvas recording the images drawn and whether they were smoothed.
+ */
+function createRecordingContext(this: HTMLCanvasElement): RecordingContext {
+  const target: Record<string | symbol, unknown> = { canvas: this, drawn: [] };
+  target.drawImage = (...args: unknown[]) =>
+    (target.drawn as RecordingContext['drawn']).push({
+      args,
+      isSmoothed: target.imageSmoothingEnabled as boolean,
+    });
+  return new Proxy(target, {
+    get: (target, key) => (key in target ? target[key] : () => undefined),
+  }) as unknown as RecordingContext;
+}
+
+/**
+ * An effect recording the canvas it draws on and the frame it draws.
+ */
+class RecordingEffect extends PostEffect {
+  public applied: HTMLCanvasElement[][] = [];
+
+  public constructor() {
+    super();
+  }
+
+  public apply(
+    context: CanvasRenderingContext2D,
+    source: HTMLCanvasElement
+  ): void {
+    this.applied.push([context.canvas, source]);
+  }
+}
+
+/**
+ * A media recorder emitting a single chunk of video when stopped, the test DOM cannot record.
+ */
+class FakeMediaRecorder {
+  public readonly stream: MediaStream;
+  public readonly mimeType: string;
+  public ondataavailable?: (event: { data: Blob }) => void;
+  public onstop?: () => void;
+
+  public constructor(stream: MediaStream, options: { mimeType: string }) {
+    this.stream = stream;
+    this.mimeType = options.mimeType;
+  }
+
+  public static isTypeSupported(mimeType: string): boolean {
+    return mimeType === 'video/webm';
+  }
+
+  public start(): void {}
+
+  public stop(): void {
+    this.ondataavailable?.({ data: new Blob(['frame']) });
+    this.onstop?.();
+  }
+}
+
+const createParent = (
+  width: number,
+  height: number
+): HTMLElement & { size: Point } => {
+  const parent = Object.assign(document.createElement('div'), {
+    size: new Point(width, height),
+  });
+  Object.defineProperty(parent, 'clientWidth', { get: () => parent.size.x });
+  Object.defineProperty(parent, 'clientHeight', { get: () => parent.size.y });
+  document.body.appendChild(parent);
+  return parent;
+};
+
+/**
+ * A resize observer recording the observers created, to resize their elements by hand.
+ */
+class FakeResizeObserver {
+  public static observers: FakeResizeObserver[] = [];
+  public isConnected = true;
+  public callback: () => void;
+
+  public constructor(callback: () => void) {
+    this.callback = callback;
+    FakeResizeObserver.observers.push(this);
+  }
+
+  public observe(): void {}
+
+  public disconnect(): void {
+    this.isConnected = false;
+  }
+}
+
+describe('GameCanvas auto size', () => {
+  let gameCanvas: GameCanvas;
+
+  beforeEach(() => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      createContext as unknown as () => null
+    );
+    gameCanvas = new GameCanvas();
+  });
+
+  afterEach(() => {
+    gameCanvas.destroy();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    FakeResizeObserver.observers = [];
+  });
+
+  it('fits the canvas in its parent element', () => {
+    const parent = createParent(400, 400);
+
+    gameCanvas.init({ parent, size: new Point(800, 600) });
+
+    expect(gameCanvas.canvas.style.width).toBe('400px');
+    expect(gameCanvas.canvas.style.height).toBe('400px');
+    expect(gameCanvas.scale).toBeCloseTo(0.5);
+    expect(gameCanvas.offset.y).toBeCloseTo(50);
+    parent.remove();
+  });
+
+  it('fits the canvas in the window when added to the body', () => {
+    gameCanvas.init({ size: new Point(800, 600) });
+
+    expect(gameCanvas.canvas.style.width).toBe(`${window.innerWidth}px`);
+    expect(gameCanvas.canvas.style.height).toBe(`${window.innerHeight}px`);
+  });
+
+  it('follows the size of its parent element', () => {
+    vi.stubGlobal('ResizeObserver', FakeResizeObserver);
+    const parent = createParent(400, 300);
+    gameCanvas.init({ parent, size: new Point(800, 600) });
+
+    parent.size = new Point(1600, 1200);
+    FakeResizeObserver.observers[0].callback();
+
+    expect(gameCanvas.canvas.style.width).toBe('1600px');
+    expect(gameCanvas.scale).toBeCloseTo(2);
+    parent.remove();
+  });
+
+  it('stops observing the previous parent when initialized again', () => {
+    vi.stubGlobal('ResizeObserver', FakeResizeObserver);
+    const parent = createParent(400, 300);
+
+    gameCanvas.init({ parent });
+    gameCanvas.init({ parent });
+    const [first, second] = FakeResizeObserver.observers;
+    expect(first.isConnected).toBe(false);
+    expect(second.isConnected).toBe(true);
+    gameCanvas.destroy();
+
+    expect(second.isConnected).toBe(false);
+    parent.remove();
+  });
+});
+
+describe('GameCanvas pixel perfect', () => {
+  let gameCanvas: GameCanvas;
+
+  beforeEach(() => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      createRecordingContext as unknown as () => null
+    );
+    gameCanvas = new GameCanvas();
+  });
+
+  afterEach(() => {
+    gameCanvas.destroy();
+    vi.restoreAllMocks();
+  });
+
+  it('renders the frame in an offscreen canvas of the base size', () => {
+    gameCanvas.init({ size: new Point(320, 180), pixelPerfect: true });
+
+    expect(gameCanvas.context).not.toBe(gameCanvas.displayContext);
+    expect(gameCanvas.context.canvas.width).toBe(320);
+    expect(gameCanvas.context.canvas.height).toBe(180);
+    expect(gameCanvas.uiContext).toBe(gameCanvas.context);
+  });
+
+  it('upscales the frame to the visible canvas without smoothing', () => {
+    gameCanvas.init({ size: new Point(320, 180), pixelPerfect: true });
+    const renderTarget = gameCanvas.context.canvas;
+
+    gameCanvas.present();
+
+    const display = gameCanvas.displayContext as RecordingContext;
+    expect(display.drawn).toEqual([
+      {
+        args: [renderTarget, 0, 0, 320, 180, 0, 0, 320, 180],
+        isSmoothed: false,
+      },
+    ]);
+  });
+
+  it('draws the UI on the visible canvas at full resolution', () => {
+    gameCanvas.init({ size: new Point(320, 180) });
+
+    gameCanvas.setPixelPerfect(true, true);
+
+    expect(gameCanvas.context).not.toBe(gameCanvas.displayContext);
+    expect(gameCanvas.uiContext).toBe(gameCanvas.displayContext);
+    expect(gameCanvas.context.canvas.width).toBe(320);
+  });
+
+  it('draws directly on the visible canvas once disabled', () => {
+    gameCanvas.init({ size: new Point(320, 180), pixelPerfect: true });
+
+    gameCanvas.setPixelPerfect(false);
+    gameCanvas.present();
+
+    expect(gameCanvas.context).toBe(gameCanvas.displayContext);
+    expect(gameCanvas.uiContext).toBe(gameCanvas.displayContext);
+    expect((gameCanvas.displayContext as RecordingContext).drawn).toEqual([]);
+  });
+});
+
+describe('GameCanvas effects', () => {
+  let gameCanvas: GameCanvas;
+
+  beforeEach(() => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      createRecordingContext as unknown as () => null
+    );
+    gameCanvas = new GameCanvas();
+    gameCanvas.init({ size: new Point(320, 180) });
+  });
+
+  afterEach(() => {
+    gameCanvas.destroy();
+    vi.restoreAllMocks();
+  });
+
+  it('applies the active effects in order on the output of the previous one', () => {
+    const first = gameCanvas.addEffect(new RecordingEffect());
+    const disabled = gameCanvas.addEffect(new RecordingEffect());
+    const last = gameCanvas.addEffect(new RecordingEffect());
+    disabled.setEnabled(false);
+    const renderTarget = gameCanvas.context.canvas;
+
+    gameCanvas.applyEffects();
+
+    const [[buffer, source]] = first.applied;
+    expect(source).toBe(renderTarget);
+    expect(buffer).not.toBe(renderTarget);
+    expect(disabled.applied).toEqual([]);
+    expect(last.applied).toEqual([[renderTarget, buffer]]);
+  });
+
+  it('copies the output of an odd chain back to the offscreen canvas', () => {
+    const effect = gameCanvas.addEffect(new RecordingEffect());
+
+    gameCanvas.applyEffects();
+
+    const [[buffer]] = effect.applied;
+    const context = gameCanvas.context as RecordingContext;
+    expect(context.drawn.map(({ args }) => args)).toEqual([[buffer, 0, 0]]);
+  });
+
+  it('renders offscreen only while an effect is active', () => {
+    const fade = gameCanvas.addEffect(new FadeEffect());
+    expect(gameCanvas.context).toBe(gameCanvas.displayContext);
+
+    fade.fadeOut(1);
+    gameCanvas.updateEffects(0.5);
+    expect(fade.amount).toBeCloseTo(0.5);
+    expect(gameCanvas.context).not.toBe(gameCanvas.displayContext);
+
+    fade.setEnabled(false);
+    expect(gameCanvas.context).toBe(gameCanvas.displayContext);
+  });
+
+  it('inserts, removes and clears the effects of the chain', () => {
+    const first = gameCanvas.addEffect(new RecordingEffect());
+    const second = gameCanvas.addEffect(new RecordingEffect(), 0);
+
+    expect(gameCanvas.effects).toEqual([second, first]);
+    expect(() => gameCanvas.addEffect(first)).toThrow('Effect already added.');
+    gameCanvas.removeEffect(second);
+    expect(gameCanvas.effects).toEqual([first]);
+    gameCanvas.clearEffects().applyEffects();
+    expect(gameCanvas.effects).toEqual([]);
+    expect(first.applied).toEqual([]);
+  });
+});
+
+describe('GameCanvas captures', () => {
+  let gameCanvas: GameCanvas;
+  let parent: HTMLElement;
+  let contexts: RecordingContext[];
+
+  beforeEach(() => {
+    contexts = [];
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      function (this: HTMLCanvasElement) {
+        contexts.push(createRecordingContext.call(this));
+        return contexts[contexts.length - 1];
+      }
+    );
+    gameCanvas = new GameCanvas();
+    parent = createParent(400, 300);
+    gameCanvas.init({ parent, size: new Point(800, 600) });
+  });
+
+  afterEach(() => {
+    gameCanvas.destroy();
+    parent.remove();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  /**
+   * Captures the canvas as a data URL, returning the context the capture was drawn with.
+   */
+  const captureDataURL = (
+    ...options: Parameters<GameCanvas['screenshotToDataURL']>
+  ): RecordingContext => {
+    let capture: HTMLCanvasElement | undefined;
+    vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockImplementation(
+      function (this: HTMLCanvasElement) {
+        capture = this;
+        return 'data:image/png;base64,';
+      }
+    );
+    gameCanvas.screenshotToDataURL(...options);
+    return contexts.filter((context) => context.canvas === capture)[0];
+  };
+
+  /**
+   * Records the canvas through a stream whose single track records whether it was stopped.
+   */
+  const stubRecording = (): { isStopped: boolean } => {
+    const track = { isStopped: false, stop: () => (track.isStopped = true) };
+    vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+    gameCanvas.canvas.captureStream = () =>
+      ({ getTracks: () => [track] }) as unknown as MediaStream;
+    return track;
+  };
+
+  it('captures a region of the visible canvas', () => {
+    const area = new Rectangle(new Point(100, 100), new Point(200, 100));
+
+    const context = captureDataURL({ area });
+
+    expect(context.canvas.width).toBe(100);
+    expect(context.canvas.height).toBe(50);
+    expect(context.drawn[0].args).toEqual([
+      gameCanvas.canvas,
+      50,
+      50,
+      100,
+      50,
+      0,
+      0,
+      100,
+      50,
+    ]);
+  });
+
+  it('captures at the base resolution', () => {
+    const context = captureDataURL({ baseResolution: true });
+
+    expect(context.canvas.width).toBe(800);
+    expect(context.canvas.height).toBe(600);
+    expect(context.drawn[0].args.slice(1, 5)).toEqual([0, 0, 400, 300]);
+  });
+
+  it('resolves the screenshot as a blob of the requested type', async () => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(
+      (callback, type) => callback(new Blob([], { type }))
+    );
+
+    const image = await gameCanvas.screenshot({ type: 'image/jpeg' });
+
+    expect(image.type).toBe('image/jpeg');
+  });
+
+  it('rejects the screenshot when the canvas cannot be encoded', async () => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(
+      (callback) => callback(null)
+    );
+
+    await expect(gameCanvas.screenshot()).rejects.toThrow('Screenshot failed.');
+  });
+
+  it('records the canvas until stopped', async () => {
+    const track = stubRecording();
+
+    gameCanvas.startRecording();
+    expect(gameCanvas.isRecording).toBe(true);
+    expect(() => gameCanvas.startRecording()).toThrow(
+      'Recording already started.'
+    );
+    const video = await gameCanvas.stopRecording();
+
+    expect(gameCanvas.isRecording).toBe(false);
+    expect(video.type).toBe('video/webm');
+    expect(video.size).toBe(5);
+    expect(track.isStopped).toBe(true);
+    await expect(gameCanvas.stopRecording()).rejects.toThrow(
+      'Recording not started.'
+    );
+  });
+
+  it('toggles the recording for a hotkey', async () => {
+    stubRecording();
+
+    expect(await gameCanvas.toggleRecording()).toBeUndefined();
+    const video = await gameCanvas.toggleRecording();
+
+    expect(video?.type).toBe('video/webm');
+    await expect(
+      gameCanvas.toggleRecording({ mimeType: 'video/mp4' })
+    ).rejects.toThrow('Recording to video/mp4 is not supported.');
+    expect(gameCanvas.isRecording).toBe(false);
+  });
+});
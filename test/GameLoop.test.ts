@@ -0,0 +1,354 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GameCanvas } from '../src/GameCanvas';
+import { GameLoop } from '../src/GameLoop';
+import { SceneManager } from '../src/SceneManager';
+import { AssetStore } from '../src/assets/AssetStore';
+import { LoopPhase } from '../src/enums/LoopPhase';
+import { FrameScheduler } from '../src/interfaces/FrameScheduler';
+import { Scene } from '../src/interfaces/Scene';
+import { ManualScheduler } from '../src/schedulers/ManualScheduler';
+import { FrameCallback } from '../src/types/FrameCallback';
+
+/**
+ * Keeps every requested frame, to count the frame chains of a loop.
+ */
+class QueueScheduler implements FrameScheduler {
+  public callbacks: FrameCallback[] = [];
+  private _time = 0;
+
+  public now(): number {
+    return this._time;
+  }
+
+  public request(callback: FrameCallback): void {
+    this.callbacks.push(callback);
+  }
+
+  public cancel(): void {
+    this.callbacks.pop();
+  }
+
+  public tick(): void {
+    this._time += 1000 / 60;
+    const callbacks = this.callbacks;
+    this.callbacks = [];
+    callbacks.forEach((callback) => callback(this._time));
+  }
+}
+
+const createScene = (): Scene & { updates: number[] } => {
+  const updates: number[] = [];
+  return {
+    updates,
+    load: () => undefined,
+    unload: () => undefined,
+    update: (deltaTime) => updates.push(deltaTime),
+    draw: () => undefined,
+  };
+};
+
+const createLoop = (): { loop: GameLoop; sceneManager: SceneManager } => {
+  const sceneManager = new SceneManager(new AssetStore());
+  return { loop: new GameLoop(sceneManager, new GameCanvas()), sceneManager };
+};
+
+describe('GameLoop', () => {
+  it('runs headlessly with a ManualScheduler and a canvas not on the page', () => {
+    const { loop, sceneManager } = createLoop();
+    const scene = createScene();
+    sceneManager.setScene(scene);
+    const scheduler = new ManualScheduler();
+
+    loop.start(scheduler);
+    scheduler.tick(1 / 60, 3);
+
+    expect(scene.updates).toHaveLength(3);
+    scene.updates.forEach((deltaTime) => expect(deltaTime).toBeCloseTo(1 / 60));
+    loop.stop();
+  });
+
+  it('stops requesting frames when stopped', () => {
+    const { loop } = createLoop();
+    const scheduler = new ManualScheduler();
+    let frames = 0;
+    loop.subscribeToUpdate(() => frames++);
+
+    loop.start(scheduler);
+    scheduler.tick();
+    loop.stop();
+    scheduler.tick(1 / 60, 5);
+
+    expect(frames).toBe(1);
+  });
+
+  it('keeps a single frame chain when restarted during a frame', () => {
+    const { loop } = createLoop();
+    const scheduler = new QueueScheduler();
+    let isRestarted = false;
+    loop.subscribeToUpdate(() => {
+      if (isRestarted) return;
+      isRestarted = true;
+      loop.stop().start();
+    });
+
+    loop.start(scheduler);
+    scheduler.tick();
+
+    expect(scheduler.callbacks).toHaveLength(1);
+    loop.stop();
+  });
+
+  it('keeps a single frame chain when the scheduler is replaced during a frame', () => {
+    const { loop } = createLoop();
+    const first = new QueueScheduler();
+    const second = new QueueScheduler();
+    loop.subscribeToUpdate(() => loop.setScheduler(second));
+
+    loop.start(first);
+    first.tick();
+
+    expect(first.callbacks).toHaveLength(0);
+    expect(second.callbacks).toHaveLength(1);
+    loop.stop();
+  });
+  it('logs an error thrown on every frame only once', () => {
+    const { loop } = createLoop();
+    const scheduler = new ManualScheduler();
+    const log = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    let frame = 0;
+    loop.subscribeToUpdate(() => {
+      throw new Error(++frame < 4 ? 'persistent' : 'other');
+    });
+
+    loop.start(scheduler);
+    scheduler.tick(1 / 60, 4);
+    loop.stop();
+    const logged = log.mock.calls.map(([error]) => error.message);
+    log.mockRestore();
+
+    expect(logged).toEqual(['persistent', 'other']);
+  });
+});
+
+describe('GameLoop fixed time step', () => {
+  it('runs as many fixed updates as the elapsed time allows', () => {
+    const { loop } = createLoop();
+    const scheduler = new ManualScheduler();
+    const steps: number[] = [];
+    loop.enableFixedTimeStep(0.25).subscribeToFixedUpdate((deltaTime) => {
+      steps.push(deltaTime);
+    });
+
+    loop.start(scheduler);
+    scheduler.tick(0.5);
+
+    expect(steps).toEqual([0.25, 0.25]);
+    expect(loop.alpha).toBe(0);
+    loop.stop();
+  });
+
+  it('exposes the remaining time as the interpolation factor', () => {
+    const { loop } = createLoop();
+    const scheduler = new ManualScheduler();
+    let steps = 0;
+    loop.enableFixedTimeStep(0.25).subscribeToFixedUpdate(() => steps++);
+
+    loop.start(scheduler);
+    scheduler.tick(0.375);
+
+    expect(steps).toBe(1);
+    expect(loop.alpha).toBeCloseTo(0.5);
+    loop.stop();
+  });
+
+  it('caps the fixed updates of a frame and drops the time it cannot catch up with', () => {
+    const { loop } = createLoop();
+    const scheduler = new ManualScheduler();
+    let steps = 0;
+    loop.enableFixedTimeStep(0.25, 3).subscribeToFixedUpdate(() => steps++);
+
+    loop.start(scheduler);
+    scheduler.tick(2);
+
+    expect(steps).toBe(3);
+    expect(loop.alpha).toBeLessThan(1);
+    scheduler.tick(0.25);
+    expect(steps).toBe(4);
+    loop.stop();
+  });
+
+  it('rejects an invalid step', () => {
+    const { loop } = createLoop();
+    expect(() => loop.enableFixedTimeStep(0)).toThrow();
+    expect(() => loop.enableFixedTimeStep(1 / 60, 0)).toThrow();
+  });
+});
+
+describe('GameLoop pause and time scale', () => {
+  it('scales the delta time given to the scenes', () => {
+    const { loop, sceneManager } = createLoop();
+    const scene = createScene();
+    sceneManager.setScene(scene);
+    const scheduler = new ManualScheduler();
+
+    loop.setTimeScale(0.5).start(scheduler);
+    scheduler.tick(0.5);
+
+    expect(scene.updates).toEqual([0.25]);
+    expect(loop.unscaledDeltaTime).toBe(0.5);
+    loop.stop();
+  });
+
+  it('stops updating the scenes and scaled subscribers while paused', () => {
+    const { loop, sceneManager } = createLoop();
+    const scene = createScene();
+    sceneManager.setScene(scene);
+    const scheduler = new ManualScheduler();
+    const unscaled: number[] = [];
+    loop.subscribeToUpdate((deltaTime) => unscaled.push(deltaTime), {
+      unscaled: true,
+    });
+
+    loop.start(scheduler).pause();
+    scheduler.tick(0.5, 2);
+
+    expect(scene.updates).toEqual([]);
+    expect(unscaled).toEqual([0.5, 0.5]);
+    expect(loop.deltaTime).toBe(0);
+    loop.stop();
+  });
+
+  it('steps a paused loop by a single frame', () => {
+    const { loop, sceneManager } = createLoop();
+    const scene = createScene();
+    sceneManager.setScene(scene);
+    const scheduler = new ManualScheduler();
+
+    loop.start(scheduler).pause().step(0.125);
+    scheduler.tick(0.5, 2);
+
+    expect(scene.updates).toEqual([0.125]);
+    loop.resume();
+    scheduler.tick(0.5);
+    expect(scene.updates).toEqual([0.125, 0.5]);
+    loop.stop();
+  });
+
+  it('only steps a paused loop and rejects a negative time scale', () => {
+    const { loop } = createLoop();
+    expect(() => loop.step()).toThrow();
+    expect(() => loop.setTimeScale(-1)).toThrow();
+  });
+});
+
+describe('GameLoop phases', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('runs the phases of a frame in order', () => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      (() =>
+        new Proxy({} as Record<string | symbol, unknown>, {
+          get: (target, key) => (key in target ? target[key] : () => undefined),
+        })) as unknown as () => null
+    );
+    const sceneManager = new SceneManager(new AssetStore());
+    const gameCanvas = new GameCanvas().init();
+    const loop = new GameLoop(sceneManager, gameCanvas);
+    const scheduler = new ManualScheduler();
+    const events: string[] = [];
+    sceneManager.setScene({
+      ...createScene(),
+      update: () => events.push('scene update'),
+      draw: () => events.push('scene draw'),
+    });
+    loop
+      .enableFixedTimeStep(1 / 60)
+      .subscribeToRender(() => events.push('ui'), { phase: LoopPhase.UI })
+      .subscribeToPostRender(() => events.push('post render'))
+      .subscribeToRender(() => events.push('render'))
+      .subscribeToPreRender(() => events.push('pre render'))
+      .subscribeToUpdate(() => events.push('late update'), {
+        phase: LoopPhase.LateUpdate,
+      })
+      .subscribeToUpdate(() => events.push('update'))
+      .subscribeToFixedUpdate(() => events.push('fixed update'))
+      .subscribeToUpdate(() => events.push('early update'), {
+        phase: LoopPhase.EarlyUpdate,
+      })
+      .subscribeToUpdate(() => events.push('input'), {
+        phase: LoopPhase.Input,
+      });
+
+    loop.start(scheduler);
+    scheduler.tick(1 / 60);
+    loop.stop();
+    gameCanvas.destroy();
+
+    expect(events).toEqual([
+      'input',
+      'early update',
+      'fixed update',
+      'update',
+      'scene update',
+      'late update',
+      'pre render',
+      'render',
+      'scene draw',
+      'post render',
+      'ui',
+    ]);
+  });
+
+  it('calls the subscribers of a phase by priority, then in the order they subscribed', () => {
+    const { loop } = createLoop();
+    const scheduler = new ManualScheduler();
+    const events: string[] = [];
+    loop
+      .subscribeToUpdate(() => events.push('last'), { priority: 10 })
+      .subscribeToUpdate(() => events.push('second'))
+      .subscribeToUpdate(() => events.push('first'), { priority: -10 })
+      .subscribeToUpdate(() => events.push('third'));
+
+    loop.start(scheduler);
+    scheduler.tick();
+    loop.stop();
+
+    expect(events).toEqual(['first', 'second', 'third', 'last']);
+  });
+
+  it('rejects a subscriber in a phase of the other kind', () => {
+    const { loop } = createLoop();
+
+    expect(() =>
+      loop.subscribeToUpdate(() => undefined, { phase: LoopPhase.Render })
+    ).toThrow('Update subscribers must run in an update phase.');
+    expect(() =>
+      loop.subscribeToRender(() => undefined, { phase: LoopPhase.Update })
+    ).toThrow('Render subscribers must run in a render phase.');
+  });
+
+  it('keeps calling the other subscribers when one unsubscribes during a frame', () => {
+    const { loop } = createLoop();
+    const scheduler = new ManualScheduler();
+    const events: string[] = [];
+    const once = () => {
+      events.push('once');
+      loop.unsubscribeFromUpdate(once);
+    };
+    const removed = () => events.push('removed');
+    loop
+      .subscribeToUpdate(once)
+      .subscribeToUpdate(() => {
+        events.push('remover');
+        loop.unsubscribeFromUpdate(removed);
+      })
+      .subscribeToUpdate(removed)
+      .subscribeToUpdate(() => events.push('other'));
+
+    loop.start(scheduler);
+    scheduler.tick(1 / 60, 2);
+    loop.stop();
+
+    expect(events).toEqual(['once', 'remover', 'other', 'remover', 'other']);
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GameCanvas } from '../src/GameCanvas';
+import { RendererType } from '../src/enums/RendererType';
+import { Drawable } from '../src/interfaces/Drawable';
+import { HitTestable } from '../src/interfaces/HitTestable';
+import { SpriteBatch } from '../src/interfaces/SpriteBatch';
+import { Container } from '../src/nodes/Container';
+import { Point } from '../src/primitives/Point';
+
+const expectPoint = (point: Point, x: number, y: number): void => {
+  expect(point.x).toBeCloseTo(x);
+  expect(point.y).toBeCloseTo(y);
+};
+
+/**
+ * A 2D context whose drawing methods do nothing, the test DOM has no canvas backend.
+ */
+const createContext = (): CanvasRenderingContext2D =>
+  new Proxy({} as Record<string | symbol, unknown>, {
+    get: (target, key) => (key in target ? target[key] : () => undefined),
+  }) as unknown as CanvasRenderingContext2D;
+
+/**
+ * A drawable covering the square from (0, 0) to (10, 10) in the space it is drawn in.
+ */
+const createSquare = (
+  events: string[] = [],
+  name: string = 'square',
+  isBatchable?: boolean
+): Drawable & HitTestable => ({
+  isBatchable,
+  draw: (context, alpha) => events.push(`${name} ${alpha}`),
+  isContainsPoint: (point) =>
+    point.x >= 0 && point.x <= 10 && point.y >= 0 && point.y <= 10,
+});
+
+describe('Node', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('composes the transforms of its parents', () => {
+    const parent = new Container([], new Point(100, 0));
+    parent.rotation = Math.PI / 2;
+    const child = parent.addChild(new Container([], new Point(10, 0)));
+    child.scale = new Point(2, 2);
+
+    expectPoint(child.worldPosition, 100, 10);
+    expectPoint(child.toWorld(new Point(1, 0)), 100, 12);
+    expectPoint(child.toLocal(new Point(100, 12)), 1, 0);
+  });
+
+  it('hit-tests its children through its inverse transform', () => {
+    const square = createSquare();
+    const container = new Container([square], new Point(100, 100));
+    container.scale = new Point(2, 2);
+
+    expect(container.hitTest(new Point(115, 115))).toBe(square);
+    expect(container.hitTest(new Point(125, 100))).toBeUndefined();
+    expect(container.hitTest(new Point(95, 100))).toBeUndefined();
+  });
+
+  it('refuses to be added to itself or its children', () => {
+    const root = new Container();
+    const child = root.addChild(new Container());
+    const grandChild = child.addChild(new Container());
+
+    expect(() => root.addChild(root)).toThrow(
+      'A node cannot be added to itself or its children.'
+    );
+    expect(() => grandChild.addChild(root)).toThrow(
+      'A node cannot be added to itself or its children.'
+    );
+    expect(child.parent).toBe(root);
+  });
+
+  it('neither draws nor hit-tests invisible children', () => {
+    const events: string[] = [];
+    const square = createSquare(events);
+    const hidden = new Container([square]);
+    hidden.isVisible = false;
+    const root = new Container([hidden]);
+
+    root.draw(createContext());
+
+    expect(events).toEqual([]);
+    expect(root.hitTest(new Point(5, 5))).toBeUndefined();
+    expect(square.isContainsPoint(new Point(5, 5))).toBe(true);
+  });
+
+  it('draws the children that are not batchable outside of the batch', () => {
+    const events: string[] = [];
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      createContext as unknown as () => null
+    );
+    const gameCanvas = new GameCanvas();
+    let batchContext: CanvasRenderingContext2D | undefined;
+    const batch: SpriteBatch = {
+      type: RendererType.Canvas2D,
+      begin: (context) => {
+        batchContext = context;
+        events.push('begin');
+      },
+      end: () => {
+        batchContext = undefined;
+        events.push('end');
+      },
+      flush: () => events.push('flush'),
+      isBatching: (context) => context === batchContext,
+      drawImage: () => undefined,
+      destroy: () => undefined,
+    };
+    gameCanvas.setSpriteBatch(batch);
+    const root = new Container([
+      createSquare(events, 'sprite', true),
+      createSquare(events, 'text'),
+      createSquare(events, 'other sprite', true),
+    ]);
+
+    batch.begin(gameCanvas.context);
+    root.draw(gameCanvas.context, 0.25);
+    batch.end();
+
+    expect(events).toEqual([
+      'begin',
+      'sprite 0.25',
+      'end',
+      'text 0.25',
+      'begin',
+      'other sprite 0.25',
+      'end',
+    ]);
+  });
+});
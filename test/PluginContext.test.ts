@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Game } from '../src/Game';
+import { ServiceContainer } from '../src/ServiceContainer';
+import { Plugin } from '../src/interfaces/Plugin';
+import { ManualScheduler } from '../src/schedulers/ManualScheduler';
+
+class TweenRunner {
+  public constructor(public game: Game) {}
+}
+
+const tweens: Plugin = {
+  name: 'tweens',
+  install: (context) =>
+    context.registerService(TweenRunner, () => new TweenRunner(context.game)),
+};
+
+describe('PluginContext', () => {
+  let games: Game[] = [];
+
+  afterEach(() => {
+    games.forEach((game) => game.destroy());
+    games = [];
+  });
+
+  const createGame = (scheduler?: ManualScheduler): Game => {
+    const game = new Game({ printLogo: false, loop: { scheduler } });
+    games.push(game);
+    return game;
+  };
+
+  it('registers the services of a plugin for its game only', () => {
+    const first = createGame().use(tweens);
+    const second = createGame().use(tweens);
+
+    expect(ServiceContainer.resolve(TweenRunner, first).game).toBe(first);
+    expect(ServiceContainer.resolve(TweenRunner).game).toBe(second);
+    first.uninstall(tweens);
+    expect(ServiceContainer.isRegistered(TweenRunner, first)).toBe(false);
+    expect(ServiceContainer.isRegistered(TweenRunner, second)).toBe(true);
+  });
+
+  it('subscribes to the loop of its game', () => {
+    const scheduler = new ManualScheduler();
+    const game = createGame(scheduler);
+    const other = createGame();
+    let updates = 0;
+
+    game.use({
+      name: 'counter',
+      install: (context) => {
+        other.activate();
+        context.subscribeToUpdate(() => updates++);
+      },
+    });
+    game.gameLoop.start();
+    other.gameLoop.start(new ManualScheduler());
+    scheduler.tick();
+
+    expect(updates).toBe(1);
+  });
+});
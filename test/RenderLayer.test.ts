@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AssetStore } from '../src/assets/AssetStore';
+import { Sprite } from '../src/assets/Sprite';
+import { GameCanvas } from '../src/GameCanvas';
+import { RendererType } from '../src/enums/RendererType';
+import { Drawable } from '../src/interfaces/Drawable';
+import { SpriteBatch } from '../src/interfaces/SpriteBatch';
+import { RenderLayer } from '../src/layers/RenderLayer';
+
+const createContext = (): CanvasRenderingContext2D =>
+  ({
+    globalAlpha: 1,
+    save: () => undefined,
+    restore: () => undefined,
+    translate: () => undefined,
+  }) as unknown as CanvasRenderingContext2D;
+
+/**
+ * A 2D context recording the images and rectangles drawn on it.
+ */
+const createRecordingContext = (events: string[]): CanvasRenderingContext2D =>
+  new Proxy({} as Record<string | symbol, unknown>, {
+    get: (target, key) => {
+      if (key in target) return target[key];
+      if (key === 'getTransform') return () => new DOMMatrix();
+      if (key === 'drawImage' || key === 'fillRect')
+        return () => events.push(key);
+      return () => undefined;
+    },
+  }) as unknown as CanvasRenderingContext2D;
+
+const createBatch = (events: string[]): SpriteBatch => {
+  let batchContext: CanvasRenderingContext2D | undefined;
+  return {
+    type: RendererType.Canvas2D,
+    begin: (context) => {
+      batchContext = context;
+      events.push('begin');
+    },
+    end: () => {
+      batchContext = undefined;
+      events.push('end');
+    },
+    flush: () => events.push('flush'),
+    isBatching: (context) => context === batchContext,
+    drawImage: () => events.push('batched'),
+    destroy: () => undefined,
+  };
+};
+
+const createDrawable = (
+  name: string,
+  events: string[],
+  isBatchable?: boolean
+): Drawable => ({ isBatchable, draw: () => events.push(name) });
+
+describe('RenderLayer', () => {
+  afterEach(() => {
+    AssetStore.reset();
+    vi.restoreAllMocks();
+  });
+
+  it('draws each drawable that is not batchable outside of the batch', () => {
+    const events: string[] = [];
+    const layer = new RenderLayer('world', { isBatched: true });
+    layer
+      .add(createDrawable('sprite', events, true), 0)
+      .add(createDrawable('text', events), 1)
+      .add(createDrawable('other sprite', events, true), 2);
+
+    layer.draw(createContext(), undefined, createBatch(events));
+
+    expect(events).toEqual([
+      'begin',
+      'sprite',
+      'end',
+      'text',
+      'begin',
+      'other sprite',
+      'end',
+    ]);
+  });
+
+  it('does not use the batch when not batched', () => {
+    const events: string[] = [];
+    const layer = new RenderLayer('ui');
+    layer.add(createDrawable('text', events));
+
+    layer.draw(createContext(), undefined, createBatch(events));
+
+    expect(events).toEqual(['text']);
+  });
+
+  it('keeps the sprites of a drawable that is not batchable in order with its direct drawing', () => {
+    const events: string[] = [];
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      (() => createRecordingContext(events)) as unknown as () => null
+    );
+    const gameCanvas = new GameCanvas();
+    const batch = createBatch(events);
+    gameCanvas.setSpriteBatch(batch);
+    const image = document.createElement('img');
+    AssetStore.instance.images.set('hero', image);
+    const below = new Sprite('hero');
+    const above = new Sprite('hero');
+    const layer = new RenderLayer('world', { isBatched: true });
+    layer.add({
+      draw: (context) => {
+        below.draw(context);
+        context.fillRect(0, 0, 10, 10);
+        above.draw(context);
+      },
+    });
+
+    layer.draw(gameCanvas.context, undefined, batch);
+
+    expect(events).toEqual([
+      'begin',
+      'end',
+      'drawImage',
+      'fillRect',
+      'drawImage',
+      'begin',
+      'end',
+    ]);
+  });
+});
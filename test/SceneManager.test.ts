@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest';
+import { GameCanvas } from '../src/GameCanvas';
+import { GameLoop } from '../src/GameLoop';
+import { SceneManager } from '../src/SceneManager';
+import { AssetStore } from '../src/assets/AssetStore';
+import { Scene } from '../src/interfaces/Scene';
+
+const createScene = (
+  events: string[],
+  name: string,
+  preload?: () => Promise<void>
+): Scene => ({
+  load: () => events.push(`load ${name}`),
+  unload: () => events.push(`unload ${name}`),
+  pause: () => events.push(`pause ${name}`),
+  update: () => undefined,
+  draw: () => undefined,
+  preload,
+});
+
+/**
+ * A scene manager whose errors are collected by the error handler of its loop.
+ */
+const createSceneManager = (errors: unknown[] = []): SceneManager => {
+  const sceneManager = new SceneManager(new AssetStore());
+  const gameCanvas = new GameCanvas();
+  const gameLoop = new GameLoop(sceneManager, gameCanvas).onError((error) =>
+    errors.push(error)
+  );
+  return sceneManager.setGameServices(gameLoop, gameCanvas);
+};
+
+describe('SceneManager', () => {
+  it('pushes a scene over the current one and pops it', () => {
+    const events: string[] = [];
+    const sceneManager = new SceneManager(new AssetStore());
+    const game = createScene(events, 'game');
+    sceneManager.setScene(game);
+    sceneManager.pushScene(createScene(events, 'menu'));
+    sceneManager.popScene();
+
+    expect(events).toEqual([
+      'load game',
+      'pause game',
+      'load menu',
+      'unload menu',
+    ]);
+    expect(sceneManager.currentScene).toBe(game);
+  });
+
+  it('preloads a pushed scene before loading it', async () => {
+    const events: string[] = [];
+    const sceneManager = new SceneManager(new AssetStore());
+    let finishPreload = () => undefined as void;
+    const preload = () =>
+      new Promise<void>((resolve) => (finishPreload = resolve));
+    sceneManager.setScene(createScene(events, 'game'));
+    sceneManager.pushScene(createScene(events, 'overlay', preload));
+
+    expect(sceneManager.isLoading).toBe(true);
+    expect(events).toEqual(['load game']);
+
+    finishPreload();
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(sceneManager.isLoading).toBe(false);
+    expect(events).toEqual(['load game', 'pause game', 'load overlay']);
+  });
+
+  it('unloads every scene and sets the next one when a scope fails to dispose', () => {
+    const events: string[] = [];
+    const errors: unknown[] = [];
+    const sceneManager = createSceneManager(errors);
+    const menu = createScene(events, 'menu');
+    menu.load = () => {
+      events.push('load menu');
+      sceneManager.scope.add(() => {
+        throw new Error('Cannot release the menu.');
+      });
+    };
+    sceneManager.setScene(createScene(events, 'game'));
+    sceneManager.pushScene(menu);
+
+    const next = createScene(events, 'next');
+    sceneManager.setScene(next);
+
+    expect(events.slice(3)).toEqual([
+      'unload menu',
+      'unload game',
+      'load next',
+    ]);
+    expect(sceneManager.scenes).toEqual([next]);
+    expect(errors).toEqual([new Error('Cannot release the menu.')]);
+  });
+
+  it('creates a registered scene by key with its data', () => {
+    const events: string[] = [];
+    const sceneManager = new SceneManager(new AssetStore());
+    const loaded: unknown[] = [];
+    sceneManager.register<{ level: number }>('level', () => ({
+      ...createScene(events, 'level'),
+      load: (data) => loaded.push(data),
+    }));
+
+    sceneManager.setScene('level', { level: 2 });
+
+    expect(sceneManager.currentSceneKey).toBe('level');
+    expect(loaded).toEqual([{ level: 2 }]);
+    expect(() =>
+      sceneManager.register('level', () => createScene([], 'other'))
+    ).toThrow('Scene with key level already registered');
+  });
+
+  it('refuses to set a scene whose key is not registered', () => {
+    const sceneManager = new SceneManager(new AssetStore());
+
+    expect(() => sceneManager.setScene('missing')).toThrow(
+      'Scene with key missing is not registered'
+    );
+    expect(sceneManager.currentScene).toBeUndefined();
+  });
+
+  it('restarts a registered scene with a new instance, its data and a new scope', () => {
+    const events: string[] = [];
+    const sceneManager = new SceneManager(new AssetStore());
+    let created = 0;
+    sceneManager.register('level', () =>
+      createScene(events, `level ${++created}`)
+    );
+    sceneManager.setScene('level', { level: 3 });
+    const scope = sceneManager.scope;
+    const first = sceneManager.currentScene;
+
+    sceneManager.restartScene();
+
+    expect(events).toEqual(['load level 1', 'unload level 1', 'load level 2']);
+    expect(created).toBe(2);
+    expect(sceneManager.currentScene).not.toBe(first);
+    expect(sceneManager.currentSceneKey).toBe('level');
+    expect(scope.isDisposed).toBe(true);
+    expect(sceneManager.scope).not.toBe(scope);
+    expect(sceneManager.scope.isDisposed).toBe(false);
+  });
+
+  it('restarts a scene instance with the same data', () => {
+    const events: string[] = [];
+    const sceneManager = new SceneManager(new AssetStore());
+    const loaded: unknown[] = [];
+    const scene = {
+      ...createScene(events, 'game'),
+      load: (data?: unknown) => loaded.push(data),
+    };
+    sceneManager.setScene(scene, { difficulty: 1 });
+
+    sceneManager.restartScene();
+
+    expect(sceneManager.currentScene).toBe(scene);
+    expect(loaded).toEqual([{ difficulty: 1 }, { difficulty: 1 }]);
+  });
+
+  it('sets the previous scene again and reports the error when a load fails', async () => {
+    const events: string[] = [];
+    const errors: unknown[] = [];
+    const sceneManager = createSceneManager(errors);
+    const loading = {
+      ...createScene(events, 'loading'),
+      onProgress: () => undefined,
+    };
+    sceneManager.setLoadingScene(loading);
+    const menu = createScene(events, 'menu');
+    sceneManager.setScene(menu);
+
+    sceneManager.setScene(
+      createScene(events, 'level', () =>
+        Promise.reject(new Error('Cannot load the level.'))
+      )
+    );
+    expect(sceneManager.currentScene).toBe(loading);
+    await new Promise((resolve) => setTimeout(resolve));
+
+    expect(sceneManager.currentScene).toBe(menu);
+    expect(sceneManager.isLoading).toBe(false);
+    expect(events).toEqual([
+      'load menu',
+      'unload menu',
+      'load loading',
+      'unload loading',
+      'load menu',
+    ]);
+    expect(errors).toEqual([new Error('Cannot load the level.')]);
+  });
+
+  it('rejects a failed load without a scene to go back to', async () => {
+    const events: string[] = [];
+    const sceneManager = createSceneManager();
+    sceneManager.setLoadingScene({
+      ...createScene(events, 'loading'),
+      onProgress: () => undefined,
+    });
+
+    await expect(
+      sceneManager.loadScene(
+        createScene(events, 'level', () =>
+          Promise.reject(new Error('Cannot load the level.'))
+        )
+      )
+    ).rejects.toThrow('Cannot load the level.');
+
+    expect(sceneManager.currentScene).toBeUndefined();
+    expect(events).toEqual(['load loading', 'unload loading']);
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { GameCanvas } from '../src/GameCanvas';
+import { GameLoop } from '../src/GameLoop';
+import { SceneManager } from '../src/SceneManager';
+import { SceneScope } from '../src/SceneScope';
+import { AssetStore } from '../src/assets/AssetStore';
+import { GrayscaleEffect } from '../src/effects/GrayscaleEffect';
+import { ManualScheduler } from '../src/schedulers/ManualScheduler';
+
+describe('SceneScope', () => {
+  afterEach(() => GameLoop.reset());
+
+  it('releases its resources in reverse order', () => {
+    const scope = new SceneScope();
+    const released: number[] = [];
+    scope.add(() => released.push(1)).add(() => released.push(2));
+
+    scope.dispose();
+
+    expect(released).toEqual([2, 1]);
+    expect(scope.isDisposed).toBe(true);
+  });
+
+  it('releases every resource when one of them throws', () => {
+    const scope = new SceneScope();
+    const released: number[] = [];
+    scope
+      .add(() => released.push(1))
+      .add(() => {
+        throw new Error('first');
+      })
+      .add(() => {
+        throw new Error('second');
+      })
+      .add(() => released.push(4));
+
+    expect(() => scope.dispose()).toThrow(/second; first/);
+    expect(released).toEqual([4, 1]);
+  });
+
+  it('rethrows the error of a single resource', () => {
+    const scope = new SceneScope();
+    const error = new Error('failed');
+    scope.add(() => {
+      throw error;
+    });
+
+    expect(() => scope.dispose()).toThrow(error);
+  });
+
+  it('removes its effects from the canvas when disposed', () => {
+    const gameCanvas = new GameCanvas();
+    const scope = new SceneScope(undefined, gameCanvas);
+    const other = gameCanvas.addEffect(new GrayscaleEffect());
+
+    const effect = scope.addEffect(new GrayscaleEffect(0.5));
+    expect(gameCanvas.effects).toEqual([other, effect]);
+    scope.dispose();
+
+    expect(gameCanvas.effects).toEqual([other]);
+  });
+
+  it('does not subscribe once disposed', () => {
+    const gameLoop = new GameLoop(
+      new SceneManager(new AssetStore()),
+      new GameCanvas()
+    );
+    GameLoop.instance = gameLoop;
+    const scheduler = new ManualScheduler();
+    const scope = new SceneScope();
+    let updates = 0;
+    scope.dispose();
+
+    expect(() => scope.subscribeToUpdate(() => updates++)).toThrow(
+      'SceneScope already disposed.'
+    );
+    gameLoop.start(scheduler);
+    scheduler.tick();
+    expect(updates).toBe(0);
+  });
+});
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GameLoop } from '../src/GameLoop';
+import { SceneManager } from '../src/SceneManager';
+import { ServiceContainer } from '../src/ServiceContainer';
+import { AssetStore } from '../src/assets/AssetStore';
+import { Keyboard } from '../src/inputs/Keyboard';
+import { ManualScheduler } from '../src/schedulers/ManualScheduler';
+
+class Analytics {}
+
+describe('ServiceContainer', () => {
+  afterEach(() => {
+    ['a', 'b', 'c', 'self', 'counter'].forEach((token) =>
+      ServiceContainer.unregister(token)
+    );
+    ServiceContainer.unregister(Analytics);
+    ServiceContainer.reset();
+  });
+
+  it('names the services of a circular dependency', () => {
+    ServiceContainer.register('a', (resolve) => resolve('b'));
+    ServiceContainer.register('b', (resolve) => resolve('c'));
+    ServiceContainer.register('c', (resolve) => resolve('a'));
+
+    expect(() => ServiceContainer.resolve('a')).toThrow(
+      'Circular dependency between services: a -> b -> c -> a'
+    );
+  });
+
+  it('detects a service depending on itself', () => {
+    ServiceContainer.register('self', (resolve) => resolve('self'));
+
+    expect(() => ServiceContainer.resolve('self')).toThrow(
+      'Circular dependency between services: self -> self'
+    );
+  });
+
+  it('resolves again after a circular dependency was detected', () => {
+    ServiceContainer.register('a', (resolve) => resolve('b'));
+    ServiceContainer.register('b', (resolve) => resolve('a'));
+    ServiceContainer.register(Analytics, () => new Analytics());
+
+    expect(() => ServiceContainer.resolve('a')).toThrow(/a -> b -> a/);
+    expect(ServiceContainer.resolve(Analytics)).toBeInstanceOf(Analytics);
+  });
+
+  it('creates a singleton once and a transient service on every resolve', () => {
+    let created = 0;
+    ServiceContainer.register(Analytics, () => new Analytics());
+    ServiceContainer.register('counter', () => ++created, {
+      singleton: false,
+    });
+
+    expect(ServiceContainer.resolve(Analytics)).toBe(
+      ServiceContainer.resolve(Analytics)
+    );
+    ServiceContainer.resolve('counter');
+    expect(ServiceContainer.resolve('counter')).toBe(2);
+  });
+
+  it('replaces a service until it is restored', () => {
+    const fake = new Analytics();
+    ServiceContainer.register(Analytics, () => new Analytics());
+
+    ServiceContainer.override(Analytics, fake);
+    expect(ServiceContainer.resolve(Analytics)).toBe(fake);
+    ServiceContainer.restore(Analytics);
+    expect(ServiceContainer.resolve(Analytics)).not.toBe(fake);
+  });
+
+  it('releases the replaced default input and keeps the fake on restore', () => {
+    const keyboard = ServiceContainer.Keyboard;
+    const destroy = vi.spyOn(keyboard, 'destroy');
+    const fake = new Keyboard();
+    const destroyFake = vi.spyOn(fake, 'destroy');
+
+    ServiceContainer.override(Keyboard, fake);
+    expect(destroy).toHaveBeenCalledOnce();
+    expect(ServiceContainer.Keyboard).toBe(fake);
+    ServiceContainer.restore(Keyboard);
+
+    expect(destroyFake).not.toHaveBeenCalled();
+    expect(ServiceContainer.Keyboard).not.toBe(fake);
+    expect(ServiceContainer.Keyboard).not.toBe(keyboard);
+  });
+
+  it('puts back the replaced default loop and its running state', () => {
+    const scheduler = new ManualScheduler();
+    const gameLoop = ServiceContainer.GameLoop.setScheduler(scheduler).start();
+    const fake = new GameLoop().setScheduler(scheduler);
+    const destroyFake = vi.spyOn(fake, 'destroy');
+
+    ServiceContainer.override(GameLoop, fake);
+    expect(gameLoop.isRunning).toBe(false);
+    expect(fake.isRunning).toBe(true);
+    ServiceContainer.restore(GameLoop);
+
+    expect(ServiceContainer.GameLoop).toBe(gameLoop);
+    expect(gameLoop.isRunning).toBe(true);
+    expect(fake.isRunning).toBe(false);
+    expect(destroyFake).not.toHaveBeenCalled();
+  });
+
+  it('puts back the replaced default service', () => {
+    const sceneManager = ServiceContainer.SceneManager;
+
+    ServiceContainer.override(SceneManager, new SceneManager(new AssetStore()));
+    ServiceContainer.restore(SceneManager);
+
+    expect(ServiceContainer.SceneManager).toBe(sceneManager);
+  });
+});
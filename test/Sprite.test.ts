@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Sprite } from '../src/assets/Sprite';
+import { AssetStore } from '../src/assets/AssetStore';
+import { TileSet } from '../src/assets/TileSet';
+import { TintCache } from '../src/assets/TintCache';
+import { Point } from '../src/primitives/Point';
+
+const createImage = (size: number, isComplete: boolean = true) => {
+  const image = document.createElement('img');
+  Object.defineProperty(image, 'complete', { value: isComplete });
+  Object.defineProperty(image, 'naturalWidth', { value: size });
+  Object.defineProperty(image, 'naturalHeight', { value: size });
+  Object.defineProperty(image, 'width', { value: size });
+  Object.defineProperty(image, 'height', { value: size });
+  return image;
+};
+
+/**
+ * A context recording the transform of the last drawn image.
+ */
+const createContext = (): CanvasRenderingContext2D & {
+  drawnTransform?: DOMMatrix;
+} => {
+  let current = new DOMMatrix();
+  const context = {
+    globalAlpha: 1,
+    globalCompositeOperation: 'source-over',
+    drawnTransform: undefined as DOMMatrix | undefined,
+    getTransform: () => DOMMatrix.fromMatrix(current),
+    setTransform: (transform: DOMMatrix) => {
+      current = transform;
+    },
+    save: () => undefined,
+    restore: () => undefined,
+    drawImage: () => {
+      context.drawnTransform = current;
+    },
+  };
+  return context as unknown as CanvasRenderingContext2D & {
+    drawnTransform?: DOMMatrix;
+  };
+};
+
+describe('Sprite', () => {
+  afterEach(() => AssetStore.reset());
+
+  it('mirrors a scaled sprite without scaling it again', () => {
+    AssetStore.instance.images.set('hero', createImage(16));
+    const sprite = new Sprite('hero');
+    const context = createContext();
+    sprite.position = new Point(100, 50);
+    sprite.scale = new Point(2, 3);
+    sprite.isVerticalFlipped = true;
+
+    sprite.draw(context);
+
+    expect(context.drawnTransform?.a).toBeCloseTo(-2);
+    expect(context.drawnTransform?.d).toBeCloseTo(3);
+    expect(context.drawnTransform?.e).toBeCloseTo(116);
+  });
+});
+
+describe('TintCache', () => {
+  it('does not cache the variant of an image not loaded yet', () => {
+    const image = createImage(0, false);
+
+    expect(TintCache.get(image, '#ff0000')).toBe(image);
+  });
+
+  it('shares the variant of a color and releases the least recently used ones', () => {
+    const image = createImage(16);
+    const red = TintCache.get(image, '#ff0000');
+
+    expect(TintCache.get(image, '#ff0000')).toBe(red);
+    for (let i = 0; i < 16; i++) TintCache.get(image, `#0000${i + 10}`);
+    expect(TintCache.get(image, '#ff0000')).not.toBe(red);
+  });
+});
+
+describe('TileSet', () => {
+  afterEach(() => AssetStore.reset());
+
+  it('caches a tinted tile only once its image is loaded', () => {
+    let isLoaded = false;
+    const image = document.createElement('img');
+    Object.defineProperty(image, 'complete', { get: () => isLoaded });
+    Object.defineProperty(image, 'naturalWidth', {
+      get: () => (isLoaded ? 64 : 0),
+    });
+    AssetStore.instance.images.set('tiles', image);
+    const tileSet = new TileSet('tiles', new Point(16, 16));
+    tileSet.tint = '#ff0000';
+    const drawn: CanvasImageSource[] = [];
+    const context = {
+      drawImage: (source: CanvasImageSource) => drawn.push(source),
+    } as unknown as CanvasRenderingContext2D;
+
+    tileSet.drawTile(context, 0, new Point(0, 0), true);
+    isLoaded = true;
+    tileSet.drawTile(context, 0, new Point(0, 0), true);
+    tileSet.drawTile(context, 0, new Point(0, 0), true);
+
+    expect(drawn[0]).toBe(image);
+    expect(drawn[1]).toBeInstanceOf(HTMLCanvasElement);
+    expect(drawn[2]).toBe(drawn[1]);
+  });
+});
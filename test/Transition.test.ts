@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SceneManager } from '../src/SceneManager';
+import { AssetStore } from '../src/assets/AssetStore';
+import { Scene } from '../src/interfaces/Scene';
+import { Easing } from '../src/transitions/Easing';
+import { FadeTransition } from '../src/transitions/FadeTransition';
+import { Transition } from '../src/transitions/Transition';
+
+/**
+ * A transition recording the progress of the frames it draws.
+ */
+class RecordingTransition extends Transition {
+  public progresses: number[] = [];
+
+  public constructor(duration: number, easing?: (t: number) => number) {
+    super(duration, easing);
+  }
+
+  public draw(
+    context: CanvasRenderingContext2D,
+    from: HTMLCanvasElement,
+    to: HTMLCanvasElement,
+    progress: number
+  ): void {
+    this.progresses.push(progress);
+  }
+}
+
+/**
+ * A 2D context whose drawing methods do nothing, the test DOM has no canvas backend.
+ */
+const createContext = (): CanvasRenderingContext2D =>
+  new Proxy({} as Record<string | symbol, unknown>, {
+    get: (target, key) => (key in target ? target[key] : () => undefined),
+  }) as unknown as CanvasRenderingContext2D;
+
+const createScene = (events: string[], name: string): Scene => ({
+  load: () => events.push(`load ${name}`),
+  unload: () => events.push(`unload ${name}`),
+  update: () => undefined,
+  draw: () => undefined,
+});
+
+describe('Transition', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('keeps the outgoing scenes loaded until the transition ends', () => {
+    const events: string[] = [];
+    const sceneManager = new SceneManager(new AssetStore());
+    sceneManager.setScene(createScene(events, 'menu'));
+    const game = createScene(events, 'game');
+
+    sceneManager.setScene(game, undefined, new RecordingTransition(1));
+    sceneManager.update(0.5);
+    expect(sceneManager.isTransitioning).toBe(true);
+    expect(sceneManager.currentScene).toBe(game);
+    expect(events).toEqual(['load menu', 'load game']);
+    sceneManager.update(0.5);
+
+    expect(sceneManager.isTransitioning).toBe(false);
+    expect(events).toEqual(['load menu', 'load game', 'unload menu']);
+  });
+
+  it('draws the eased progress of the transition', () => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(
+      createContext as unknown as () => null
+    );
+    const sceneManager = new SceneManager(new AssetStore());
+    const transition = new RecordingTransition(2, Easing.easeInQuad);
+    sceneManager.setScene(createScene([], 'menu'));
+    sceneManager.setScene(createScene([], 'game'), undefined, transition);
+
+    sceneManager.update(1);
+    sceneManager.draw(createContext());
+
+    expect(transition.progresses).toEqual([0.25]);
+  });
+
+  it('unloads the outgoing scenes when another scene is set meanwhile', () => {
+    const events: string[] = [];
+    const sceneManager = new SceneManager(new AssetStore());
+    sceneManager.setScene(createScene(events, 'menu'));
+    sceneManager.setScene(
+      createScene(events, 'game'),
+      undefined,
+      new RecordingTransition(1)
+    );
+
+    sceneManager.setScene(createScene(events, 'credits'));
+
+    expect(sceneManager.isTransitioning).toBe(false);
+    expect(events).toEqual([
+      'load menu',
+      'load game',
+      'unload menu',
+      'unload game',
+      'load credits',
+    ]);
+  });
+
+  it('sets the first scene without a transition', () => {
+    const sceneManager = new SceneManager(new AssetStore());
+
+    sceneManager.setScene(
+      createScene([], 'menu'),
+      undefined,
+      new RecordingTransition(1)
+    );
+
+    expect(sceneManager.isTransitioning).toBe(false);
+  });
+
+  it('fades out the outgoing scene, then fades in the incoming one', () => {
+    const drawn: unknown[] = [];
+    const context = {
+      drawImage: (image: unknown) => drawn.push(image),
+      fillRect: () => undefined,
+    } as unknown as CanvasRenderingContext2D;
+    const from = document.createElement('canvas');
+    const to = document.createElement('canvas');
+    const transition = new FadeTransition(1);
+
+    transition.draw(context, from, to, 0.25);
+    expect(context.globalAlpha).toBeCloseTo(0.5);
+    transition.draw(context, from, to, 0.75);
+    expect(context.globalAlpha).toBeCloseTo(0.5);
+
+    expect(drawn).toEqual([from, to]);
+  });
+
+  it('clamps the progress and rejects a negative duration', () => {
+    const transition = new RecordingTransition(1, Easing.easeOutQuad);
+
+    expect(transition.ease(2)).toBe(1);
+    expect(transition.ease(-1)).toBe(0);
+    expect(transition.ease(0.5)).toBeCloseTo(0.75);
+    expect(() => new RecordingTransition(-1)).toThrow(
+      'Transition duration cannot be negative.'
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { Camera } from '../src/cameras/Camera';
+import { Viewport } from '../src/cameras/Viewport';
+import { Point } from '../src/primitives/Point';
+import { Rectangle } from '../src/primitives/Rectangle';
+
+const expectPoint = (point: Point, x: number, y: number): void => {
+  expect(point.x).toBeCloseTo(x);
+  expect(point.y).toBeCloseTo(y);
+};
+
+describe('Viewport', () => {
+  it('gives its camera the size of its area by default', () => {
+    const viewport = new Viewport(
+      new Rectangle(new Point(400, 0), new Point(400, 600))
+    );
+
+    expectPoint(viewport.camera.viewportSize, 400, 600);
+    expectPoint(viewport.scale, 1, 1);
+  });
+
+  it('converts points through its area and its camera', () => {
+    const camera = new Camera(new Point(400, 300)).setPosition(
+      new Point(1000, 1000)
+    );
+    const viewport = new Viewport(
+      new Rectangle(new Point(400, 300), new Point(800, 600)),
+      camera
+    );
+
+    expectPoint(viewport.scale, 2, 2);
+    expectPoint(viewport.worldToScreen(new Point(1000, 1000)), 800, 600);
+    expectPoint(viewport.worldToScreen(new Point(1010, 990)), 820, 580);
+    expectPoint(viewport.screenToWorld(new Point(820, 580)), 1010, 990);
+  });
+
+  it('only contains the points of its area while visible', () => {
+    const viewport = new Viewport(
+      new Rectangle(new Point(0, 0), new Point(400, 600))
+    );
+
+    expect(viewport.containsPoint(new Point(100, 100))).toBe(true);
+    expect(viewport.containsPoint(new Point(500, 100))).toBe(false);
+    viewport.setOptions({ isVisible: false });
+    expect(viewport.containsPoint(new Point(100, 100))).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { WebGLSpriteBatch } from '../src/renderers/WebGLSpriteBatch';
+
+/**
+ * Records the calls made on an object whose methods all succeed, the test DOM has no WebGL or canvas backend.
+ */
+const createRecorder = <T>(calls: string[]): T =>
+  new Proxy({} as Record<string | symbol, unknown>, {
+    get: (target, key) =>
+      key in target
+        ? target[key]
+        : () => {
+            calls.push(String(key));
+            return {};
+          },
+  }) as unknown as T;
+
+const createBatch = (): {
+  batch: WebGLSpriteBatch;
+  calls: string[];
+  context: CanvasRenderingContext2D;
+} => {
+  const calls: string[] = [];
+  const gl = createRecorder<WebGL2RenderingContext>(calls);
+  const context = createRecorder<CanvasRenderingContext2D>(calls);
+  Object.defineProperty(context, 'canvas', {
+    value: { width: 800, height: 600 },
+  });
+  return { batch: new WebGLSpriteBatch(gl, 16), calls, context };
+};
+
+const createImage = (
+  src: string,
+  size: number,
+  isComplete: boolean = true
+): HTMLImageElement => {
+  const image = document.createElement('img');
+  image.src = src;
+  Object.defineProperty(image, 'complete', { value: isComplete });
+  Object.defineProperty(image, 'naturalWidth', { value: size });
+  Object.defineProperty(image, 'width', { value: size });
+  Object.defineProperty(image, 'height', { value: size });
+  return image;
+};
+
+const draw = (batch: WebGLSpriteBatch, image: HTMLImageElement): void =>
+  batch.drawImage(image, 0, 0, 16, 16, 16, 16, new DOMMatrix(), 1);
+
+describe('WebGLSpriteBatch', () => {
+  it('skips an image that is not loaded yet', () => {
+    const { batch, calls, context } = createBatch();
+    calls.length = 0;
+
+    batch.begin(context);
+    draw(batch, createImage('hero.png', 0, false));
+    draw(batch, createImage('broken.png', 0));
+    batch.end();
+
+    expect(calls).not.toContain('texImage2D');
+    expect(batch.drawCallCount).toBe(0);
+  });
+
+  it('copies the batched sprites on the context before a direct draw', () => {
+    const { batch, calls, context } = createBatch();
+    batch.begin(context);
+    draw(batch, createImage('hero.png', 16));
+    calls.length = 0;
+
+    batch.flush();
+    context.fillText('score', 0, 0);
+    batch.end();
+
+    expect(calls.indexOf('drawElements')).toBeLessThan(
+      calls.indexOf('fillText')
+    );
+    expect(calls.indexOf('drawImage')).toBeLessThan(calls.indexOf('fillText'));
+    expect(calls.lastIndexOf('drawImage')).toBe(calls.indexOf('drawImage'));
+  });
+
+  it('uploads an image again when invalidated or when its source changes', () => {
+    const { batch, calls, context } = createBatch();
+    const image = createImage('hero.png', 16);
+    const countUploads = (): number =>
+      calls.filter((call) => call === 'texImage2D').length;
+
+    batch.begin(context);
+    draw(batch, image);
+    batch.flush();
+    draw(batch, image);
+    batch.flush();
+    expect(countUploads()).toBe(1);
+    batch.invalidateTexture(image);
+    draw(batch, image);
+    batch.flush();
+    expect(countUploads()).toBe(2);
+    image.src = 'hero-hurt.png';
+    draw(batch, image);
+    batch.end();
+
+    expect(countUploads()).toBe(3);
+  });
+});